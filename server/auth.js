@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Access control for the local API. The server keeps a per-install secret in
+// server/auth.json and hands it to a browser only through pairing: the app asks for
+// a code, the server prints it to its console, and whoever can read the console
+// types it into the app. Calendar subscriptions cannot send headers, so they use a
+// separate feed token derived from the secret that opens nothing but the feed. File
+// links opened in a new tab cannot either; they carry a signed file token that opens
+// nothing but files and expires after an hour.
+
+export const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:5173', // vite dev server
+  'http://127.0.0.1:5173',
+  'http://localhost:4173', // vite preview
+  'http://127.0.0.1:4173',
+];
+
+const PAIRING_TTL_MS = 10 * 60 * 1000;
+const ATTEMPTS_PER_CODE = 5;
+const MAX_FAILURES = 20; // per PAIRING_TTL_MS window, across codes
+const FILE_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+function digest(value) {
+  return crypto.createHash('sha256').update(String(value)).digest();
+}
+
+function safeEqual(a, b) {
+  return typeof a === 'string' && typeof b === 'string' && crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+export function normalizeOrigins(input) {
+  const list = Array.isArray(input) ? input : DEFAULT_ALLOWED_ORIGINS;
+  return [...new Set(list.map(o => String(o).trim().replace(/\/+$/, '')).filter(Boolean))];
+}
+
+export function bearerToken(req) {
+  const header = req.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+}
+
+export function createAuth(filePath, { log = console.log } = {}) {
+  let secret = null;
+  let pairing = null; // { code, expiresAt, attempts }
+  let failures = [];
+
+  if (fs.existsSync(filePath)) {
+    try {
+      secret = JSON.parse(fs.readFileSync(filePath, 'utf-8')).secret || null;
+    } catch (e) {
+      console.error('Failed to load auth secret, creating a new one:', e);
+    }
+  }
+  if (!secret) {
+    secret = crypto.randomBytes(32).toString('base64url');
+    fs.writeFileSync(filePath, JSON.stringify({ secret, createdAt: new Date().toISOString() }, null, 2), { mode: 0o600 });
+  }
+
+  const sign = (value) => crypto.createHmac('sha256', secret).update(value).digest('base64url').slice(0, 32);
+  const feedToken = sign('calendar-feed');
+
+  function isAuthorized(token) {
+    return safeEqual(token, secret);
+  }
+
+  function isFeedToken(token) {
+    return safeEqual(token, feedToken);
+  }
+
+  // "<expiry in ms>.<signature>"
+  function fileToken() {
+    const expiresAt = Date.now() + FILE_TOKEN_TTL_MS;
+    return { token: `${expiresAt}.${sign(`files:${expiresAt}`)}`, expiresAt };
+  }
+
+  function isFileToken(token) {
+    const [expiresAt, signature] = String(token || '').split('.');
+    return Number(expiresAt) > Date.now() && safeEqual(signature, sign(`files:${expiresAt}`));
+  }
+
+  // Prints a fresh code; any earlier code stops working.
+  function startPairing() {
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    pairing = { code, expiresAt: Date.now() + PAIRING_TTL_MS, attempts: 0 };
+    log(`\nPairing code for Summer Research Tracker: ${code.slice(0, 3)} ${code.slice(3)} (valid for 10 minutes)\n`);
+  }
+
+  // Returns the secret for a correct code. Throws with a status for everything else.
+  function pair(code) {
+    const now = Date.now();
+    failures = failures.filter(t => now - t < PAIRING_TTL_MS);
+    const fail = (status, message) => {
+      const error = new Error(message);
+      error.status = status;
+      return error;
+    };
+    if (failures.length >= MAX_FAILURES) throw fail(429, 'Too many wrong codes. Try again in a few minutes.');
+    if (!pairing || pairing.expiresAt < now) throw fail(410, 'No pairing code is active. Request a new one.');
+
+    const entered = String(code || '').replace(/\s+/g, '');
+    if (!safeEqual(entered, pairing.code)) {
+      failures.push(now);
+      pairing.attempts++;
+      if (pairing.attempts >= ATTEMPTS_PER_CODE) {
+        pairing = null;
+        throw fail(410, 'Too many wrong codes. Request a new one.');
+      }
+      throw fail(403, 'Wrong pairing code');
+    }
+    pairing = null;
+    return secret;
+  }
+
+  return { isAuthorized, isFeedToken, feedToken, fileToken, isFileToken, startPairing, pair };
+}
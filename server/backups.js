@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { COLLECTIONS } from './db.js';
+import { isEncrypted, decryptJson } from './encryption.js';
+
+// Backup files are named backup-<ISO timestamp with ":" and "." replaced by "-">.json
+const BACKUP_NAME = /^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+export const DEFAULT_RETENTION = {
+  keepLast: 10,       // always keep the newest N backups
+  hourlyForHours: 24, // plus the newest backup of each hour for this many hours
+  dailyForDays: 30,   // plus the newest backup of each day for this many days
+};
+
+export function isBackupName(name) {
+  return BACKUP_NAME.test(name);
+}
+
+function backupTime(name) {
+  const m = name.match(BACKUP_NAME);
+  return m ? new Date(`${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z`) : null;
+}
+
+export function normalizeRetention(input = {}) {
+  const out = { ...DEFAULT_RETENTION };
+  for (const key of Object.keys(DEFAULT_RETENTION)) {
+    const n = Number(input[key]);
+    if (Number.isInteger(n) && n >= 0) out[key] = n;
+  }
+  // Never let a policy delete the backup that was just written.
+  out.keepLast = Math.max(1, out.keepLast);
+  return out;
+}
+
+export function backupFiles(backupDir) {
+  if (!fs.existsSync(backupDir)) return [];
+  return fs.readdirSync(backupDir).filter(isBackupName).sort().reverse();
+}
+
+// Encrypted backups are opened with the configured passphrase; without it they
+// are still listed, just without record counts.
+export function listBackups(backupDir, passphrase) {
+  return backupFiles(backupDir).map(name => {
+    const filePath = path.join(backupDir, name);
+    const stat = fs.statSync(filePath);
+    const info = { name, size: stat.size, createdAt: backupTime(name).toISOString(), encrypted: false, counts: null };
+    let data;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return { ...info, error: 'Unreadable' };
+    }
+    if (isEncrypted(data)) {
+      info.encrypted = true;
+      try {
+        data = decryptJson(data, passphrase);
+      } catch (e) {
+        return { ...info, error: e.message };
+      }
+    }
+    const counts = {};
+    COLLECTIONS.forEach(c => { counts[c] = Array.isArray(data[c]) ? data[c].length : 0; });
+    return { ...info, counts };
+  });
+}
+
+// Throws if the backup is encrypted and the passphrase does not open it.
+export function readBackup(backupDir, name, passphrase) {
+  if (!isBackupName(name)) return null;
+  const filePath = path.join(backupDir, name);
+  if (!fs.existsSync(filePath)) return null;
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return isEncrypted(data) ? decryptJson(data, passphrase) : data;
+}
+
+// Returns the names the policy keeps; everything else can be deleted.
+export function selectRetained(names, policy, now = new Date()) {
+  const keep = new Set();
+  const sorted = [...names].sort().reverse();
+  sorted.slice(0, policy.keepLast).forEach(n => keep.add(n));
+
+  const buckets = [
+    { span: 3600 * 1000, window: policy.hourlyForHours, key: d => d.toISOString().slice(0, 13) },
+    { span: 86400 * 1000, window: policy.dailyForDays, key: d => d.toISOString().slice(0, 10) },
+  ];
+  for (const { span, window, key } of buckets) {
+    const seen = new Set();
+    for (const name of sorted) {
+      const t = backupTime(name);
+      if (!t || now - t > window * span) continue;
+      const bucket = key(t);
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(name);
+    }
+  }
+  return keep;
+}
+
+export function pruneBackups(backupDir, policy) {
+  const names = backupFiles(backupDir);
+  const keep = selectRetained(names, policy);
+  const removed = names.filter(n => !keep.has(n));
+  removed.forEach(n => fs.unlinkSync(path.join(backupDir, n)));
+  return removed;
+}
+
+function recordLabel(collection, r) {
+  switch (collection) {
+    case 'projects': return [r.projectId, r.name].filter(Boolean).join(' · ');
+    case 'outreach': return [r.outreachId, r.piName].filter(Boolean).join(' · ');
+    case 'materials': return [r.taskId, r.type].filter(Boolean).join(' · ');
+    case 'templates': return [r.name, r.version].filter(Boolean).join(' · ');
+    default: return r.id;
+  }
+}
+
+// Compares a backup with the current store, from the point of view of restoring it:
+// "added" records come back, "removed" records would be lost, "changed" are overwritten.
+export function diffBackup(backup, current) {
+  const result = {};
+  for (const c of COLLECTIONS) {
+    const before = new Map((current[c] || []).map(r => [r.id, r]));
+    const after = new Map((backup[c] || []).map(r => [r.id, r]));
+    const added = [];
+    const removed = [];
+    const changed = [];
+    for (const [id, r] of after) {
+      const cur = before.get(id);
+      if (!cur) {
+        added.push({ id, label: recordLabel(c, r) });
+        continue;
+      }
+      const fields = [...new Set([...Object.keys(cur), ...Object.keys(r)])]
+        .filter(k => JSON.stringify(cur[k]) !== JSON.stringify(r[k]));
+      if (fields.length) changed.push({ id, label: recordLabel(c, r), fields });
+    }
+    for (const [id, r] of before) {
+      if (!after.has(id)) removed.push({ id, label: recordLabel(c, r) });
+    }
+    result[c] = { added, removed, changed };
+  }
+  return result;
+}
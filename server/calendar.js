@@ -0,0 +1,135 @@
+// iCalendar (RFC 5545) feed built from the store. Every dated field becomes an
+// all-day event whose UID is derived from the record id and the field, so a
+// subscribed calendar updates the same event when a date moves.
+
+export const DEFAULT_CALENDAR = {
+  alarmMinutes: [24 * 60], // VALARM triggers, in minutes before the start of the day
+};
+
+const CLOSED_PROJECT = ['Rejected', 'Closed'];
+
+export function normalizeCalendarConfig(input = {}) {
+  const minutes = Array.isArray(input.alarmMinutes) ? input.alarmMinutes : DEFAULT_CALENDAR.alarmMinutes;
+  return {
+    alarmMinutes: [...new Set(minutes.map(Number).filter(n => Number.isInteger(n) && n >= 0))].sort((a, b) => a - b),
+  };
+}
+
+// Accepts MM/DD/YYYY (what the date inputs commit) and YYYY-MM-DD.
+export function parseDay(raw) {
+  const v = String(raw || '').trim();
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  let y, mo, d;
+  if (m) [y, mo, d] = [+m[1], +m[2], +m[3]];
+  else if ((m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) [y, mo, d] = [+m[3], +m[1], +m[2]];
+  else return null;
+  const date = new Date(Date.UTC(y, mo - 1, d));
+  if (date.getUTCMonth() !== mo - 1 || date.getUTCDate() !== d) return null;
+  return date;
+}
+
+function formatDay(date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatStamp(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(s) {
+  return String(s ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space.
+function foldLine(line) {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+  const parts = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = Buffer.byteLength(ch, 'utf-8');
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function calendarEvents(store) {
+  const projects = store.projects || [];
+  const projectName = id => projects.find(p => p.id === id)?.name || 'General';
+  const events = [];
+
+  for (const p of projects) {
+    if (CLOSED_PROJECT.includes(p.status)) continue;
+    const label = p.name || p.projectId || 'Untitled project';
+    events.push({ uid: `project-${p.id}-ddl`, date: p.ddl, summary: `DDL · ${label}`, description: [p.institution, p.status && `Status: ${p.status}`, p.officialLink].filter(Boolean).join('\n'), url: p.officialLink });
+    events.push({ uid: `project-${p.id}-next-action`, date: p.nextActionDate, summary: `Next action · ${label}`, description: p.nextAction });
+  }
+  for (const o of store.outreach || []) {
+    if (o.stage === 'Closed') continue;
+    events.push({ uid: `outreach-${o.id}-follow-up`, date: o.nextFollowUp, summary: `Follow up · ${o.piName || o.outreachId}`, description: [o.institution, o.contact, o.nextAction].filter(Boolean).join('\n') });
+  }
+  for (const m of store.materials || []) {
+    if (m.status === '已提交') continue;
+    const target = m.targetProject === '通用' ? 'General' : projectName(m.targetProject);
+    events.push({ uid: `material-${m.id}-due`, date: m.due, summary: `Due · ${m.type} (${target})`, description: [m.taskId, m.status && `Status: ${m.status}`, m.notes].filter(Boolean).join('\n') });
+  }
+
+  return events.flatMap(e => {
+    const day = parseDay(e.date);
+    return day ? [{ ...e, day }] : [];
+  });
+}
+
+export function buildCalendar(store, { name = 'Summer Research Tracker', alarmMinutes = DEFAULT_CALENDAR.alarmMinutes } = {}) {
+  const stamp = formatStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Summer Research Tracker//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const e of calendarEvents(store)) {
+    const next = new Date(e.day.getTime() + 86400000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}@summer-research-tracker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDay(e.day)}`,
+      `DTEND;VALUE=DATE:${formatDay(next)}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.url) lines.push(`URL:${String(e.url).replace(/\s/g, '')}`);
+    for (const minutes of alarmMinutes) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(e.summary)}`,
+        `TRIGGER:-PT${minutes}M`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+
+// Journaled JSON store: a full snapshot (store.json) plus an append-only
+// journal (store.journal) of every mutation since that snapshot. On open the
+// journal is replayed on top of the snapshot, so a crash between a write and
+// the next compaction never loses acknowledged changes.
+//
+// Separately, audit.jsonl keeps a field-level history of every record change
+// (field, old value, new value, timestamp). It is append-only; the first history
+// request indexes it by record so later ones read just that record's lines. Once
+// it passes AUDIT_MAX_BYTES it is rewritten keeping the newest
+// AUDIT_KEEP_PER_RECORD entries of each record.
+
+export const COLLECTIONS = ['projects', 'outreach', 'materials', 'decisions', 'templates'];
+
+const SNAPSHOT_FILE = 'store.json';
+const JOURNAL_FILE = 'store.journal';
+const AUDIT_FILE = 'audit.jsonl';
+const COMPACT_EVERY = 200;
+const AUDIT_MAX_BYTES = 8 * 1024 * 1024;
+const AUDIT_KEEP_PER_RECORD = 100;
+const READ_CHUNK = 1024 * 1024;
+
+function emptyState() {
+  const now = new Date().toISOString();
+  const state = { meta: { version: 1, createdAt: now, updatedAt: now } };
+  COLLECTIONS.forEach(c => { state[c] = []; });
+  return state;
+}
+
+export function writeFileAtomic(filePath, content) {
+  const tmp = `${filePath}.tmp`;
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmp, filePath);
+}
+
+function applyOp(state, entry) {
+  const { op, collection, id } = entry;
+  switch (op) {
+    case 'replace': {
+      const next = emptyState();
+      COLLECTIONS.forEach(c => {
+        if (Array.isArray(entry.data?.[c])) next[c] = entry.data[c];
+      });
+      next.meta = { ...next.meta, ...(entry.data?.meta || {}) };
+      return next;
+    }
+    case 'insert':
+      state[collection] = [entry.record, ...state[collection].filter(r => r.id !== entry.record.id)];
+      break;
+    case 'update':
+      state[collection] = state[collection].map(r => (r.id === id ? { ...r, ...entry.patch, id } : r));
+      break;
+    case 'delete':
+      state[collection] = state[collection].filter(r => r.id !== id);
+      break;
+    default:
+      return state;
+  }
+  state.meta = { ...state.meta, updatedAt: entry.at };
+  return state;
+}
+
+function fieldChanges(before, after) {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  keys.delete('id');
+  return [...keys]
+    .filter(k => JSON.stringify(before?.[k]) !== JSON.stringify(after?.[k]))
+    .map(k => ({ field: k, old: before?.[k] ?? null, new: after?.[k] ?? null }));
+}
+
+// Audit records for a journal entry, computed against the state it applies to.
+function auditRecords(state, entry) {
+  const { op, collection, id, at } = entry;
+  switch (op) {
+    case 'insert':
+      return [{ at, collection, id: entry.record.id, op, changes: fieldChanges(null, entry.record) }];
+    case 'update': {
+      const before = state[collection].find(r => r.id === id);
+      const changes = fieldChanges(before, { ...before, ...entry.patch, id });
+      return changes.length ? [{ at, collection, id, op, changes }] : [];
+    }
+    case 'delete': {
+      const before = state[collection].find(r => r.id === id);
+      return before ? [{ at, collection, id, op, changes: fieldChanges(before, null) }] : [];
+    }
+    case 'replace': {
+      const records = [];
+      for (const c of COLLECTIONS) {
+        const prev = new Map(state[c].map(r => [r.id, r]));
+        const next = new Map((Array.isArray(entry.data?.[c]) ? entry.data[c] : []).map(r => [r.id, r]));
+        for (const [rid, r] of next) {
+          const changes = fieldChanges(prev.get(rid), r);
+          if (changes.length) records.push({ at, collection: c, id: rid, op: prev.has(rid) ? 'update' : 'insert', changes });
+        }
+        for (const [rid, r] of prev) {
+          if (!next.has(rid)) records.push({ at, collection: c, id: rid, op: 'delete', changes: fieldChanges(r, null) });
+        }
+      }
+      return records;
+    }
+    default:
+      return [];
+  }
+}
+
+// Calls onLine(text, start, length) for each non-empty line, with byte offsets,
+// reading the file a chunk at a time.
+function scanLines(filePath, onLine) {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const chunk = Buffer.alloc(READ_CHUNK);
+    let carry = Buffer.alloc(0);
+    let offset = 0; // file position of carry[0]
+    for (;;) {
+      const read = fs.readSync(fd, chunk, 0, chunk.length, null);
+      const buf = Buffer.concat([carry, chunk.subarray(0, read)]);
+      let lineStart = 0;
+      for (let i = buf.indexOf(10); i !== -1; i = buf.indexOf(10, lineStart)) {
+        if (i > lineStart) onLine(buf.toString('utf-8', lineStart, i), offset + lineStart, i - lineStart);
+        lineStart = i + 1;
+      }
+      carry = buf.subarray(lineStart);
+      offset += lineStart;
+      if (!read) break;
+    }
+    if (carry.length) onLine(carry.toString('utf-8'), offset, carry.length);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readSpans(filePath, spans) {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    return spans.map(({ start, length }) => {
+      const buf = Buffer.alloc(length);
+      fs.readSync(fd, buf, 0, length, start);
+      return buf.toString('utf-8');
+    });
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function openStore(dataDir) {
+  const snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+  const journalPath = path.join(dataDir, JOURNAL_FILE);
+  const auditPath = path.join(dataDir, AUDIT_FILE);
+
+  let initialized = false;
+  let state = emptyState();
+  let journalLength = 0;
+  // `${collection}/${id}` -> byte spans of its audit lines, oldest first; built on demand.
+  let auditIndex = null;
+  let auditSize = fs.existsSync(auditPath) ? fs.statSync(auditPath).size : 0;
+  let auditLimit = AUDIT_MAX_BYTES;
+
+  if (fs.existsSync(snapshotPath)) {
+    state = applyOp(state, { op: 'replace', data: JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) });
+    initialized = true;
+  }
+
+  if (fs.existsSync(journalPath)) {
+    const lines = fs.readFileSync(journalPath, 'utf-8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn final line from an interrupted append; everything before it is intact.
+        console.warn('Skipping unreadable journal entry in', journalPath);
+        continue;
+      }
+      state = applyOp(state, entry);
+      initialized = true;
+      journalLength++;
+    }
+  }
+
+  function compact() {
+    fs.mkdirSync(dataDir, { recursive: true });
+    writeFileAtomic(snapshotPath, JSON.stringify(state, null, 2));
+    fs.writeFileSync(journalPath, '');
+    journalLength = 0;
+  }
+
+  function indexAudit() {
+    const index = new Map();
+    if (fs.existsSync(auditPath)) {
+      scanLines(auditPath, (line, start, length) => {
+        let r;
+        try {
+          r = JSON.parse(line);
+        } catch {
+          return;
+        }
+        const key = `${r.collection}/${r.id}`;
+        if (!index.has(key)) index.set(key, []);
+        index.get(key).push({ start, length });
+      });
+    }
+    return index;
+  }
+
+  function appendAudit(records) {
+    const lines = records.map(r => JSON.stringify(r));
+    fs.appendFileSync(auditPath, lines.join('\n') + '\n');
+    records.forEach((r, i) => {
+      const length = Buffer.byteLength(lines[i]);
+      if (auditIndex) {
+        const key = `${r.collection}/${r.id}`;
+        if (!auditIndex.has(key)) auditIndex.set(key, []);
+        auditIndex.get(key).push({ start: auditSize, length });
+      }
+      auditSize += length + 1;
+    });
+    if (auditSize > auditLimit) compactAudit();
+  }
+
+  // Keeps the newest entries of each record, in their original order. A file still
+  // large after that (many records) raises the limit instead of compacting again at once.
+  function compactAudit() {
+    const index = auditIndex || indexAudit();
+    const kept = [...index.values()].flatMap(spans => spans.slice(-AUDIT_KEEP_PER_RECORD)).sort((a, b) => a.start - b.start);
+    const lines = readSpans(auditPath, kept);
+    writeFileAtomic(auditPath, lines.length ? lines.join('\n') + '\n' : '');
+    auditIndex = null;
+    auditSize = fs.statSync(auditPath).size;
+    auditLimit = Math.max(AUDIT_MAX_BYTES, auditSize * 2);
+  }
+
+  function commit(entry) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const fd = fs.openSync(journalPath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    const audit = auditRecords(state, entry);
+    if (audit.length) appendAudit(audit);
+    state = applyOp(state, entry);
+    initialized = true;
+    journalLength++;
+    if (journalLength >= COMPACT_EVERY) compact();
+  }
+
+  return {
+    dir: dataDir,
+    isInitialized: () => initialized,
+    snapshot: () => state,
+    list: (collection) => state[collection],
+    get: (collection, id) => state[collection].find(r => r.id === id) || null,
+    // Oldest first
+    history(collection, id) {
+      if (!fs.existsSync(auditPath)) return [];
+      if (!auditIndex) auditIndex = indexAudit();
+      return readSpans(auditPath, auditIndex.get(`${collection}/${id}`) || []).flatMap(line => {
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          return [];
+        }
+      });
+    },
+    insert(collection, record) {
+      commit({ op: 'insert', collection, record, at: new Date().toISOString() });
+      return this.get(collection, record.id);
+    },
+    update(collection, id, patch) {
+      commit({ op: 'update', collection, id, patch, at: new Date().toISOString() });
+      return this.get(collection, id);
+    },
+    remove(collection, id) {
+      commit({ op: 'delete', collection, id, at: new Date().toISOString() });
+    },
+    replace(data) {
+      commit({ op: 'replace', data, at: new Date().toISOString() });
+      compact();
+      return state;
+    },
+    compact,
+  };
+}
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+
+// Passphrase-encrypted JSON files: PBKDF2-SHA256 derives an AES-256-GCM key, and the
+// envelope records everything needed to decrypt except the passphrase. The same
+// format is written by the client (src/lib/encryption.ts) for encrypted exports.
+//
+// {
+//   "format": "summer-research-tracker/encrypted", "version": 1,
+//   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 310000, "salt": <base64> },
+//   "cipher": { "name": "AES-GCM", "iv": <base64> },
+//   "data": <base64 ciphertext with the 16-byte GCM tag appended>
+// }
+
+export const ENCRYPTED_FORMAT = 'summer-research-tracker/encrypted';
+const ITERATIONS = 310000;
+const TAG_LENGTH = 16;
+
+function decryptError(message) {
+  const error = new Error(message);
+  error.code = 'EDECRYPT';
+  return error;
+}
+
+export function isEncrypted(value) {
+  return Boolean(value && typeof value === 'object' && value.format === ENCRYPTED_FORMAT);
+}
+
+// Key derivation is deliberately slow, so keys are cached per passphrase and salt;
+// backups written by one server reuse a salt and differ only by IV.
+const keyCache = new Map();
+
+function deriveKey(passphrase, salt, iterations) {
+  const cacheKey = `${iterations}:${salt.toString('base64')}:${crypto.createHash('sha256').update(passphrase).digest('base64')}`;
+  if (!keyCache.has(cacheKey)) {
+    if (keyCache.size >= 32) keyCache.clear();
+    keyCache.set(cacheKey, crypto.pbkdf2Sync(passphrase, salt, iterations, 32, 'sha256'));
+  }
+  return keyCache.get(cacheKey);
+}
+
+const backupSalts = new Map(); // passphrase hash -> salt used for this process's backups
+
+export function encryptJson(value, passphrase) {
+  const id = crypto.createHash('sha256').update(passphrase).digest('base64');
+  if (!backupSalts.has(id)) backupSalts.set(id, crypto.randomBytes(16));
+  const salt = backupSalts.get(id);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, ITERATIONS), iv, { authTagLength: TAG_LENGTH });
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final(), cipher.getAuthTag()]);
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS, salt: salt.toString('base64') },
+    cipher: { name: 'AES-GCM', iv: iv.toString('base64') },
+    data: data.toString('base64'),
+  };
+}
+
+// Throws an error with code EDECRYPT for a wrong passphrase or a tampered file.
+export function decryptJson(envelope, passphrase) {
+  if (!isEncrypted(envelope) || envelope.version !== 1 || envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+    throw decryptError('Unsupported encrypted file');
+  }
+  if (!Number.isInteger(envelope.kdf.iterations) || envelope.kdf.iterations < 1 || envelope.kdf.iterations > 10000000) {
+    throw decryptError('Unsupported key derivation settings');
+  }
+  if (!passphrase) throw decryptError('Passphrase required');
+  const salt = Buffer.from(envelope.kdf.salt, 'base64');
+  const iv = Buffer.from(envelope.cipher.iv, 'base64');
+  const data = Buffer.from(envelope.data, 'base64');
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(passphrase, salt, envelope.kdf.iterations), iv, { authTagLength: TAG_LENGTH });
+    decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+    const plain = Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()]);
+    return JSON.parse(plain.toString('utf-8'));
+  } catch {
+    throw decryptError('Wrong passphrase or damaged file');
+  }
+}
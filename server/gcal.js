@@ -0,0 +1,214 @@
+import { parseDay } from './calendar.js';
+
+// Two-way sync between tracker dates and a dedicated Google Calendar.
+//
+// Each synced date ("slot") keeps { eventId, date } in record.calendarLinks, where
+// date is the YYYY-MM-DD both sides last agreed on. On sync a changed record date
+// is pushed to the event; otherwise a changed event date is pulled back into the
+// record. The calendar client is passed in (google.calendar({ version: 'v3', auth })
+// in the server), so the sync can run against a stub (see gcal.test.js).
+
+const SOURCE = 'summer-research-tracker';
+
+const SLOTS = [
+  {
+    collection: 'projects',
+    slot: 'ddl',
+    field: 'ddl',
+    active: p => !['Rejected', 'Closed'].includes(p.status),
+    summary: p => `DDL · ${p.name || p.projectId || 'Untitled project'}`,
+    description: p => [p.institution, p.officialLink].filter(Boolean).join('\n'),
+  },
+  {
+    collection: 'projects',
+    slot: 'interview',
+    field: 'nextActionDate',
+    active: p => p.status === 'Interview',
+    summary: p => `Interview · ${p.name || p.projectId || 'Untitled project'}`,
+    description: p => [p.institution, p.nextAction].filter(Boolean).join('\n'),
+  },
+  {
+    collection: 'outreach',
+    slot: 'meeting',
+    field: 'nextFollowUp',
+    active: o => o.stage === 'Meeting',
+    summary: o => `Meeting · ${o.piName || o.outreachId}`,
+    description: o => [o.institution, o.contact, o.nextAction].filter(Boolean).join('\n'),
+  },
+];
+
+function isoDay(raw) {
+  const d = parseDay(raw);
+  return d ? d.toISOString().slice(0, 10) : null;
+}
+
+// Back to the MM/DD/YYYY the date inputs use.
+function trackerDay(iso) {
+  const [y, m, d] = iso.split('-');
+  return `${m}/${d}/${y}`;
+}
+
+function addDays(iso, days) {
+  return new Date(Date.parse(`${iso}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+// Timed events (an interview moved to 14:00 in Calendar) count by their local start date.
+function eventDay(event) {
+  const start = event.start || {};
+  return (start.date || start.dateTime || '').slice(0, 10) || null;
+}
+
+// Moves an event to another day, keeping its time of day if it has one.
+function movedTimes(event, iso) {
+  const start = event.start || {};
+  if (!start.dateTime) return { start: { date: iso }, end: { date: addDays(iso, 1) } };
+  const delta = Math.round((Date.parse(`${iso}T00:00:00Z`) - Date.parse(`${start.dateTime.slice(0, 10)}T00:00:00Z`)) / 86400000);
+  const shift = t => t && t.dateTime ? { ...t, dateTime: addDays(t.dateTime.slice(0, 10), delta) + t.dateTime.slice(10) } : t;
+  return { start: shift(start), end: shift(event.end) };
+}
+
+function eventKey(collection, id, slot) {
+  return `${collection}/${id}/${slot}`;
+}
+
+function isNotFound(error) {
+  const status = error?.code ?? error?.status ?? error?.response?.status;
+  return status === 404 || status === 410;
+}
+
+export function createCalendarSync(calendar, { calendarName = 'Summer Research Tracker' } = {}) {
+  // Reuses knownId if it still exists, then a calendar with the same name, before creating one.
+  async function ensureCalendar(knownId) {
+    const calendars = [];
+    let pageToken;
+    do {
+      const res = await calendar.calendarList.list({ maxResults: 250, pageToken });
+      calendars.push(...(res.data.items || []));
+      pageToken = res.data.nextPageToken;
+    } while (pageToken);
+
+    const existing = calendars.find(c => knownId && c.id === knownId) || calendars.find(c => c.summary === calendarName);
+    if (existing) return existing.id;
+    const created = await calendar.calendars.insert({ requestBody: { summary: calendarName } });
+    return created.data.id;
+  }
+
+  async function listTrackerEvents(calendarId) {
+    const events = [];
+    let pageToken;
+    do {
+      const res = await calendar.events.list({
+        calendarId,
+        privateExtendedProperty: [`source=${SOURCE}`],
+        maxResults: 2500,
+        showDeleted: false,
+        pageToken,
+      });
+      events.push(...(res.data.items || []));
+      pageToken = res.data.nextPageToken;
+    } while (pageToken);
+    return events;
+  }
+
+  // Returns the record patches to apply to the store and a summary of what happened.
+  // A failing event call is reported in summary.errors and leaves that slot for the next sync.
+  async function sync(store, calendarId) {
+    const summary = { created: 0, updated: 0, deleted: 0, pulled: 0, errors: [] };
+    const events = await listTrackerEvents(calendarId);
+    const byId = new Map(events.map(e => [e.id, e]));
+    const byKey = new Map(events.map(e => [e.extendedProperties?.private?.record, e]));
+    const claimed = new Set();
+    const patches = new Map(); // "collection/id" -> { collection, id, patch }
+
+    const patchFor = (collection, record) => {
+      const k = `${collection}/${record.id}`;
+      if (!patches.has(k)) {
+        patches.set(k, { collection, id: record.id, patch: { calendarLinks: { ...(record.calendarLinks || {}) } } });
+      }
+      return patches.get(k).patch;
+    };
+
+    for (const def of SLOTS) {
+      for (const record of store[def.collection] || []) {
+        const key = eventKey(def.collection, record.id, def.slot);
+        const link = record.calendarLinks?.[def.slot];
+        const want = def.active(record) ? isoDay(record[def.field]) : null;
+        // A link lost to a restore or merge is re-attached through the event's record key.
+        const event = (link && byId.get(link.eventId)) || byKey.get(key);
+        if (event) claimed.add(event.id);
+
+        try {
+          if (!want) {
+            if (event) {
+              await calendar.events.delete({ calendarId, eventId: event.id });
+              summary.deleted++;
+            }
+            if (link) delete patchFor(def.collection, record).calendarLinks[def.slot];
+            continue;
+          }
+
+          const body = {
+            summary: def.summary(record),
+            description: def.description(record) || undefined,
+            extendedProperties: { private: { source: SOURCE, record: key } },
+          };
+
+          // Missing events (deleted in Calendar) are recreated while the date is still set.
+          if (!event) {
+            const res = await calendar.events.insert({
+              calendarId,
+              requestBody: { ...body, start: { date: want }, end: { date: addDays(want, 1) }, transparency: 'transparent' },
+            });
+            patchFor(def.collection, record).calendarLinks[def.slot] = { eventId: res.data.id, date: want };
+            summary.created++;
+            continue;
+          }
+
+          const remote = eventDay(event);
+          const agreed = link?.date || remote;
+          if (want !== agreed) {
+            // The tracker changed (or both did): the tracker wins.
+            await calendar.events.patch({ calendarId, eventId: event.id, requestBody: { ...body, ...movedTimes(event, want) } });
+            patchFor(def.collection, record).calendarLinks[def.slot] = { eventId: event.id, date: want };
+            summary.updated++;
+          } else if (remote && remote !== agreed) {
+            const patch = patchFor(def.collection, record);
+            patch[def.field] = trackerDay(remote);
+            patch.calendarLinks[def.slot] = { eventId: event.id, date: remote };
+            summary.pulled++;
+          } else {
+            if (event.summary !== body.summary || (event.description || undefined) !== body.description) {
+              await calendar.events.patch({ calendarId, eventId: event.id, requestBody: body });
+              summary.updated++;
+            }
+            if (!link || link.eventId !== event.id) {
+              patchFor(def.collection, record).calendarLinks[def.slot] = { eventId: event.id, date: want };
+            }
+          }
+        } catch (error) {
+          if (isNotFound(error) && link) delete patchFor(def.collection, record).calendarLinks[def.slot];
+          summary.errors.push({ record: key, error: error.message });
+        }
+      }
+    }
+
+    // Events whose record was deleted in the tracker.
+    for (const event of events) {
+      if (claimed.has(event.id)) continue;
+      try {
+        await calendar.events.delete({ calendarId, eventId: event.id });
+        summary.deleted++;
+      } catch (error) {
+        if (!isNotFound(error)) summary.errors.push({ record: event.extendedProperties?.private?.record, error: error.message });
+      }
+    }
+
+    const changed = [...patches.values()].filter(({ collection, id, patch }) => {
+      const record = store[collection].find(r => r.id === id);
+      return Object.keys(patch).some(k => JSON.stringify(patch[k]) !== JSON.stringify(record[k] ?? (k === 'calendarLinks' ? {} : undefined)));
+    });
+    return { patches: changed, summary };
+  }
+
+  return { ensureCalendar, sync };
+}
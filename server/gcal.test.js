@@ -0,0 +1,128 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCalendarSync } from './gcal.js';
+
+// Sync regressions against an in-memory calendar. The tests share one store and
+// calendar and run in order, each starting from where the previous one left it.
+
+// A calendar client that keeps events in memory, enough for ensureCalendar and sync.
+function stubCalendar(calendars = []) {
+  const events = new Map();
+  let nextId = 1;
+  const missing = eventId => Object.assign(new Error(`Event ${eventId} not found`), { code: 404 });
+  return {
+    events: {
+      list: async () => ({ data: { items: [...events.values()] } }),
+      insert: async ({ requestBody }) => {
+        const event = { ...requestBody, id: `e${nextId++}` };
+        events.set(event.id, event);
+        return { data: event };
+      },
+      patch: async ({ eventId, requestBody }) => {
+        if (!events.has(eventId)) throw missing(eventId);
+        events.set(eventId, { ...events.get(eventId), ...requestBody });
+        return { data: events.get(eventId) };
+      },
+      delete: async ({ eventId }) => {
+        if (!events.delete(eventId)) throw missing(eventId);
+        return { data: {} };
+      },
+    },
+    calendarList: { list: async () => ({ data: { items: calendars } }) },
+    calendars: { insert: async ({ requestBody }) => ({ data: { id: 'new-calendar', ...requestBody } }) },
+    stored: events,
+  };
+}
+
+const applyPatches = (store, patches) => ({
+  ...store,
+  ...Object.fromEntries(['projects', 'outreach'].map(c => [
+    c,
+    store[c].map(r => ({ ...r, ...(patches.find(p => p.collection === c && p.id === r.id)?.patch || {}) })),
+  ])),
+});
+const withProject = (store, patch) => ({ ...store, projects: store.projects.map(p => ({ ...p, ...patch })) });
+
+describe('calendar sync', () => {
+  const calendar = stubCalendar([{ id: 'work', summary: 'Work' }, { id: 'tracker', summary: 'Summer Research Tracker' }]);
+  const gcal = createCalendarSync(calendar);
+  let store = {
+    projects: [{ id: 'p1', projectId: 'P-1', name: 'SURF', status: 'Applying', ddl: '03/01/2030' }],
+    outreach: [{ id: 'o1', outreachId: 'O-1', piName: 'Li', stage: 'Sent', nextFollowUp: '03/02/2030' }],
+  };
+  const eventOf = () => [...calendar.stored.values()][0];
+  const sync = async () => {
+    const result = await gcal.sync(store, 'tracker');
+    store = applyPatches(store, result.patches);
+    return result;
+  };
+
+  test('calendar found by name', async () => assert.equal(await gcal.ensureCalendar('gone'), 'tracker'));
+
+  test('calendar created when missing', async () =>
+    assert.equal(await createCalendarSync(stubCalendar([])).ensureCalendar(null), 'new-calendar'));
+
+  test('active date creates an event', async () => {
+    const { summary } = await sync();
+    assert.equal(summary.created, 1);
+    assert.equal(calendar.stored.size, 1);
+    assert.equal(store.projects[0].calendarLinks?.ddl?.date, '2030-03-01');
+    assert.equal(eventOf().start.date, '2030-03-01');
+  });
+
+  test('unchanged store is a no-op', async () => {
+    const { patches, summary } = await gcal.sync(store, 'tracker');
+    assert.equal(patches.length, 0);
+    assert.equal(summary.created + summary.updated + summary.deleted + summary.pulled, 0);
+  });
+
+  test('tracker date change updates the event', async () => {
+    store = withProject(store, { ddl: '03/05/2030' });
+    const { summary } = await sync();
+    assert.equal(summary.updated, 1);
+    assert.equal(eventOf().start.date, '2030-03-05');
+    assert.equal(eventOf().end.date, '2030-03-06');
+    assert.equal(store.projects[0].calendarLinks.ddl.date, '2030-03-05');
+  });
+
+  test('event moved in Calendar is pulled', async () => {
+    const event = eventOf();
+    calendar.stored.set(event.id, { ...event, start: { dateTime: '2030-03-09T14:00:00+08:00' }, end: { dateTime: '2030-03-09T15:00:00+08:00' } });
+    const { summary } = await sync();
+    assert.equal(summary.pulled, 1);
+    assert.equal(store.projects[0].ddl, '03/09/2030');
+    assert.equal(store.projects[0].calendarLinks.ddl.date, '2030-03-09');
+  });
+
+  test('both changed: tracker wins and keeps the time of day', async () => {
+    calendar.stored.set(eventOf().id, { ...eventOf(), start: { dateTime: '2030-03-10T14:00:00+08:00' }, end: { dateTime: '2030-03-10T15:00:00+08:00' } });
+    store = withProject(store, { ddl: '03/12/2030' });
+    const { summary } = await sync();
+    assert.equal(summary.updated, 1);
+    assert.equal(eventOf().start.dateTime, '2030-03-12T14:00:00+08:00');
+    assert.equal(store.projects[0].ddl, '03/12/2030');
+  });
+
+  test('closing the project deletes the event', async () => {
+    store = withProject(store, { status: 'Closed' });
+    const { summary } = await sync();
+    assert.equal(summary.deleted, 1);
+    assert.equal(calendar.stored.size, 0);
+    assert.ok(!('ddl' in store.projects[0].calendarLinks));
+  });
+
+  test('event deleted in Calendar is recreated', async () => {
+    store = withProject(store, { status: 'Applying' });
+    await sync();
+    calendar.stored.clear();
+    const { summary } = await gcal.sync(store, 'tracker');
+    assert.equal(summary.created, 1);
+    assert.equal(calendar.stored.size, 1);
+  });
+
+  test('event of a deleted record is removed', async () => {
+    const { summary } = await gcal.sync({ ...store, projects: [] }, 'tracker');
+    assert.equal(summary.deleted, 1);
+    assert.equal(calendar.stored.size, 0);
+  });
+});
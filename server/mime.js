@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import path from 'path';
+
+// Builds the RFC 5322 / MIME message handed to Gmail: a text and HTML alternative,
+// optional attachments, RFC 2047 encoded headers (names and subjects in Chinese
+// survive) and reply headers so follow-ups stay in the same thread. Bad input
+// throws with an HTTP status and a code, like the path checks in paths.js.
+
+export const MAX_MESSAGE_BYTES = 25 * 1024 * 1024; // Gmail's limit for a message with attachments
+
+const ADDRESS_RE = /^[^\s<>()",;:@]+@[^\s<>()",;:@]+\.[^\s<>()",;:@]+$/;
+const LINE = 76;
+
+const CONTENT_TYPES = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.zip': 'application/zip',
+};
+
+export function mailError(status, code, message) {
+  const error = new Error(message);
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+export function isMailError(error) {
+  return Boolean(error && typeof error.status === 'number' && typeof error.code === 'string' && error.code.startsWith('EMAIL'));
+}
+
+// Header values never carry line breaks, so nothing can smuggle in extra headers.
+function singleLine(value) {
+  return String(value ?? '').replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 "B" encoded-words, split between characters so no word exceeds 75 chars.
+export function encodeHeaderValue(value) {
+  const text = singleLine(value);
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  const words = [];
+  let chunk = '';
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char) > 45) { // 45 bytes -> 60 base64 chars + 12 of wrapping
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words.map(w => `=?UTF-8?B?${Buffer.from(w).toString('base64')}?=`).join('\r\n ');
+}
+
+function formatDisplayName(name) {
+  if (!/^[\x20-\x7e]*$/.test(name)) return encodeHeaderValue(name);
+  return /^[\w .'-]*$/.test(name) ? name : `"${name.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// Accepts "a@x.edu, Name <b@y.edu>" or an array of such entries; commas inside
+// quoted names do not split.
+export function parseAddressList(input) {
+  const entries = [];
+  for (const item of Array.isArray(input) ? input : [input]) {
+    let current = '';
+    let quoted = false;
+    for (const char of singleLine(item)) {
+      if (char === '"') quoted = !quoted;
+      if ((char === ',' || char === ';') && !quoted) {
+        entries.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    entries.push(current);
+  }
+  return entries.map(e => e.trim()).filter(Boolean).map(entry => {
+    const match = entry.match(/^(.*)<([^<>]+)>$/);
+    const name = match ? match[1].trim().replace(/^"(.*)"$/, '$1') : '';
+    const address = (match ? match[2] : entry).trim();
+    if (!ADDRESS_RE.test(address)) throw mailError(400, 'EMAIL_ADDRESS', `Invalid email address: ${address}`);
+    return { name, address };
+  });
+}
+
+function formatAddressList(list) {
+  return list.map(({ name, address }) => (name ? `${formatDisplayName(name)} <${address}>` : address)).join(', ');
+}
+
+function base64Lines(buffer) {
+  return buffer.toString('base64').replace(new RegExp(`.{1,${LINE}}`, 'g'), '$&\r\n');
+}
+
+function escapeHtml(text) {
+  return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+}
+
+// The HTML alternative for a plain-text message: paragraphs and line breaks kept.
+export function textToHtml(text) {
+  const paragraphs = String(text).replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const body = paragraphs.map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('\n');
+  return `<!DOCTYPE html>\n<html><body>\n${body}\n</body></html>`;
+}
+
+export function htmlToText(html) {
+  return String(html)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function contentTypeFor(filename) {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+// RFC 2231 for the real name, plus a plain fallback for clients that ignore it.
+function attachmentHeaders({ filename, contentType }) {
+  const ascii = /^[\x20-\x7e]*$/.test(filename) && !/["\\]/.test(filename);
+  const fallback = ascii ? filename : filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const param = ascii ? `filename="${filename}"` : `filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+  return [
+    `Content-Type: ${contentType || contentTypeFor(filename)}; name="${fallback}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; ${param}`,
+  ];
+}
+
+function textPart(contentType, text) {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(text)),
+  ].join('\r\n');
+}
+
+function multipart(subtype, parts) {
+  const boundary = `=_part_${crypto.randomBytes(12).toString('hex')}`;
+  const body = parts.map(p => `--${boundary}\r\n${p}`).join('\r\n');
+  return [`Content-Type: multipart/${subtype}; boundary="${boundary}"`, '', `${body}\r\n--${boundary}--\r\n`].join('\r\n');
+}
+
+// message: { to, cc, bcc, subject, text, html, attachments: [{ filename, content: Buffer,
+// contentType? }], inReplyTo, references, date }. Either text or html may be left out.
+export function buildMimeMessage(message) {
+  const to = parseAddressList(message.to || []);
+  const cc = parseAddressList(message.cc || []);
+  const bcc = parseAddressList(message.bcc || []);
+  if (!to.length && !cc.length && !bcc.length) throw mailError(400, 'EMAIL_RECIPIENT', 'At least one recipient is required');
+  const subject = singleLine(message.subject);
+  if (!subject) throw mailError(400, 'EMAIL_SUBJECT', 'Subject is required');
+  const html = message.html ? String(message.html) : textToHtml(message.text || '');
+  const text = message.text ? String(message.text) : htmlToText(html);
+  if (!text.trim()) throw mailError(400, 'EMAIL_BODY', 'Message body is required');
+
+  const headers = ['MIME-Version: 1.0', `Date: ${(message.date || new Date()).toUTCString()}`];
+  if (to.length) headers.push(`To: ${formatAddressList(to)}`);
+  if (cc.length) headers.push(`Cc: ${formatAddressList(cc)}`);
+  if (bcc.length) headers.push(`Bcc: ${formatAddressList(bcc)}`); // Gmail removes it from what recipients get
+  headers.push(`Subject: ${encodeHeaderValue(subject)}`);
+  if (message.inReplyTo) headers.push(`In-Reply-To: ${singleLine(message.inReplyTo)}`);
+  if (message.references) headers.push(`References: ${singleLine(message.references)}`);
+
+  let content = multipart('alternative', [textPart('text/plain', text), textPart('text/html', html)]);
+  const attachments = message.attachments || [];
+  if (attachments.length) {
+    content = multipart('mixed', [
+      content,
+      ...attachments.map(a => [...attachmentHeaders(a), '', base64Lines(a.content)].join('\r\n')),
+    ]);
+  }
+  const raw = `${headers.join('\r\n')}\r\n${content}`;
+  if (Buffer.byteLength(raw) > MAX_MESSAGE_BYTES) {
+    throw mailError(413, 'EMAIL_TOO_LARGE', 'The message with its attachments is larger than 25 MB');
+  }
+  return raw;
+}
+
+// In-Reply-To/References for a reply to the last message of a thread, from that
+// message's headers ([{ name, value }] as the Gmail API returns them).
+export function replyHeaders(headers) {
+  const get = name => headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value || '';
+  const messageId = get('Message-ID');
+  if (!messageId) return {};
+  return {
+    inReplyTo: messageId,
+    references: [get('References'), messageId].filter(Boolean).join(' '),
+    subject: get('Subject'),
+  };
+}
+
+// Gmail only threads a reply whose subject matches, so "Re:" is added once.
+export function replySubject(subject) {
+  const s = singleLine(subject);
+  return /^re:/i.test(s) ? s : `Re: ${s}`;
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  MAX_MESSAGE_BYTES,
+  buildMimeMessage,
+  encodeHeaderValue,
+  htmlToText,
+  isMailError,
+  parseAddressList,
+  replyHeaders,
+  replySubject,
+  textToHtml,
+} from './mime.js';
+
+// Encoding and injection regressions.
+
+const rejectsWith = (fn, code) =>
+  assert.throws(fn, e => isMailError(e) && e.code === code);
+const decodeWords = value =>
+  value.replace(/=\?UTF-8\?B\?([^?]+)\?=(\r\n )?/g, (_, b64) => Buffer.from(b64, 'base64').toString('utf-8'));
+const headerOf = (raw, name) => {
+  const head = raw.slice(0, raw.indexOf('\r\n\r\n'));
+  const match = head.match(new RegExp(`^${name}: (.*(?:\\r\\n .*)*)`, 'm'));
+  return match ? match[1] : null;
+};
+
+const base = { to: 'pi@mit.edu', subject: 'Summer research inquiry', text: 'Dear Prof. Smith,\n\nHello.' };
+
+test('ascii header unchanged', () => assert.equal(encodeHeaderValue('Summer research'), 'Summer research'));
+
+test('chinese subject round-trips', () => assert.equal(decodeWords(encodeHeaderValue('暑期科研申请 · 张老师')), '暑期科研申请 · 张老师'));
+
+test('long subject folds into short words', () => {
+  for (const word of encodeHeaderValue('暑'.repeat(80)).split('\r\n ')) {
+    assert.ok(word.length <= 75 && word.startsWith('=?UTF-8?B?'), word);
+  }
+});
+
+test('subject header is encoded', () => assert.ok(headerOf(buildMimeMessage({ ...base, subject: '申请' }), 'Subject').startsWith('=?UTF-8?B?')));
+
+test('newline in subject cannot add headers', () => {
+  const raw = buildMimeMessage({ ...base, subject: 'Hi\r\nBcc: attacker@evil.com' });
+  assert.doesNotMatch(raw, /^Bcc:/m);
+  assert.equal(headerOf(raw, 'Subject'), 'Hi Bcc: attacker@evil.com');
+});
+
+test('address list with quoted comma', () => {
+  const list = parseAddressList('"Smith, Jane" <jane@mit.edu>; bob@cmu.edu');
+  assert.equal(list.length, 2);
+  assert.equal(list[0].name, 'Smith, Jane');
+  assert.equal(list[1].address, 'bob@cmu.edu');
+});
+
+test('non-ascii display name encoded', () =>
+  assert.equal(decodeWords(headerOf(buildMimeMessage({ ...base, to: '张三 <zhang@pku.edu.cn>' }), 'To')), '张三 <zhang@pku.edu.cn>'));
+
+test('invalid address', () => rejectsWith(() => parseAddressList('not-an-address'), 'EMAIL_ADDRESS'));
+
+test('newline in address rejected', () => rejectsWith(() => buildMimeMessage({ ...base, to: 'a@b.com\r\nBcc: c@d.com' }), 'EMAIL_ADDRESS'));
+
+test('cc and bcc headers', () => {
+  const raw = buildMimeMessage({ ...base, cc: ['a@x.edu'], bcc: 'b@y.edu' });
+  assert.equal(headerOf(raw, 'Cc'), 'a@x.edu');
+  assert.equal(headerOf(raw, 'Bcc'), 'b@y.edu');
+});
+
+test('recipient required', () => rejectsWith(() => buildMimeMessage({ ...base, to: '' }), 'EMAIL_RECIPIENT'));
+
+test('text and html alternative', () => {
+  const raw = buildMimeMessage(base);
+  assert.ok(raw.includes('multipart/alternative'));
+  assert.ok(raw.includes('text/plain; charset=UTF-8'));
+  assert.ok(raw.includes('text/html; charset=UTF-8'));
+});
+
+test('html escapes text', () => assert.equal(textToHtml('a < b\nc'), '<!DOCTYPE html>\n<html><body>\n<p>a &lt; b<br>c</p>\n</body></html>'));
+
+test('text from html', () => assert.equal(htmlToText('<p>Dear Prof.</p><p>Hi &amp; bye<br>X</p>'), 'Dear Prof.\n\nHi & bye\nX'));
+
+test('attachment with chinese name', () => {
+  const raw = buildMimeMessage({ ...base, attachments: [{ filename: '简历.pdf', content: Buffer.from('%PDF-1.4') }] });
+  assert.ok(raw.includes('multipart/mixed'));
+  assert.ok(raw.includes("filename*=UTF-8''%E7%AE%80%E5%8E%86.pdf"));
+  assert.ok(raw.includes('Content-Type: application/pdf'));
+  assert.ok(raw.includes(Buffer.from('%PDF-1.4').toString('base64')));
+});
+
+test('base64 lines stay short', () => {
+  const raw = buildMimeMessage({ ...base, attachments: [{ filename: 'CV.pdf', content: crypto.randomBytes(4000) }] });
+  assert.ok(raw.split('\r\n').every(line => line.length <= 998));
+});
+
+test('message size limit', () =>
+  rejectsWith(() => buildMimeMessage({ ...base, attachments: [{ filename: 'big.zip', content: Buffer.alloc(MAX_MESSAGE_BYTES) }] }), 'EMAIL_TOO_LARGE'));
+
+test('reply headers chain references', () => {
+  const r = replyHeaders([{ name: 'Message-Id', value: '<b@mail>' }, { name: 'References', value: '<a@mail>' }, { name: 'Subject', value: 'Hi' }]);
+  assert.equal(r.inReplyTo, '<b@mail>');
+  assert.equal(r.references, '<a@mail> <b@mail>');
+  assert.equal(r.subject, 'Hi');
+});
+
+test('reply headers written', () => {
+  const raw = buildMimeMessage({ ...base, inReplyTo: '<b@mail>', references: '<a@mail> <b@mail>' });
+  assert.equal(headerOf(raw, 'In-Reply-To'), '<b@mail>');
+  assert.equal(headerOf(raw, 'References'), '<a@mail> <b@mail>');
+});
+
+test('reply subject prefixed once', () => {
+  assert.equal(replySubject('Hi'), 'Re: Hi');
+  assert.equal(replySubject('RE: Hi'), 'RE: Hi');
+});
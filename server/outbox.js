@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './db.js';
+import { mailError, parseAddressList } from './mime.js';
+
+// Emails scheduled for later, one outbox.json per workspace next to its store. The
+// server's scheduler sends each entry once sendAt has passed:
+// pending -> sending -> sent | failed. Only pending and failed entries can be
+// edited, rescheduled or cancelled. An entry still marked sending when the server
+// starts is marked failed rather than sent again, since Gmail may already have it.
+
+const OUTBOX_FILE = 'outbox.json';
+const KEEP_SENT_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function text(value) {
+  return typeof value === 'string' ? value : '';
+}
+
+// The message as /send-email takes it; addresses are checked now so a typo fails
+// when it is scheduled, not hours later.
+function normalizeMessage(input) {
+  if (!input || typeof input !== 'object') throw mailError(400, 'EMAIL_SCHEDULE', 'message is required');
+  const message = {
+    to: text(input.to).trim(),
+    cc: text(input.cc).trim(),
+    bcc: text(input.bcc).trim(),
+    subject: text(input.subject),
+    body: text(input.body),
+    attachments: Array.isArray(input.attachments) ? input.attachments.filter(a => typeof a === 'string' && a) : [],
+    threadId: text(input.threadId),
+  };
+  if (!parseAddressList(message.to).length) throw mailError(400, 'EMAIL_RECIPIENT', 'At least one recipient is required');
+  parseAddressList(message.cc);
+  parseAddressList(message.bcc);
+  if (!message.body.trim()) throw mailError(400, 'EMAIL_SCHEDULE', 'The message is empty');
+  return message;
+}
+
+function normalizeSendAt(value) {
+  const time = Date.parse(value);
+  if (typeof value !== 'string' || Number.isNaN(time)) throw mailError(400, 'EMAIL_SCHEDULE', 'sendAt must be a date and time');
+  return new Date(time).toISOString();
+}
+
+function normalizeTimeZone(value) {
+  if (value == null || value === '') return null;
+  if (typeof value !== 'string' || !isValidTimeZone(value)) throw mailError(400, 'EMAIL_SCHEDULE', `Unknown time zone: ${value}`);
+  return value;
+}
+
+function normalizeTemplate(value) {
+  if (!value || typeof value !== 'object') return null;
+  return { id: text(value.id), name: text(value.name), version: text(value.version) };
+}
+
+// The copy of a sent email kept on the outreach record (Outreach.sentEmails in the app).
+export function sentEmailCopy(entry) {
+  const { to, cc, bcc, subject, body, attachments } = entry.message;
+  return {
+    sentAt: entry.sentAt,
+    to,
+    ...(cc ? { cc } : {}),
+    ...(bcc ? { bcc } : {}),
+    subject,
+    body,
+    ...(attachments.length ? { attachments } : {}),
+    ...(entry.template ? { template: entry.template } : {}),
+    messageId: entry.messageId,
+    threadId: entry.threadId,
+  };
+}
+
+// Patch for the outreach record once an entry is sent, matching what the app does
+// after sending from the Email tab. Null when the record already has it.
+export function sentRecordPatch(record, entry, today) {
+  const sent = Array.isArray(record.sentEmails) ? record.sentEmails : [];
+  if (sent.some(m => m.messageId === entry.messageId)) return null;
+  const reply = Boolean(entry.message.threadId);
+  return {
+    threadId: entry.threadId,
+    stage: reply ? (record.stage === 'Sent' ? 'Follow-up' : record.stage) : 'Sent',
+    firstContact: record.firstContact || today,
+    ...(entry.template?.version ? { emailVersion: entry.template.version } : {}),
+    sentEmails: [...sent, sentEmailCopy(entry)],
+  };
+}
+
+export function openOutbox(dataDir) {
+  const filePath = path.join(dataDir, OUTBOX_FILE);
+  let entries = [];
+
+  if (fs.existsSync(filePath)) {
+    try {
+      entries = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (e) {
+      console.error('Failed to read outbox, starting empty:', filePath, e);
+    }
+  }
+  const now = Date.now();
+  entries = (Array.isArray(entries) ? entries : [])
+    .filter(e => e.status !== 'sent' || now - Date.parse(e.sentAt) < KEEP_SENT_MS)
+    .map(e => (e.status === 'sending'
+      ? { ...e, status: 'failed', error: 'The server stopped while sending. Check Gmail\'s Sent folder before rescheduling.' }
+      : e));
+
+  function save() {
+    fs.mkdirSync(dataDir, { recursive: true });
+    writeFileAtomic(filePath, JSON.stringify(entries, null, 2));
+  }
+
+  function find(id) {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) throw mailError(404, 'EMAIL_SCHEDULE_NOT_FOUND', 'Scheduled email not found');
+    return entry;
+  }
+
+  function replace(id, next) {
+    entries = entries.map(e => (e.id === id ? next : e));
+    save();
+    return next;
+  }
+
+  function editable(id) {
+    const entry = find(id);
+    if (entry.status === 'sending' || entry.status === 'sent') {
+      throw mailError(409, 'EMAIL_SCHEDULE_LOCKED', `This email is already ${entry.status}`);
+    }
+    return entry;
+  }
+
+  return {
+    // Soonest first
+    list: () => [...entries].sort((a, b) => Date.parse(a.sendAt) - Date.parse(b.sendAt)),
+    get: find,
+    add(input) {
+      if (typeof input?.outreachId !== 'string' || !input.outreachId) throw mailError(400, 'EMAIL_SCHEDULE', 'outreachId is required');
+      const entry = {
+        id: crypto.randomUUID(),
+        outreachId: input.outreachId,
+        sendAt: normalizeSendAt(input.sendAt),
+        timeZone: normalizeTimeZone(input.timeZone),
+        message: normalizeMessage(input.message),
+        template: normalizeTemplate(input.template),
+        status: 'pending',
+        attempts: 0,
+        error: null,
+        createdAt: new Date().toISOString(),
+      };
+      entries.push(entry);
+      save();
+      return entry;
+    },
+    // Editing a failed entry queues it again.
+    update(id, patch) {
+      const entry = editable(id);
+      return replace(id, {
+        ...entry,
+        ...(patch.sendAt !== undefined ? { sendAt: normalizeSendAt(patch.sendAt) } : {}),
+        ...(patch.timeZone !== undefined ? { timeZone: normalizeTimeZone(patch.timeZone) } : {}),
+        ...(patch.message !== undefined ? { message: normalizeMessage({ ...entry.message, ...patch.message }) } : {}),
+        status: 'pending',
+        error: null,
+      });
+    },
+    remove(id) {
+      editable(id);
+      entries = entries.filter(e => e.id !== id);
+      save();
+    },
+    due: (at = Date.now()) => entries.filter(e => e.status === 'pending' && Date.parse(e.sendAt) <= at),
+    markSending(id) {
+      const entry = find(id);
+      return replace(id, { ...entry, status: 'sending', attempts: entry.attempts + 1 });
+    },
+    markSent: (id, { messageId, threadId }) =>
+      replace(id, { ...find(id), status: 'sent', error: null, sentAt: new Date().toISOString(), messageId, threadId }),
+    markFailed: (id, error) => replace(id, { ...find(id), status: 'failed', error }),
+  };
+}
@@ -0,0 +1,84 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isMailError } from './mime.js';
+import { openOutbox, sentRecordPatch } from './outbox.js';
+
+// Scheduling regressions. The tests share one outbox and run in order: the entry
+// added first is rescheduled, sent and recorded by the ones after it.
+
+const rejectsWith = (fn, code) =>
+  assert.throws(fn, e => isMailError(e) && e.code === code);
+
+const message = { to: 'Li <li@u.edu>', subject: 'Hi', body: 'Dear Prof. Li' };
+
+describe('outbox', () => {
+  let dir;
+  let outbox;
+  let entry;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+    outbox = openOutbox(dir);
+    entry = outbox.add({ outreachId: 'o1', sendAt: '2030-01-07T14:00:00Z', timeZone: 'America/New_York', message });
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('added as pending', () => {
+    assert.equal(entry.status, 'pending');
+    assert.equal(outbox.list().length, 1);
+    assert.deepEqual(entry.message.attachments, []);
+  });
+
+  test('not due before sendAt', () => assert.equal(outbox.due(Date.parse('2030-01-07T13:59:00Z')).length, 0));
+
+  test('due after sendAt', () => assert.equal(outbox.due(Date.parse('2030-01-07T14:00:00Z'))[0]?.id, entry.id));
+
+  test('bad address rejected', () =>
+    rejectsWith(() => outbox.add({ outreachId: 'o1', sendAt: '2030-01-01T00:00:00Z', message: { ...message, to: 'li@' } }), 'EMAIL_ADDRESS'));
+
+  test('bad date rejected', () => rejectsWith(() => outbox.add({ outreachId: 'o1', sendAt: 'soon', message }), 'EMAIL_SCHEDULE'));
+
+  test('unknown time zone rejected', () =>
+    rejectsWith(() => outbox.add({ outreachId: 'o1', sendAt: '2030-01-01T00:00:00Z', timeZone: 'Mars/Base', message }), 'EMAIL_SCHEDULE'));
+
+  test('reschedule', () => assert.equal(outbox.update(entry.id, { sendAt: '2030-01-08T14:00:00Z' }).sendAt, '2030-01-08T14:00:00.000Z'));
+
+  test('edit keeps other fields', () => {
+    const next = outbox.update(entry.id, { message: { subject: 'Hello' } });
+    assert.equal(next.message.subject, 'Hello');
+    assert.equal(next.message.to, message.to);
+  });
+
+  test('sending is locked', () => {
+    outbox.markSending(entry.id);
+    rejectsWith(() => outbox.remove(entry.id), 'EMAIL_SCHEDULE_LOCKED');
+  });
+
+  test('interrupted send is not retried', () => {
+    const reopened = openOutbox(dir);
+    assert.equal(reopened.get(entry.id).status, 'failed');
+    assert.equal(reopened.due(Date.parse('2031-01-01T00:00:00Z')).length, 0);
+  });
+
+  test('record patch after sending', () => {
+    const sent = outbox.markSent(entry.id, { messageId: 'm1', threadId: 't1' });
+    const patch = sentRecordPatch({ stage: 'Drafting', firstContact: '', sentEmails: [] }, sent, '2030-01-08');
+    assert.equal(patch.stage, 'Sent');
+    assert.equal(patch.threadId, 't1');
+    assert.equal(patch.firstContact, '2030-01-08');
+    assert.equal(patch.sentEmails[0].messageId, 'm1');
+  });
+
+  test('record patch is applied once', () =>
+    assert.equal(sentRecordPatch({ sentEmails: [{ messageId: 'm1' }] }, outbox.get(entry.id), '2030-01-08'), null));
+
+  test('cancel pending', () => {
+    const other = outbox.add({ outreachId: 'o2', sendAt: '2030-01-01T00:00:00Z', message });
+    outbox.remove(other.id);
+    assert.ok(outbox.list().every(e => e.id !== other.id));
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import { projectFolderName } from '../src/lib/folders.js';
+
+// Every client-supplied path goes through resolveInside before it touches the disk:
+// the result is an absolute path that is guaranteed to stay under the workspace
+// root, both lexically ("../", absolute paths) and physically (symlinks).
+// Failures carry an HTTP status and a code, and are sent as { error, code }.
+
+// Top-level entries the server manages itself; the file routes never touch them.
+export const RESERVED_ENTRIES = ['data', 'backups', 'workspaces'];
+
+const MAX_NAME_LENGTH = 255;
+// Characters that are invalid in a file name on Windows, plus control characters.
+const INVALID_NAME_CHARS = /[<>:"|?*\u0000-\u001f\u007f]/;
+
+export function pathError(status, code, message) {
+  const error = new Error(message);
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+export function isPathError(error) {
+  return Boolean(error && typeof error.status === 'number' && typeof error.code === 'string' && error.code.startsWith('EPATH'));
+}
+
+// Sends a path error as a structured 4xx; returns false for anything else so the
+// route can fall through to its own 500 handling.
+export function sendPathError(res, error) {
+  if (!isPathError(error)) return false;
+  res.status(error.status).json({ error: error.message, code: error.code });
+  return true;
+}
+
+// A single path segment: a folder or file name.
+export function validateName(name) {
+  if (typeof name !== 'string' || !name.trim()) throw pathError(400, 'EPATH_NAME', 'Name is required');
+  if (name.length > MAX_NAME_LENGTH) throw pathError(400, 'EPATH_NAME', 'Name is too long');
+  if (name === '.' || name === '..') throw pathError(400, 'EPATH_NAME', `Invalid name: ${name}`);
+  if (/[\\/]/.test(name)) throw pathError(400, 'EPATH_NAME', 'Name must not contain path separators');
+  if (INVALID_NAME_CHARS.test(name)) throw pathError(400, 'EPATH_NAME', 'Name contains invalid characters');
+  if (name !== name.trim() || name.endsWith('.')) throw pathError(400, 'EPATH_NAME', 'Name must not start or end with spaces or end with a dot');
+  return name;
+}
+
+// The folder of a project, named as the app names it (see src/lib/folders.js). The
+// mapped name is validated rather than the user's text, which may hold any character.
+export function resolveProjectFolder(root, projectName) {
+  if (typeof projectName !== 'string' || !projectName.trim()) throw pathError(400, 'EPATH_NAME', 'Project name is required');
+  return resolveInside(root, validateName(projectFolderName(projectName)));
+}
+
+// realpath of the deepest part of p that exists, with the rest appended.
+function realpathNearest(p) {
+  const rest = [];
+  let current = p;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...rest);
+    } catch (e) {
+      if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') throw e;
+      const parent = path.dirname(current);
+      if (parent === current) return p;
+      rest.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isWithin(root, target) {
+  const rel = path.relative(root, target);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+// Resolves a client path ("Project/CV.pdf") against root. Both "/" and "\" count as
+// separators so a Windows-style "..\\" cannot slip through on either platform.
+// Absolute paths are accepted only when they already point inside root.
+export function resolveInside(root, relPath, { allowRoot = false, allowReserved = false } = {}) {
+  if (typeof relPath !== 'string' || !relPath.trim()) throw pathError(400, 'EPATH_INVALID', 'Path is required');
+  if (relPath.includes('\0')) throw pathError(400, 'EPATH_INVALID', 'Path contains a NUL byte');
+
+  const segments = relPath.split(/[\\/]+/).filter(Boolean);
+  if (segments.includes('..')) throw pathError(403, 'EPATH_OUTSIDE', 'Path escapes the storage root');
+  for (const segment of segments) {
+    if (segment !== '.' && INVALID_NAME_CHARS.test(segment) && !(path.isAbsolute(relPath) && /^[a-zA-Z]:$/.test(segment))) {
+      throw pathError(400, 'EPATH_INVALID', 'Path contains invalid characters');
+    }
+  }
+
+  const absRoot = path.resolve(root);
+  const target = path.isAbsolute(relPath) ? path.resolve(relPath) : path.resolve(absRoot, ...segments);
+  if (!isWithin(absRoot, target)) throw pathError(403, 'EPATH_OUTSIDE', 'Path escapes the storage root');
+  if (!isWithin(realpathNearest(absRoot), realpathNearest(target))) {
+    throw pathError(403, 'EPATH_OUTSIDE', 'Path escapes the storage root through a link');
+  }
+
+  const rel = path.relative(absRoot, target);
+  if (!rel && !allowRoot) throw pathError(400, 'EPATH_INVALID', 'Path must not be the storage root');
+  if (rel && !allowReserved && RESERVED_ENTRIES.includes(rel.split(path.sep)[0])) {
+    throw pathError(403, 'EPATH_RESERVED', `"${rel.split(path.sep)[0]}" is managed by the server`);
+  }
+  return target;
+}
+
+const OPENERS = {
+  darwin: 'open',
+  win32: 'explorer.exe',
+};
+
+// Opens a folder in the system file manager. The path is passed as an argument,
+// never through a shell, so quotes and metacharacters in it are inert.
+export function openInFileManager(target) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(OPENERS[process.platform] || 'xdg-open', [target], { stdio: 'ignore', detached: true, windowsHide: true });
+    child.once('error', reject);
+    child.once('spawn', () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,200 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { isPathError, resolveInside, resolveProjectFolder, validateName } from './paths.js';
+
+// Traversal and injection regressions, for resolveInside itself and for the routes
+// that take paths and names from the client.
+
+const rejectsWith = (fn, code) =>
+  assert.throws(fn, e => isPathError(e) && e.code === code);
+
+let base;
+let root;
+let outside;
+let symlinks = true;
+
+before(() => {
+  base = fs.mkdtempSync(path.join(os.tmpdir(), 'paths-test-'));
+  root = path.join(base, 'root');
+  outside = path.join(base, 'outside');
+  fs.mkdirSync(path.join(root, 'Project'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'Project', 'CV.pdf'), 'cv');
+  fs.mkdirSync(outside);
+  fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+  try {
+    fs.symlinkSync(outside, path.join(root, 'escape'), 'dir');
+    fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(root, 'Project', 'link.txt'));
+    fs.symlinkSync(path.join(root, 'Project'), path.join(root, 'alias'), 'dir');
+  } catch {
+    symlinks = false; // e.g. Windows without the symlink privilege
+  }
+});
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+describe('resolveInside', () => {
+  test('plain relative path', () => assert.equal(resolveInside(root, 'Project/CV.pdf'), path.join(root, 'Project', 'CV.pdf')));
+  test('unicode name', () => assert.equal(resolveInside(root, '暑研/简历.pdf'), path.join(root, '暑研', '简历.pdf')));
+  test('absolute path inside root', () => assert.equal(resolveInside(root, path.join(root, 'Project')), path.join(root, 'Project')));
+  test('root only when allowed', () => {
+    assert.equal(resolveInside(root, root, { allowRoot: true }), root);
+    rejectsWith(() => resolveInside(root, '.'), 'EPATH_INVALID');
+  });
+
+  test('dot-dot', () => rejectsWith(() => resolveInside(root, '../outside/secret.txt'), 'EPATH_OUTSIDE'));
+  test('nested dot-dot', () => rejectsWith(() => resolveInside(root, 'Project/../../outside'), 'EPATH_OUTSIDE'));
+  test('dot-dot that stays inside', () => rejectsWith(() => resolveInside(root, 'Project/../Project/CV.pdf'), 'EPATH_OUTSIDE'));
+  test('backslash dot-dot', () => rejectsWith(() => resolveInside(root, '..\\outside\\secret.txt'), 'EPATH_OUTSIDE'));
+  test('absolute path outside root', () => rejectsWith(() => resolveInside(root, '/etc/passwd'), 'EPATH_OUTSIDE'));
+  test('sibling with root as prefix', () => rejectsWith(() => resolveInside(root, `${root}-other/file`), 'EPATH_OUTSIDE'));
+  test('NUL byte', () => rejectsWith(() => resolveInside(root, 'Project/CV.pdf\0.png'), 'EPATH_INVALID'));
+  test('empty path', () => rejectsWith(() => resolveInside(root, ''), 'EPATH_INVALID'));
+  test('non-string path', () => rejectsWith(() => resolveInside(root, { length: 1 }), 'EPATH_INVALID'));
+  test('reserved data folder', () => rejectsWith(() => resolveInside(root, 'data/store.json'), 'EPATH_RESERVED'));
+  test('reserved backups folder', () => rejectsWith(() => resolveInside(root, './backups'), 'EPATH_RESERVED'));
+  test('trash is reachable for undo', () =>
+    assert.equal(resolveInside(root, '.trash/1-abc/Project'), path.join(root, '.trash', '1-abc', 'Project')));
+
+  test('symlinks', { skip: !symlinks && 'symlinks are not available' }, () => {
+    rejectsWith(() => resolveInside(root, 'escape/secret.txt'), 'EPATH_OUTSIDE');
+    rejectsWith(() => resolveInside(root, 'Project/link.txt'), 'EPATH_OUTSIDE');
+    rejectsWith(() => resolveInside(root, 'escape/new/file.txt'), 'EPATH_OUTSIDE');
+    assert.equal(resolveInside(root, 'alias/CV.pdf'), path.join(root, 'alias', 'CV.pdf'));
+  });
+});
+
+describe('validateName', () => {
+  test('valid name', () => assert.equal(validateName('Project 1 (MIT)'), 'Project 1 (MIT)'));
+  test('name with separator', () => {
+    rejectsWith(() => validateName('a/b'), 'EPATH_NAME');
+    rejectsWith(() => validateName('a\\b'), 'EPATH_NAME');
+  });
+  test('dot names', () => {
+    rejectsWith(() => validateName('..'), 'EPATH_NAME');
+    rejectsWith(() => validateName('.'), 'EPATH_NAME');
+  });
+  test('shell metacharacters in name', () => {
+    rejectsWith(() => validateName('x"; rm -rf ~; "'), 'EPATH_NAME');
+    rejectsWith(() => validateName('a|b'), 'EPATH_NAME');
+  });
+  test('control characters in name', () => rejectsWith(() => validateName('a\nb'), 'EPATH_NAME'));
+  test('overlong name', () => rejectsWith(() => validateName('x'.repeat(256)), 'EPATH_NAME'));
+});
+
+describe('resolveProjectFolder', () => {
+  test('keeps the folder names earlier versions made', () => {
+    assert.equal(resolveProjectFolder(root, 'A*STAR Research'), path.join(root, 'A_STAR Research'));
+    assert.equal(resolveProjectFolder(root, 'MIT: SURF'), path.join(root, 'MIT_ SURF'));
+    assert.equal(resolveProjectFolder(root, 'UCLA/CSST'), path.join(root, 'UCLA_CSST'));
+    assert.equal(resolveProjectFolder(root, 'U.C.L.A.'), path.join(root, 'U_C_L_A_'));
+  });
+  test('cannot escape', () => assert.equal(resolveProjectFolder(root, '../outside'), path.join(root, '___outside')));
+  test('project named after a reserved folder', () => assert.equal(resolveProjectFolder(root, 'Data'), path.join(root, '_Data')));
+  test('blank project name', () => rejectsWith(() => resolveProjectFolder(root, '  '), 'EPATH_NAME'));
+});
+
+// The routes, against a server running on a scratch config and storage folder.
+describe('file routes', () => {
+  const secret = 'test-secret';
+  let server;
+  let url;
+
+  const freePort = () =>
+    new Promise((resolve, reject) => {
+      const probe = net.createServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address();
+        probe.close(() => resolve(port));
+      });
+      probe.once('error', reject);
+    });
+
+  const post = async (route, body) => {
+    const res = await fetch(`${url}${route}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const outsideUntouched = () => assert.deepEqual(fs.readdirSync(outside), ['secret.txt']);
+
+  before(async () => {
+    const configDir = path.join(base, 'config');
+    fs.mkdirSync(configDir);
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ storageRoot: root }));
+    fs.writeFileSync(path.join(configDir, 'auth.json'), JSON.stringify({ secret }));
+    const port = await freePort();
+    url = `http://127.0.0.1:${port}`;
+    server = spawn(process.execPath, [fileURLToPath(new URL('./server.js', import.meta.url))], {
+      env: { ...process.env, CONFIG_DIR: configDir, PORT: String(port), HOST: '127.0.0.1' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    await new Promise((resolve, reject) => {
+      server.stdout.on('data', chunk => String(chunk).includes('Server running') && resolve());
+      server.once('exit', code => reject(new Error(`Server exited with ${code}`)));
+    });
+  });
+
+  after(() => server?.kill());
+
+  test('upload stays inside the project folder', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['cv']), 'cv.pdf');
+    form.append('projectName', '../../outside');
+    form.append('type', '../CV');
+    const res = await fetch(`${url}/upload`, { method: 'POST', headers: { Authorization: `Bearer ${secret}` }, body: form });
+    assert.equal(res.status, 200);
+    assert.match((await res.json()).link, /\/files\/______outside\/___CV\.pdf$/);
+    assert.ok(fs.existsSync(path.join(root, '______outside', '___CV.pdf')));
+    outsideUntouched();
+  });
+
+  test('open-folder rejects paths outside the storage root', async () => {
+    const res = await post('/open-folder', { path: '../outside' });
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'EPATH_OUTSIDE');
+    assert.equal((await post('/open-folder', { path: '/etc' })).body.code, 'EPATH_OUTSIDE');
+  });
+
+  test('open-folder maps a project name inside the workspace', async () => {
+    const res = await post('/open-folder', { projectName: '../outside' });
+    assert.equal(res.status, 404); // "___outside" does not exist; nothing is opened
+  });
+
+  test('rename-folder cannot move folders across the root', async () => {
+    const res = await post('/rename-folder', { oldName: 'Project', newName: '../outside/Project' });
+    assert.equal(res.status, 200);
+    assert.ok(fs.existsSync(path.join(root, '___outside_Project', 'CV.pdf')));
+    assert.equal((await post('/rename-folder', { oldName: '../outside', newName: 'stolen' })).status, 404);
+    assert.equal((await post('/rename-folder', { oldName: '___outside_Project', newName: 'Project' })).status, 200);
+    outsideUntouched();
+  });
+
+  test('move-file and delete-file reject traversal', async () => {
+    assert.equal((await post('/move-file', { oldPath: '../outside/secret.txt', newPath: 'Project/secret.txt' })).body.code, 'EPATH_OUTSIDE');
+    assert.equal((await post('/move-file', { oldPath: 'Project/CV.pdf', newPath: '../outside/CV.pdf' })).body.code, 'EPATH_OUTSIDE');
+    assert.equal((await post('/delete-file', { filePath: '../outside/secret.txt' })).body.code, 'EPATH_OUTSIDE');
+    assert.equal((await post('/delete-folder', { folderName: '..' })).status, 404);
+    outsideUntouched();
+  });
+
+  test('move-file rejects symlinks out of the root', { skip: !symlinks && 'symlinks are not available' }, async () => {
+    assert.equal((await post('/move-file', { oldPath: 'escape/secret.txt', newPath: 'Project/secret.txt' })).body.code, 'EPATH_OUTSIDE');
+    outsideUntouched();
+  });
+
+  test('file downloads need a token and stay inside the root', async () => {
+    assert.equal((await fetch(`${url}/files/Project/CV.pdf`)).status, 401);
+    const res = await fetch(`${url}/files/%2E%2E%2Foutside%2Fsecret.txt`, { headers: { Authorization: `Bearer ${secret}` } });
+    assert.equal(res.status, 403);
+    const { token } = await (await fetch(`${url}/auth/file-token`, { headers: { Authorization: `Bearer ${secret}` } })).json();
+    assert.equal(await (await fetch(`${url}/files/Project/CV.pdf?token=${token}`)).text(), 'cv');
+  });
+});
@@ -7,46 +7,349 @@ import { google } from 'googleapis';
 import { authenticate } from '@google-cloud/local-auth';
 import cron from 'node-cron';
 import { fileURLToPath } from 'url';
-import { exec } from 'child_process';
+import { openStore, COLLECTIONS } from './db.js';
+import { DEFAULT_RETENTION, normalizeRetention, listBackups, readBackup, pruneBackups, diffBackup } from './backups.js';
+import { DEFAULT_CALENDAR, normalizeCalendarConfig, buildCalendar } from './calendar.js';
+import { createCalendarSync } from './gcal.js';
+import { encryptJson } from './encryption.js';
+import { pathError, resolveInside, resolveProjectFolder, validateName, sendPathError, openInFileManager } from './paths.js';
+import { buildMimeMessage, isMailError, mailError, replyHeaders, replySubject } from './mime.js';
+import { openOutbox, sentRecordPatch } from './outbox.js';
+import { DEFAULT_ALLOWED_ORIGINS, normalizeOrigins, bearerToken, createAuth } from './auth.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-const CONFIG_PATH = path.join(__dirname, 'config.json');
+// Config, secrets and Google credentials live next to this file unless CONFIG_DIR
+// points elsewhere (the route tests run the server against a scratch folder).
+const CONFIG_DIR = process.env.CONFIG_DIR || __dirname;
+const CONFIG_PATH = path.join(CONFIG_DIR, 'config.json');
+const AUTH_PATH = path.join(CONFIG_DIR, 'auth.json');
+// Secrets kept out of config.json: readable by the server's user only.
+const SECRETS_PATH = path.join(CONFIG_DIR, 'secrets.json');
 
 // Load or initialize config
+// The default workspace lives directly in storageRoot, as everything did before
+// workspaces existed; later seasons get their own subfolder.
+const DEFAULT_WORKSPACE = { id: 'default', name: 'Default', folder: '', archived: false, createdAt: null };
+
 let appConfig = {
-  storageRoot: path.join(__dirname, 'uploads')
+  storageRoot: path.join(__dirname, 'uploads'),
+  backupRetention: { ...DEFAULT_RETENTION },
+  calendar: { ...DEFAULT_CALENDAR },
+  backupEncryption: { required: false, passphrase: '' }, // never sent back to the client
+  googleCalendarIds: {}, // workspace id -> id of its dedicated Google Calendar
+  allowedOrigins: [...DEFAULT_ALLOWED_ORIGINS], // where the frontend is served from
+  host: '127.0.0.1', // only this computer; "0.0.0.0" opens the server to the network
+  workspaces: [{ ...DEFAULT_WORKSPACE }],
+  activeWorkspace: DEFAULT_WORKSPACE.id
 };
 
+let passphraseInConfig = false;
 if (fs.existsSync(CONFIG_PATH)) {
   try {
     const savedConfig = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
     if (savedConfig.storageRoot) {
       appConfig.storageRoot = savedConfig.storageRoot;
     }
+    appConfig.backupRetention = normalizeRetention(savedConfig.backupRetention);
+    appConfig.calendar = normalizeCalendarConfig(savedConfig.calendar);
+    if (savedConfig.backupEncryption) {
+      // Older configs kept the passphrase here; it moves to secrets.json on the next save.
+      const passphrase = String(readSecrets().backupPassphrase || savedConfig.backupEncryption.passphrase || '');
+      appConfig.backupEncryption = {
+        required: Boolean(savedConfig.backupEncryption.required && passphrase),
+        passphrase,
+      };
+      passphraseInConfig = Boolean(savedConfig.backupEncryption.passphrase);
+    }
+    if (savedConfig.googleCalendarIds) appConfig.googleCalendarIds = savedConfig.googleCalendarIds;
+    appConfig.allowedOrigins = normalizeOrigins(savedConfig.allowedOrigins);
+    if (savedConfig.host) appConfig.host = String(savedConfig.host);
+    if (Array.isArray(savedConfig.workspaces) && savedConfig.workspaces.some(w => w.id === DEFAULT_WORKSPACE.id)) {
+      appConfig.workspaces = savedConfig.workspaces;
+    }
+    if (appConfig.workspaces.some(w => w.id === savedConfig.activeWorkspace)) {
+      appConfig.activeWorkspace = savedConfig.activeWorkspace;
+    }
   } catch (e) {
     console.error('Failed to load config:', e);
   }
 }
+if (passphraseInConfig) saveConfig();
+
+function readSecrets() {
+  try {
+    return fs.existsSync(SECRETS_PATH) ? JSON.parse(fs.readFileSync(SECRETS_PATH, 'utf-8')) : {};
+  } catch (e) {
+    console.error('Failed to read secrets:', e);
+    return {};
+  }
+}
+
+function saveConfig() {
+  const { passphrase, ...encryption } = appConfig.backupEncryption;
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify({ ...appConfig, backupEncryption: encryption }, null, 2));
+  fs.writeFileSync(SECRETS_PATH, JSON.stringify({ ...readSecrets(), backupPassphrase: passphrase }, null, 2), { mode: 0o600 });
+  fs.chmodSync(SECRETS_PATH, 0o600); // mode only applies when the file is created
+}
+
+// The config as the client sees it: the backup passphrase stays on the server.
+function publicConfig() {
+  const { passphrase, ...encryption } = appConfig.backupEncryption;
+  return { ...appConfig, backupEncryption: { ...encryption, hasPassphrase: Boolean(passphrase) } };
+}
+
+// Encrypted backups open with the passphrase sent by the client, else the configured one.
+function backupPassphrase(req) {
+  const header = req.get('X-Backup-Passphrase');
+  return header ? decodeURIComponent(header) : appConfig.backupEncryption.passphrase;
+}
+
+function findWorkspace(id) {
+  return appConfig.workspaces.find(w => w.id === id) || null;
+}
+
+function workspaceRoot(workspace) {
+  return workspace.folder ? path.join(appConfig.storageRoot, workspace.folder) : appConfig.storageRoot;
+}
 
 const app = express();
-const PORT = 3001;
+const PORT = Number(process.env.PORT) || 3001;
+const HOST = process.env.HOST || appConfig.host;
+
+const auth = createAuth(AUTH_PATH);
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// Browsers attach Origin to cross-site requests, so another website open in the
+// browser is turned away here even for requests CORS alone would let through.
+app.use((req, res, next) => {
+  const origin = req.get('Origin');
+  if (origin && !appConfig.allowedOrigins.includes(origin)) {
+    return res.status(403).json({ error: `Origin not allowed: ${origin}`, code: 'EORIGIN' });
+  }
+  next();
+});
+app.use(cors({ origin: (origin, cb) => cb(null, Boolean(origin) && appConfig.allowedOrigins.includes(origin)) }));
+app.use(express.json({ limit: '10mb' }));
+
+// Everything needs the paired token except the health check and pairing itself. File
+// links (opened in a new tab, so no header) take a file token as ?token=, and the
+// calendar feed takes the feed token the same way.
+const PUBLIC_ROUTES = ['GET /health', 'GET /auth/status', 'POST /auth/pairing-code', 'POST /auth/pair'];
+
+app.use((req, res, next) => {
+  if (req.method === 'OPTIONS' || PUBLIC_ROUTES.includes(`${req.method} ${req.path}`)) return next();
+  if (req.method === 'GET' && req.path.startsWith('/files/') && auth.isFileToken(req.query.token)) return next();
+  if (req.method === 'GET' && req.path === '/calendar.ics' && auth.isFeedToken(req.query.token)) return next();
+  if (auth.isAuthorized(bearerToken(req))) return next();
+  res.status(401).json({ error: 'This browser is not paired with the server', code: 'EAUTH' });
+});
+
+app.get('/auth/status', (req, res) => {
+  res.json({ authenticated: auth.isAuthorized(bearerToken(req)) });
+});
+
+app.post('/auth/pairing-code', (req, res) => {
+  auth.startPairing();
+  res.json({ success: true });
+});
+
+app.post('/auth/pair', (req, res) => {
+  try {
+    res.json({ token: auth.pair(req.body?.code) });
+  } catch (e) {
+    res.status(e.status || 500).json({ error: e.message });
+  }
+});
+
+app.get('/auth/feed-token', (req, res) => {
+  res.json({ token: auth.feedToken });
+});
+
+app.get('/auth/file-token', (req, res) => {
+  res.json(auth.fileToken());
+});
+
+// Requests act on the active workspace unless they name one (the client's store
+// sync does, so a late write from a tab that just switched lands in the right place;
+// calendar subscriptions use ?workspace= since they cannot send headers).
+app.use((req, res, next) => {
+  const id = req.get('X-Workspace') || req.query.workspace || appConfig.activeWorkspace;
+  req.workspace = findWorkspace(id);
+  if (!req.workspace) return res.status(404).json({ error: `Unknown workspace: ${id}` });
+  next();
+});
+
+const requireWritable = (req, res, next) => {
+  if (req.workspace.archived) {
+    return res.status(423).json({ error: `Workspace "${req.workspace.name}" is archived and read-only` });
+  }
+  next();
+};
 
 // Config Endpoints
 app.get('/config', (req, res) => {
-  res.json(appConfig);
+  res.json({ ...publicConfig(), workspaceRoot: workspaceRoot(req.workspace) });
+});
+
+// Workspaces (one per application season)
+app.get('/workspaces', (req, res) => {
+  res.json({ active: appConfig.activeWorkspace, workspaces: appConfig.workspaces });
+});
+
+app.post('/workspaces', (req, res) => {
+  const name = String(req.body?.name || '').trim();
+  if (!name) return res.status(400).json({ error: 'Missing name' });
+  if (appConfig.workspaces.some(w => w.name.toLowerCase() === name.toLowerCase())) {
+    return res.status(409).json({ error: 'A workspace with this name already exists' });
+  }
+
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+  let id = base;
+  for (let i = 2; findWorkspace(id); i++) id = `${base}-${i}`;
+
+  const workspace = { id, name, folder: path.join('workspaces', id), archived: false, createdAt: new Date().toISOString() };
+  try {
+    fs.mkdirSync(workspaceRoot(workspace), { recursive: true });
+    appConfig.workspaces.push(workspace);
+    saveConfig();
+    res.status(201).json(workspace);
+  } catch (e) {
+    console.error('Error creating workspace:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.post('/workspaces/:id/activate', (req, res) => {
+  const workspace = findWorkspace(req.params.id);
+  if (!workspace) return res.status(404).json({ error: 'Workspace not found' });
+  appConfig.activeWorkspace = workspace.id;
+  saveConfig();
+  res.json(workspace);
+});
+
+app.post('/workspaces/:id/archive', (req, res) => {
+  const workspace = findWorkspace(req.params.id);
+  if (!workspace) return res.status(404).json({ error: 'Workspace not found' });
+  workspace.archived = req.body?.archived !== false;
+  saveConfig();
+  res.json(workspace);
+});
+
+// Persistent store (lives under <workspace root>/data, follows storageRoot changes)
+const dbs = new Map();
+function getDb(workspace) {
+  const dataDir = path.join(workspaceRoot(workspace), 'data');
+  if (!dbs.has(dataDir)) {
+    dbs.set(dataDir, openStore(dataDir));
+  }
+  return dbs.get(dataDir);
+}
+
+const requireCollection = (req, res, next) => {
+  if (!COLLECTIONS.includes(req.params.collection)) {
+    return res.status(404).json({ error: `Unknown collection: ${req.params.collection}` });
+  }
+  next();
+};
+
+app.get('/store', (req, res) => {
+  try {
+    const store = getDb(req.workspace);
+    if (!store.isInitialized()) return res.status(404).json({ error: 'Store not initialized' });
+    res.json(store.snapshot());
+  } catch (e) {
+    console.error('Error reading store:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Replace everything at once (first sync, import, reset)
+app.put('/store', requireWritable, (req, res) => {
+  const data = req.body;
+  if (!data || !COLLECTIONS.every(c => Array.isArray(data[c]))) {
+    return res.status(400).json({ error: 'Invalid store shape' });
+  }
+  try {
+    res.json(getDb(req.workspace).replace(data));
+  } catch (e) {
+    console.error('Error replacing store:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.get('/store/:collection', requireCollection, (req, res) => {
+  res.json(getDb(req.workspace).list(req.params.collection));
+});
+
+app.get('/store/:collection/:id/history', requireCollection, (req, res) => {
+  try {
+    res.json(getDb(req.workspace).history(req.params.collection, req.params.id));
+  } catch (e) {
+    console.error('Error reading record history:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.get('/store/:collection/:id', requireCollection, (req, res) => {
+  const record = getDb(req.workspace).get(req.params.collection, req.params.id);
+  if (!record) return res.status(404).json({ error: 'Record not found' });
+  res.json(record);
+});
+
+app.post('/store/:collection', requireCollection, requireWritable, (req, res) => {
+  const record = req.body;
+  if (!record || typeof record.id !== 'string' || !record.id) {
+    return res.status(400).json({ error: 'Record must have an id' });
+  }
+  const store = getDb(req.workspace);
+  if (store.get(req.params.collection, record.id)) {
+    return res.status(409).json({ error: 'Record already exists' });
+  }
+  try {
+    res.status(201).json(store.insert(req.params.collection, record));
+  } catch (e) {
+    console.error('Error inserting record:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.patch('/store/:collection/:id', requireCollection, requireWritable, (req, res) => {
+  const store = getDb(req.workspace);
+  if (!store.get(req.params.collection, req.params.id)) {
+    return res.status(404).json({ error: 'Record not found' });
+  }
+  try {
+    res.json(store.update(req.params.collection, req.params.id, req.body || {}));
+  } catch (e) {
+    console.error('Error updating record:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.delete('/store/:collection/:id', requireCollection, requireWritable, (req, res) => {
+  const store = getDb(req.workspace);
+  if (!store.get(req.params.collection, req.params.id)) {
+    return res.status(404).json({ error: 'Record not found' });
+  }
+  try {
+    store.remove(req.params.collection, req.params.id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting record:', e);
+    res.status(500).json({ error: e.message });
+  }
 });
 
+// Backs up the server's own copy of the store once it has one, so a stale tab
+// cannot replace newer data in the backup; the posted data is only a fallback.
 app.post('/save-backup', (req, res) => {
-  const { data } = req.body;
+  const store = getDb(req.workspace);
+  const data = store.isInitialized() ? store.snapshot() : req.body.data;
   if (!data) return res.status(400).json({ error: 'No data provided' });
 
   try {
-    const backupDir = path.join(appConfig.storageRoot, 'backups');
+    const backupDir = path.join(workspaceRoot(req.workspace), 'backups');
     if (!fs.existsSync(backupDir)) {
       fs.mkdirSync(backupDir, { recursive: true });
     }
@@ -55,86 +358,138 @@ app.post('/save-backup', (req, res) => {
     const filename = `backup-${timestamp}.json`;
     const filePath = path.join(backupDir, filename);
 
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-    
-    // Keep only last 10 backups
-    const files = fs.readdirSync(backupDir)
-      .filter(f => f.startsWith('backup-') && f.endsWith('.json'))
-      .sort()
-      .reverse();
-      
-    if (files.length > 10) {
-      files.slice(10).forEach(f => {
-        fs.unlinkSync(path.join(backupDir, f));
-      });
-    }
+    const { required, passphrase } = appConfig.backupEncryption;
+    fs.writeFileSync(filePath, JSON.stringify(required ? encryptJson(data, passphrase) : data, null, 2));
+    const pruned = pruneBackups(backupDir, appConfig.backupRetention);
 
-    res.json({ success: true, filename });
+    res.json({ success: true, filename, pruned });
   } catch (e) {
     console.error('Backup failed:', e);
     res.status(500).json({ error: e.message });
   }
 });
 
-app.post('/config', (req, res) => {
-  const { storageRoot } = req.body;
-  if (storageRoot) {
-    appConfig.storageRoot = storageRoot;
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(appConfig, null, 2));
-    res.json({ success: true, config: appConfig });
-  } else {
-    res.status(400).json({ error: 'Missing storageRoot' });
+// Live iCalendar feed; ?alarms=1440,60 overrides the configured alarms per subscription.
+app.get('/calendar.ics', (req, res) => {
+  try {
+    const store = getDb(req.workspace);
+    if (!store.isInitialized()) return res.status(404).json({ error: 'Store not initialized' });
+    const alarmMinutes = req.query.alarms !== undefined
+      ? normalizeCalendarConfig({ alarmMinutes: String(req.query.alarms).split(',').filter(Boolean) }).alarmMinutes
+      : appConfig.calendar.alarmMinutes;
+    const name = req.workspace.id === DEFAULT_WORKSPACE.id ? 'Summer Research Tracker' : `Summer Research Tracker · ${req.workspace.name}`;
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="summer-research-tracker.ics"');
+    res.send(buildCalendar(store.snapshot(), { name, alarmMinutes }));
+  } catch (e) {
+    console.error('Error building calendar:', e);
+    res.status(500).json({ error: e.message });
   }
 });
 
-app.post('/open-folder', (req, res) => {
-  const { path: folderPath } = req.body;
-  const target = folderPath || appConfig.storageRoot;
-  
-  let command;
-  switch (process.platform) {
-    case 'darwin': command = `open "${target}"`; break;
-    case 'win32': command = `start "" "${target}"`; break;
-    default: command = `xdg-open "${target}"`; break;
+app.get('/backups', (req, res) => {
+  try {
+    res.json(listBackups(path.join(workspaceRoot(req.workspace), 'backups'), backupPassphrase(req)));
+  } catch (e) {
+    console.error('Error listing backups:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.get('/backups/:name', (req, res) => {
+  try {
+    const data = readBackup(path.join(workspaceRoot(req.workspace), 'backups'), req.params.name, backupPassphrase(req));
+    if (!data) return res.status(404).json({ error: 'Backup not found' });
+    res.json(data);
+  } catch (e) {
+    if (e.code === 'EDECRYPT') return res.status(401).json({ error: e.message, encrypted: true });
+    console.error('Error reading backup:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// What restoring this backup would do to the current store
+app.get('/backups/:name/diff', (req, res) => {
+  try {
+    const data = readBackup(path.join(workspaceRoot(req.workspace), 'backups'), req.params.name, backupPassphrase(req));
+    if (!data) return res.status(404).json({ error: 'Backup not found' });
+    res.json(diffBackup(data, getDb(req.workspace).snapshot()));
+  } catch (e) {
+    if (e.code === 'EDECRYPT') return res.status(401).json({ error: e.message, encrypted: true });
+    console.error('Error diffing backup:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.post('/config', (req, res) => {
+  const { storageRoot, backupRetention, calendar, backupEncryption } = req.body;
+  if (!storageRoot && !backupRetention && !calendar && !backupEncryption) {
+    return res.status(400).json({ error: 'Missing storageRoot' });
+  }
+  if (backupEncryption) {
+    // An omitted passphrase keeps the current one; an empty string clears it.
+    const passphrase = backupEncryption.passphrase === undefined
+      ? appConfig.backupEncryption.passphrase
+      : String(backupEncryption.passphrase);
+    if (backupEncryption.required && !passphrase) {
+      return res.status(400).json({ error: 'Encrypted backups need a passphrase' });
+    }
+    appConfig.backupEncryption = { required: Boolean(backupEncryption.required), passphrase };
   }
+  if (storageRoot) appConfig.storageRoot = storageRoot;
+  if (backupRetention) appConfig.backupRetention = normalizeRetention(backupRetention);
+  if (calendar) appConfig.calendar = normalizeCalendarConfig(calendar);
+  saveConfig();
+  res.json({ success: true, config: publicConfig() });
+});
 
-  exec(command, (error) => {
-    if (error) {
-      console.error('Error opening folder:', error);
-      return res.status(500).json({ error: 'Failed to open folder' });
+// Only folders inside the storage root can be opened: a path, a project's folder in
+// the workspace, or the workspace folder itself.
+app.post('/open-folder', async (req, res) => {
+  const { path: folderPath, projectName } = req.body;
+  try {
+    let target = workspaceRoot(req.workspace);
+    if (folderPath) target = resolveInside(appConfig.storageRoot, folderPath, { allowRoot: true, allowReserved: true });
+    else if (projectName) target = resolveProjectFolder(target, projectName);
+    if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+      return res.status(404).json({ error: 'Folder not found', code: 'ENOENT' });
     }
+    await openInFileManager(target);
     res.json({ success: true });
-  });
+  } catch (error) {
+    if (sendPathError(res, error)) return;
+    console.error('Error opening folder:', error);
+    res.status(500).json({ error: 'Failed to open folder' });
+  }
 });
 
-app.post('/create-project-folder', (req, res) => {
+app.post('/create-project-folder', requireWritable, (req, res) => {
   const { projectName } = req.body;
   if (!projectName) {
     return res.status(400).json({ error: 'Missing projectName' });
   }
-  
-  const sanitize = (str) => str.replace(/[^a-zA-Z0-9_\-\u4e00-\u9fa5\s]/g, '_');
-  const targetDir = path.join(appConfig.storageRoot, sanitize(projectName));
-  
+
   try {
+    const targetDir = resolveProjectFolder(workspaceRoot(req.workspace), projectName);
     if (!fs.existsSync(targetDir)) {
       fs.mkdirSync(targetDir, { recursive: true });
     }
     res.json({ success: true, path: targetDir });
   } catch (error) {
+    if (sendPathError(res, error)) return;
     console.error('Error creating project folder:', error);
     res.status(500).json({ error: 'Failed to create folder' });
   }
 });
 
-app.post('/move-file', (req, res) => {
+app.post('/move-file', requireWritable, (req, res) => {
   const { oldPath, newPath } = req.body;
   if (!oldPath || !newPath) return res.status(400).json({ error: 'Missing paths' });
 
-  const absOld = path.join(appConfig.storageRoot, oldPath);
-  const absNew = path.join(appConfig.storageRoot, newPath);
-
   try {
+    const absOld = resolveInside(workspaceRoot(req.workspace), oldPath);
+    const absNew = resolveInside(workspaceRoot(req.workspace), newPath);
+    validateName(path.basename(absNew));
     if (fs.existsSync(absOld)) {
       const newDir = path.dirname(absNew);
       if (!fs.existsSync(newDir)) fs.mkdirSync(newDir, { recursive: true });
@@ -144,56 +499,87 @@ app.post('/move-file', (req, res) => {
       res.status(404).json({ error: 'File not found' });
     }
   } catch (e) {
+    if (sendPathError(res, e)) return;
     console.error('Error moving file:', e);
     res.status(500).json({ error: e.message });
   }
 });
 
-app.post('/rename-folder', (req, res) => {
+app.post('/rename-folder', requireWritable, (req, res) => {
   const { oldName, newName } = req.body;
-  const absOld = path.join(appConfig.storageRoot, oldName);
-  const absNew = path.join(appConfig.storageRoot, newName);
 
   try {
+    const absOld = resolveProjectFolder(workspaceRoot(req.workspace), oldName);
+    const absNew = resolveProjectFolder(workspaceRoot(req.workspace), newName);
+    // Names that differ only in characters a folder cannot hold share a folder.
+    if (absOld === absNew) return res.json({ success: true });
     if (fs.existsSync(absOld)) {
+      if (fs.existsSync(absNew)) return res.status(409).json({ error: 'A folder with that name already exists', code: 'EEXIST' });
       fs.renameSync(absOld, absNew);
       res.json({ success: true });
     } else {
       res.status(404).json({ error: 'Folder not found' });
     }
   } catch (e) {
+    if (sendPathError(res, e)) return;
     console.error('Error renaming folder:', e);
     res.status(500).json({ error: e.message });
   }
 });
 
-app.post('/delete-file', (req, res) => {
+// Deleted files and folders go to <workspace root>/.trash so an undo in the
+// client can move them back with /move-file; the trash is emptied after a week.
+const TRASH_DIR = '.trash';
+const TRASH_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function moveToTrash(root, relPath) {
+  const trashRoot = path.join(root, TRASH_DIR);
+  if (fs.existsSync(trashRoot)) {
+    for (const entry of fs.readdirSync(trashRoot)) {
+      const entryPath = path.join(trashRoot, entry);
+      if (Date.now() - fs.statSync(entryPath).mtimeMs > TRASH_MAX_AGE_MS) {
+        fs.rmSync(entryPath, { recursive: true, force: true });
+      }
+    }
+  }
+  const trashPath = path.join(TRASH_DIR, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, relPath);
+  const absTrash = path.join(root, trashPath);
+  fs.mkdirSync(path.dirname(absTrash), { recursive: true });
+  fs.renameSync(path.join(root, relPath), absTrash);
+  return trashPath.split(path.sep).join('/');
+}
+
+app.post('/delete-file', requireWritable, (req, res) => {
   const { filePath } = req.body;
-  const absPath = path.join(appConfig.storageRoot, filePath);
   try {
+    const root = workspaceRoot(req.workspace);
+    const absPath = resolveInside(root, filePath);
     if (fs.existsSync(absPath)) {
-      fs.unlinkSync(absPath);
-      res.json({ success: true });
+      const trashPath = moveToTrash(root, path.relative(root, absPath));
+      res.json({ success: true, trashPath });
     } else {
       res.status(404).json({ error: 'File not found' });
     }
   } catch (e) {
+    if (sendPathError(res, e)) return;
     console.error('Error deleting file:', e);
     res.status(500).json({ error: e.message });
   }
 });
 
-app.post('/delete-folder', (req, res) => {
+app.post('/delete-folder', requireWritable, (req, res) => {
   const { folderName } = req.body;
-  const absPath = path.join(appConfig.storageRoot, folderName);
   try {
+    const root = workspaceRoot(req.workspace);
+    const absPath = resolveProjectFolder(root, folderName);
     if (fs.existsSync(absPath)) {
-      fs.rmSync(absPath, { recursive: true, force: true });
-      res.json({ success: true });
+      const trashPath = moveToTrash(root, path.relative(root, absPath));
+      res.json({ success: true, trashPath });
     } else {
       res.status(404).json({ error: 'Folder not found' });
     }
   } catch (e) {
+    if (sendPathError(res, e)) return;
     console.error('Error deleting folder:', e);
     res.status(500).json({ error: e.message });
   }
@@ -201,10 +587,15 @@ app.post('/delete-folder', (req, res) => {
 
 // Serve files dynamically
 app.get(/^\/files\/(.*)/, (req, res) => {
-  const filePath = req.params[0];
-  const fullPath = path.join(appConfig.storageRoot, filePath);
-  
-  if (fs.existsSync(fullPath)) {
+  let fullPath;
+  try {
+    fullPath = resolveInside(workspaceRoot(req.workspace), req.params[0]);
+  } catch (e) {
+    if (sendPathError(res, e)) return;
+    throw e;
+  }
+
+  if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
     res.sendFile(fullPath);
   } else {
     res.status(404).send('File not found');
@@ -214,13 +605,15 @@ app.get(/^\/files\/(.*)/, (req, res) => {
 // Multer setup for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    if (!fs.existsSync(appConfig.storageRoot)) {
-      fs.mkdirSync(appConfig.storageRoot, { recursive: true });
+    const root = workspaceRoot(req.workspace);
+    if (!fs.existsSync(root)) {
+      fs.mkdirSync(root, { recursive: true });
     }
-    cb(null, appConfig.storageRoot);
+    cb(null, root);
   },
+  // The client's file name is only used for its extension, never as a path.
   filename: (req, file, cb) => {
-    cb(null, `temp_${Date.now()}_${file.originalname}`);
+    cb(null, `temp_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`);
   }
 });
 const upload = multer({ storage });
@@ -229,10 +622,11 @@ const upload = multer({ storage });
 const SCOPES = [
   'https://www.googleapis.com/auth/gmail.send',
   'https://www.googleapis.com/auth/gmail.readonly',
-  'https://www.googleapis.com/auth/drive.file'
+  'https://www.googleapis.com/auth/drive.file',
+  'https://www.googleapis.com/auth/calendar'
 ];
-const CREDENTIALS_PATH = path.join(__dirname, 'credentials.json');
-const TOKEN_PATH = path.join(__dirname, 'token.json');
+const CREDENTIALS_PATH = path.join(CONFIG_DIR, 'credentials.json');
+const TOKEN_PATH = path.join(CONFIG_DIR, 'token.json');
 
 async function getAuthClient() {
   let auth;
@@ -256,77 +650,175 @@ async function getAuthClient() {
   return auth;
 }
 
+const VERSION = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version;
+const LOW_DISK_BYTES = 200 * 1024 * 1024;
+
+async function storageHealth(root) {
+  const health = { reachable: false, writable: false, freeBytes: null, totalBytes: null, lowDisk: false, error: null };
+  try {
+    if (!(await fs.promises.stat(root)).isDirectory()) throw Object.assign(new Error('Not a directory'), { code: 'ENOTDIR' });
+    health.reachable = true;
+    await fs.promises.access(root, fs.constants.W_OK);
+    health.writable = true;
+    const stats = await fs.promises.statfs(root);
+    health.freeBytes = stats.bavail * stats.bsize;
+    health.totalBytes = stats.blocks * stats.bsize;
+    health.lowDisk = health.freeBytes < LOW_DISK_BYTES;
+  } catch (error) {
+    health.error = error.code || error.message;
+  }
+  return health;
+}
+
+// Polled by the app to show whether the server, its storage folder and Google are
+// usable. Public, so it carries no paths or account details.
+app.get('/health', async (req, res) => {
+  res.json({
+    version: VERSION,
+    uptime: Math.round(process.uptime()),
+    storage: await storageHealth(appConfig.storageRoot),
+    google: { configured: fs.existsSync(CREDENTIALS_PATH), signedIn: fs.existsSync(TOKEN_PATH) },
+  });
+});
+
 // Routes
-app.post('/upload', upload.single('file'), (req, res) => {
+app.post('/upload', requireWritable, upload.single('file'), (req, res) => {
   if (!req.file) {
     return res.status(400).send('No file uploaded');
   }
 
   const { projectId, projectName, type } = req.body;
-  
-  // Use projectName if available, otherwise fallback to projectId or 'General'
-  const safeProjectName = (projectName && projectName !== 'undefined' && projectName !== 'null') 
-    ? projectName 
-    : ((projectId && projectId !== 'undefined' && projectId !== 'null') ? projectId : 'General');
+  const given = (value) => (value && value !== 'undefined' && value !== 'null' ? value : null);
 
-  // Sanitize paths to prevent directory traversal
-  const sanitize = (str) => str.replace(/[^a-zA-Z0-9_\-\u4e00-\u9fa5\s]/g, '_');
-  
-  // Create directory structure: storageRoot/ProjectName/
-  const targetDir = path.join(appConfig.storageRoot, sanitize(safeProjectName));
-  
-  if (!fs.existsSync(targetDir)) {
-    fs.mkdirSync(targetDir, { recursive: true });
-  }
+  // Use projectName if available, otherwise fallback to projectId or 'General'
+  const project = given(projectName) || given(projectId) || 'General';
 
-  const oldPath = req.file.path;
   // Rename based on type
-  const ext = path.extname(req.file.originalname);
-  const safeType = (type && type !== 'undefined' && type !== 'null') ? type : 'File';
-  const newFilename = `${sanitize(safeType)}${ext}`;
-  const newPath = path.join(targetDir, newFilename);
+  const sanitize = (str) => str.replace(/[^a-zA-Z0-9_\-\u4e00-\u9fa5\s]/g, '_');
+  const ext = path.extname(req.file.originalname).replace(/[^a-zA-Z0-9.]/g, '').replace(/^\.$/, '');
+  const newFilename = `${sanitize(given(type) || 'File')}${ext}`;
 
   try {
+    // <workspace root>/ProjectName/Type.ext, held to the same rules as the other file routes
+    const folder = resolveProjectFolder(workspaceRoot(req.workspace), project);
+    const newPath = resolveInside(workspaceRoot(req.workspace), path.join(path.basename(folder), validateName(newFilename)));
+    fs.mkdirSync(path.dirname(newPath), { recursive: true });
     // If file exists, overwrite it (or handle collision if needed)
     if (fs.existsSync(newPath)) {
       fs.unlinkSync(newPath);
     }
-    fs.renameSync(oldPath, newPath);
-    
-    // Construct URL
-    // Use encodeURIComponent for path segments
-    const urlPath = `/files/${encodeURIComponent(sanitize(safeProjectName))}/${encodeURIComponent(newFilename)}`;
-    res.json({ link: `http://localhost:${PORT}${urlPath}` });
+    fs.renameSync(req.file.path, newPath);
+
+    // Construct URL on the host and port the client used
+    const urlPath = `/files/${encodeURIComponent(path.basename(folder))}/${encodeURIComponent(newFilename)}`;
+    res.json({ link: `${req.protocol}://${req.get('host')}${urlPath}` });
   } catch (err) {
+    fs.rmSync(req.file.path, { force: true });
+    if (sendPathError(res, err)) return;
     console.error('Error moving file:', err);
     res.status(500).send('Error saving file');
   }
 });
 
-// Send email
+// Sends one email. Attachments are material files given as paths relative to the
+// workspace folder; with a threadId the message replies to the last message of
+// that Gmail thread, so follow-ups stay in one conversation. Google is asked for
+// credentials only once the attachments are known to exist.
+async function sendMail(workspace, { to, cc, bcc, subject, body, html, attachments, threadId }, authClient) {
+  const files = (Array.isArray(attachments) ? attachments : []).map(rel => {
+    const file = resolveInside(workspaceRoot(workspace), rel);
+    if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+      throw pathError(404, 'EPATH_NOT_FOUND', `Attachment not found: ${rel}`);
+    }
+    return { filename: path.basename(file), content: fs.readFileSync(file) };
+  });
+
+  const gmail = google.gmail({ version: 'v1', auth: await authClient() });
+
+  let reply = {};
+  if (threadId) {
+    const thread = await gmail.users.threads.get({
+      userId: 'me',
+      id: threadId,
+      format: 'metadata',
+      metadataHeaders: ['Message-ID', 'References', 'Subject'],
+    });
+    const messages = thread.data.messages || [];
+    reply = replyHeaders(messages[messages.length - 1]?.payload?.headers || []);
+  }
+
+  const message = buildMimeMessage({
+    to,
+    cc,
+    bcc,
+    subject: subject || (reply.subject ? replySubject(reply.subject) : ''),
+    text: body,
+    html,
+    attachments: files,
+    inReplyTo: reply.inReplyTo,
+    references: reply.references,
+  });
+
+  // Uploaded as a file rather than inline base64, which has a much lower size limit.
+  const result = await gmail.users.messages.send({
+    userId: 'me',
+    requestBody: threadId ? { threadId } : {},
+    media: { mimeType: 'message/rfc822', body: message },
+  });
+  return { messageId: result.data.id, threadId: result.data.threadId };
+}
+
+function sendMailError(res, error) {
+  if (sendPathError(res, error)) return;
+  if (isMailError(error)) return res.status(error.status).json({ error: error.message, code: error.code });
+  res.status(500).json({ error: error.message });
+}
+
 app.post('/send-email', async (req, res) => {
-  const { to, subject, body } = req.body;
   try {
-    const auth = await getAuthClient();
-    const gmail = google.gmail({ version: 'v1', auth });
+    const result = await sendMail(req.workspace, req.body || {}, getAuthClient);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendMailError(res, error);
+  }
+});
 
-    const message = [
-      `To: ${to}`,
-      'Subject: ' + subject,
-      '',
-      body
-    ].join('\n');
+// Scheduled emails. The queue is per workspace; the scheduler below sends what is due.
+const outboxes = new Map();
+function getOutbox(workspace) {
+  const dataDir = path.join(workspaceRoot(workspace), 'data');
+  if (!outboxes.has(dataDir)) {
+    outboxes.set(dataDir, openOutbox(dataDir));
+  }
+  return outboxes.get(dataDir);
+}
 
-    const encodedMessage = Buffer.from(message).toString('base64').replace(/\+/g, '-').replace(/\//g, '_');
+app.get('/outbox', (req, res) => {
+  res.json(getOutbox(req.workspace).list());
+});
 
-    const result = await gmail.users.messages.send({
-      userId: 'me',
-      resource: { raw: encodedMessage }
-    });
+app.post('/outbox', requireWritable, (req, res) => {
+  try {
+    res.status(201).json(getOutbox(req.workspace).add(req.body || {}));
+  } catch (error) {
+    sendMailError(res, error);
+  }
+});
 
-    res.json({ success: true, messageId: result.data.id, threadId: result.data.threadId });
+app.patch('/outbox/:id', requireWritable, (req, res) => {
+  try {
+    res.json(getOutbox(req.workspace).update(req.params.id, req.body || {}));
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    sendMailError(res, error);
+  }
+});
+
+app.delete('/outbox/:id', requireWritable, (req, res) => {
+  try {
+    getOutbox(req.workspace).remove(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendMailError(res, error);
   }
 });
 
@@ -400,6 +892,97 @@ app.post('/upload-drive', upload.single('file'), async (req, res) => {
   }
 });
 
+// Two-way Google Calendar sync for the workspace's deadlines, interviews and meetings.
+// Event ids land on the records (calendarLinks) and dates moved in Calendar are pulled back.
+app.post('/google-calendar/sync', requireWritable, async (req, res) => {
+  const store = getDb(req.workspace);
+  if (!store.isInitialized()) return res.status(404).json({ error: 'Store not initialized' });
+  try {
+    const auth = await getAuthClient();
+    const calendarName = req.workspace.id === DEFAULT_WORKSPACE.id
+      ? 'Summer Research Tracker'
+      : `Summer Research Tracker · ${req.workspace.name}`;
+    const gcal = createCalendarSync(google.calendar({ version: 'v3', auth }), { calendarName });
+
+    const calendarId = await gcal.ensureCalendar(appConfig.googleCalendarIds[req.workspace.id]);
+    if (appConfig.googleCalendarIds[req.workspace.id] !== calendarId) {
+      appConfig.googleCalendarIds[req.workspace.id] = calendarId;
+      saveConfig();
+    }
+
+    const { patches, summary } = await gcal.sync(store.snapshot(), calendarId);
+    for (const { collection, id, patch } of patches) {
+      if (store.get(collection, id)) store.update(collection, id, patch);
+    }
+    res.json({ calendarId, patches, summary });
+  } catch (error) {
+    console.error('Google Calendar sync failed:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The scheduler cannot answer Google's consent screen, so it sends only with the
+// token saved by an earlier interactive sign-in, refreshing it as needed.
+function savedAuthClient() {
+  if (!fs.existsSync(TOKEN_PATH) || !fs.existsSync(CREDENTIALS_PATH)) {
+    throw mailError(503, 'EMAIL_NOT_SIGNED_IN', 'Not signed in to Google. Send one email from the app first, then reschedule.');
+  }
+  const keys = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, 'utf-8'));
+  const { client_id, client_secret } = keys.installed || keys.web || {};
+  const client = new google.auth.OAuth2(client_id, client_secret);
+  client.setCredentials(JSON.parse(fs.readFileSync(TOKEN_PATH, 'utf-8')));
+  client.on('tokens', tokens => {
+    fs.writeFileSync(TOKEN_PATH, JSON.stringify({ ...client.credentials, ...tokens }));
+  });
+  return client;
+}
+
+function localDate() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Sends every due email, one at a time, and records it on its outreach record
+// the way the app does. A failure is kept on the entry for the app's queue view.
+let dispatching = false;
+async function dispatchOutbox() {
+  if (dispatching) return;
+  dispatching = true;
+  try {
+    // Archived seasons are read-only: their queue waits until the season is reopened.
+    for (const workspace of appConfig.workspaces.filter(w => !w.archived)) {
+      const outbox = getOutbox(workspace);
+      for (const entry of outbox.due()) {
+        outbox.markSending(entry.id);
+        let result;
+        try {
+          result = await sendMail(workspace, entry.message, savedAuthClient);
+        } catch (error) {
+          console.error(`Scheduled email to ${entry.message.to} failed:`, error.message);
+          outbox.markFailed(entry.id, error.message);
+          continue;
+        }
+        console.log(`Sent scheduled email to ${entry.message.to}`);
+        // Gmail has it now, so nothing after this may mark the entry failed and
+        // offer a second send; errors are only logged.
+        try {
+          const sent = outbox.markSent(entry.id, result);
+          const store = getDb(workspace);
+          const record = store.get('outreach', entry.outreachId);
+          const patch = record && sentRecordPatch(record, sent, localDate());
+          if (patch) store.update('outreach', record.id, patch);
+        } catch (error) {
+          console.error(`Sent scheduled email to ${entry.message.to} but could not update its record:`, error);
+        }
+      }
+    }
+  } finally {
+    dispatching = false;
+  }
+}
+
+cron.schedule('* * * * *', dispatchOutbox);
+
 // Cron job for reminders (example: check daily)
 cron.schedule('0 9 * * *', async () => {
   console.log('Checking for follow-ups...');
@@ -457,6 +1040,8 @@ app.post('/check-followups', async (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
+app.listen(PORT, HOST, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  if (HOST !== '127.0.0.1' && HOST !== 'localhost') console.log(`Listening on ${HOST}: other computers on the network can reach it.`);
+  console.log('Browsers pair with the server on first launch; the pairing code is printed here when the app asks for it.');
 });
\ No newline at end of file
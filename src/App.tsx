@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -42,15 +42,37 @@ import {
 } from "@/components/ui/dropdown-menu";
 import {
   Calendar,
+  Clock,
   Download,
   Filter,
+  FolderOpen,
+  Lock,
+  Mail,
   Plus,
+  Printer,
+  RefreshCw,
   Search,
   Settings,
+  Redo2,
   Trash2,
+  Undo2,
   Upload,
   Unlink,
 } from "lucide-react";
+import { buildXlsx, type CellValue, type Sheet } from "@/lib/xlsx";
+import { projectFolderName } from "@/lib/folders";
+import {
+  decryptJson,
+  decryptText,
+  derivePasscodeKey,
+  encryptJson,
+  encryptText,
+  isEncryptedEnvelope,
+  KDF_ITERATIONS,
+  randomSalt,
+} from "@/lib/encryption";
+import * as api from "@/lib/api";
+import type { AuditEntry, BackupDiff, BackupInfo, BackupRetention, Collection, Workspace } from "@/lib/api";
 
 // -----------------------------
 // Types
@@ -70,6 +92,10 @@ type ProjectStatus =
 
 type Priority = "High" | "Medium" | "Low";
 
+// Google Calendar event for one synced date, keyed by slot ("ddl", "interview", "meeting");
+// date is the YYYY-MM-DD both sides last agreed on (see server/gcal.js).
+type CalendarLink = { eventId: string; date: string };
+
 type YesNoOpt = "Yes" | "No" | "Optional";
 
 type Project = {
@@ -101,6 +127,7 @@ type Project = {
   outreachIds: ID[];
   materialTaskIds: ID[];
   notes: string;
+  calendarLinks?: Record<string, CalendarLink>;
 };
 
 type OutreachStage = "Drafting" | "Sent" | "Follow-up" | "Meeting" | "Closed";
@@ -112,6 +139,7 @@ type Outreach = {
   institution: string;
   directions: string[];
   contact: string;
+  timeZone?: string; // the PI's IANA zone, e.g. "America/New_York"; scheduled emails aim for their morning
   firstContact: string;
   emailVersion: string;
   replied: "No reply" | "Replied" | "Auto-reply";
@@ -123,6 +151,21 @@ type Outreach = {
   projectIds: ID[];
   notes: string;
   threadId?: string;
+  sentEmails?: SentEmail[]; // what was sent from the app, oldest first
+  calendarLinks?: Record<string, CalendarLink>;
+};
+
+type SentEmail = {
+  sentAt: string; // ISO timestamp
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  body: string;
+  attachments?: string[]; // paths relative to the workspace folder
+  template?: { id: ID; name: string; version: string }; // as it was when sent
+  messageId: string;
+  threadId: string;
 };
 
 type MaterialStatus = "未开始" | "草稿" | "已修改" | "定稿" | "已提交";
@@ -168,12 +211,25 @@ type Decision = {
   takeaways: string;
 };
 
+// Outreach email with {{variable}} placeholders (see "Email Templates").
+type EmailTemplate = {
+  id: ID;
+  name: string;
+  version: string; // what Outreach.emailVersion records, e.g. "v2-tailored"
+  subject: string;
+  body: string;
+  updatedAt: string;
+};
+
 // -----------------------------
 // Utilities
 // -----------------------------
 
 const LS_KEY = "summer_research_tracker_v1";
 
+// Bump together with a new entry in MIGRATIONS whenever the Store shape changes.
+const SCHEMA_VERSION = 2;
+
 function uid(prefix = "id"): ID {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
@@ -281,7 +337,10 @@ function csvEscape(v: string) {
 }
 
 function downloadText(filename: string, content: string) {
-  const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
+  downloadBlob(filename, new Blob([content], { type: "text/plain;charset=utf-8" }));
+}
+
+function downloadBlob(filename: string, blob: Blob) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -292,7 +351,36 @@ function downloadText(filename: string, content: string) {
   URL.revokeObjectURL(url);
 }
 
+// With the app lock on, store caches are served from the decrypted copies held
+// in memory (see "App Lock") and written back encrypted.
 function safeStorageGet(key: string): string | null {
+  if (appLock.key && isLockedKey(key)) return appLock.plain.get(key) ?? null;
+  const raw = rawStorageGet(key);
+  return raw && raw.startsWith(LOCKED_VALUE_PREFIX) ? null : raw;
+}
+
+function safeStorageSet(key: string, value: string) {
+  if (appLock.key && isLockedKey(key)) {
+    appLock.plain.set(key, value);
+    queueLockedWrite(appLock.key, key, value);
+    return;
+  }
+  // Locked after idling: a late write has no key and must not land as plaintext.
+  if (isLockedKey(key) && readAppLockConfig()) return;
+  rawStorageSet(key, value);
+}
+
+function safeStorageRemove(key: string) {
+  appLock.plain.delete(key);
+  try {
+    if (typeof window === "undefined") return;
+    window.localStorage.removeItem(key);
+  } catch {
+    return;
+  }
+}
+
+function rawStorageGet(key: string): string | null {
   try {
     if (typeof window === "undefined") return null;
     return window.localStorage.getItem(key);
@@ -301,7 +389,7 @@ function safeStorageGet(key: string): string | null {
   }
 }
 
-function safeStorageSet(key: string, value: string) {
+function rawStorageSet(key: string, value: string) {
   try {
     if (typeof window === "undefined") return;
     window.localStorage.setItem(key, value);
@@ -310,10 +398,149 @@ function safeStorageSet(key: string, value: string) {
   }
 }
 
+// -----------------------------
+// App Lock
+// -----------------------------
+
+// Optional passcode. The key derived from it encrypts every store cache in
+// localStorage and the server pairing token; flags, timestamps and the workspace
+// list stay readable. The key only lives in memory, so a reload starts at the lock
+// screen, and nothing talks to the server until it is unlocked.
+
+type AppLockConfig = {
+  salt: string;
+  iterations: number;
+  check: string; // APP_LOCK_CHECK encrypted with the key, to verify a passcode
+  idleMinutes: number; // 0 = never lock while the page is open
+};
+
+const APP_LOCK_KEY = `${LS_KEY}:lock`;
+const APP_LOCK_CHECK = "summer-research-tracker";
+const LOCKED_VALUE_PREFIX = "locked1:";
+
+const appLock: { key: CryptoKey | null; plain: Map<string, string>; writes: Promise<void> } = {
+  key: null,
+  plain: new Map(),
+  writes: Promise.resolve(),
+};
+
+// Store caches (LS_KEY and LS_KEY@workspace), their sync bases and their queued file
+// operations, which name folders and files, and the server token; not the
+// ":dirty"-style flags.
+function isLockedKey(key: string): boolean {
+  if (key === SERVER_TOKEN_KEY) return true;
+  const suffix = [":fileOps", ":base"].find((s) => key.endsWith(s));
+  const base = suffix ? key.slice(0, -suffix.length) : key;
+  return base === LS_KEY || (base.startsWith(`${LS_KEY}@`) && !base.includes(":"));
+}
+
+function lockedKeysInStorage(): string[] {
+  try {
+    return Object.keys(window.localStorage).filter(isLockedKey);
+  } catch {
+    return [];
+  }
+}
+
+// Writes are chained so a slower encryption never lands after a newer one.
+function queueLockedWrite(key: CryptoKey, storageKey: string, value: string) {
+  appLock.writes = appLock.writes
+    .then(async () => rawStorageSet(storageKey, LOCKED_VALUE_PREFIX + (await encryptText(key, value))))
+    .catch((err) => console.error('Failed to write encrypted store:', err));
+}
+
+function readAppLockConfig(): AppLockConfig | null {
+  try {
+    const raw = rawStorageGet(APP_LOCK_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function appLockKeyFor(passcode: string, config: AppLockConfig): Promise<CryptoKey> {
+  const key = await derivePasscodeKey(passcode, config.salt, config.iterations);
+  if ((await decryptText(key, config.check).catch(() => "")) !== APP_LOCK_CHECK) throw new Error("Wrong passcode");
+  return key;
+}
+
+async function unlockApp(passcode: string) {
+  const config = readAppLockConfig();
+  if (!config) return;
+  const key = await appLockKeyFor(passcode, config);
+  const plain = new Map<string, string>();
+  for (const storageKey of lockedKeysInStorage()) {
+    const raw = rawStorageGet(storageKey) || "";
+    if (raw.startsWith(LOCKED_VALUE_PREFIX)) {
+      // A cache that no longer decrypts is dropped; the server copy replaces it.
+      const value = await decryptText(key, raw.slice(LOCKED_VALUE_PREFIX.length)).catch(() => null);
+      if (value !== null) plain.set(storageKey, value);
+    } else {
+      // Written by a tab that had not picked up the lock yet.
+      plain.set(storageKey, raw);
+      queueLockedWrite(key, storageKey, raw);
+    }
+  }
+  appLock.key = key;
+  appLock.plain = plain;
+}
+
+// Turns the lock on, or changes the passcode when it is already on (the caller
+// has unlocked, so every cache is in appLock.plain and is re-encrypted).
+async function setAppLockPasscode(passcode: string, idleMinutes: number) {
+  const salt = randomSalt();
+  const key = await derivePasscodeKey(passcode, salt);
+  const config: AppLockConfig = { salt, iterations: KDF_ITERATIONS, check: await encryptText(key, APP_LOCK_CHECK), idleMinutes };
+
+  await appLock.writes;
+  const plain = appLock.key ? appLock.plain : new Map(lockedKeysInStorage().map((k) => [k, rawStorageGet(k) || ""] as const));
+  for (const [storageKey, value] of plain) {
+    rawStorageSet(storageKey, LOCKED_VALUE_PREFIX + (await encryptText(key, value)));
+  }
+  rawStorageSet(APP_LOCK_KEY, JSON.stringify(config));
+  appLock.key = key;
+  appLock.plain = plain;
+}
+
+async function disableAppLock() {
+  await appLock.writes;
+  for (const [storageKey, value] of appLock.plain) rawStorageSet(storageKey, value);
+  safeStorageRemove(APP_LOCK_KEY);
+  appLock.key = null;
+  appLock.plain = new Map();
+}
+
+function setAppLockIdleMinutes(idleMinutes: number) {
+  const config = readAppLockConfig();
+  if (config) rawStorageSet(APP_LOCK_KEY, JSON.stringify({ ...config, idleMinutes }));
+}
+
 // -----------------------------
 // Seed Data (Example)
 // -----------------------------
 
+// A fixed id, so every client that adds it by migration names the same record.
+function starterTemplate(): EmailTemplate {
+  return {
+    id: "t_starter",
+    name: "Introduction",
+    version: "v1",
+    subject: "Summer research inquiry: {{directions}}",
+    body: [
+      "Dear Prof. {{piName}},",
+      "",
+      "I am writing to ask about summer research opportunities in your group at {{institution}}. " +
+        "I am particularly interested in {{directions}}, and I am applying to {{project.name}}.",
+      "",
+      "I have attached my CV for your reference and would be grateful for the chance to discuss whether there might be a place for me this summer.",
+      "",
+      "Best regards,",
+      "",
+    ].join("\n"),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
 const seed = () => {
   const p1: Project = {
     id: uid("p"),
@@ -518,8 +745,9 @@ const seed = () => {
     outreach: [o1],
     materials: [m1, m2, m3],
     decisions: [d1, d2],
+    templates: [starterTemplate()],
     meta: {
-      version: 1,
+      version: SCHEMA_VERSION,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     },
@@ -528,6 +756,43 @@ const seed = () => {
 
 type Store = ReturnType<typeof seed>;
 
+function nextProjectCode(count: number): string {
+  return `SR-${new Date().getFullYear() + 1}-${String(count + 1).padStart(2, "0")}`;
+}
+
+function blankProject(projectId: string): Project {
+  return {
+    id: uid("p"),
+    projectId,
+    name: "",
+    institution: "",
+    region: "",
+    type: "",
+    officialLink: "",
+    keywords: [],
+    piLab: "",
+    needsOutreach: "Optional",
+    round: "",
+    ddl: "",
+    period: "",
+    funding: [],
+    eligibility: "",
+    materials: [],
+    portalStatus: "Not Open",
+    status: "Prospecting",
+    fit: 0,
+    risk: 0,
+    roi: 0,
+    priority: "Medium",
+    decision: "Maybe",
+    nextAction: "",
+    nextActionDate: "",
+    outreachIds: [],
+    materialTaskIds: [],
+    notes: "",
+  };
+}
+
 function normalizeStore(input: any): Store {
   const base: Store = seed();
   const s: Store = {
@@ -535,8 +800,9 @@ function normalizeStore(input: any): Store {
     outreach: Array.isArray(input?.outreach) ? input.outreach : base.outreach,
     materials: Array.isArray(input?.materials) ? input.materials : base.materials,
     decisions: Array.isArray(input?.decisions) ? input.decisions : base.decisions,
+    templates: Array.isArray(input?.templates) ? input.templates : base.templates,
     meta: {
-      version: 1,
+      version: SCHEMA_VERSION,
       createdAt: String(input?.meta?.createdAt || base.meta.createdAt),
       updatedAt: String(input?.meta?.updatedAt || base.meta.updatedAt),
     },
@@ -613,1446 +879,4711 @@ function normalizeStore(input: any): Store {
     outreach: nextOutreach,
     materials: nextMaterials,
     decisions: nextDecisions,
+    templates: s.templates,
     meta: { ...s.meta, updatedAt: new Date().toISOString() },
   };
 }
 
-function loadStore(): Store {
+// -----------------------------
+// Schema Migrations
+// -----------------------------
+
+type MigrationReport = {
+  fromVersion: number;
+  toVersion: number;
+  steps: { version: number; description: string; notes: string[] }[];
+};
+
+type Migration = {
+  version: number; // schema version this migration produces
+  description: string;
+  migrate: (input: any, notes: string[]) => any;
+};
+
+// Ordered; each entry upgrades data from `version - 1` to `version`.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Upgrade unversioned data to schema v1",
+    migrate: (input, notes) => {
+      const out = { ...input };
+      for (const key of ["projects", "outreach", "materials", "decisions"] as const) {
+        if (!Array.isArray(out[key])) {
+          notes.push(`Missing "${key}" list; started it empty.`);
+          out[key] = [];
+        }
+      }
+      const listFields: [keyof Store, string[]][] = [
+        ["projects", ["keywords", "funding", "materials", "outreachIds", "materialTaskIds"]],
+        ["outreach", ["directions", "projectIds"]],
+      ];
+      for (const [key, fields] of listFields) {
+        let fixed = 0;
+        out[key] = out[key].map((r: any) => {
+          const missing = fields.filter((f) => !Array.isArray(r?.[f]));
+          if (!missing.length) return r;
+          fixed++;
+          return { ...r, ...Object.fromEntries(missing.map((f) => [f, []])) };
+        });
+        if (fixed) notes.push(`Filled missing list fields on ${fixed} ${key} record(s).`);
+      }
+      return out;
+    },
+  },
+  {
+    version: 2,
+    description: "Add the email template library",
+    migrate: (input, notes) => {
+      if (Array.isArray(input.templates)) return input;
+      notes.push('Added a starter "Introduction" template; edit it under Outreach → Templates.');
+      return { ...input, templates: [starterTemplate()] };
+    },
+  },
+];
+
+function storeVersionOf(input: any): number {
+  const v = input?.meta?.version;
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+function migrateStore(input: any): { store: Store; report: MigrationReport | null } {
+  const fromVersion = storeVersionOf(input);
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `This data was saved with schema v${fromVersion}, but this version of the tracker only understands up to v${SCHEMA_VERSION}. ` +
+        "Update the app before loading it; nothing was changed."
+    );
+  }
+
+  let data = input;
+  const steps: MigrationReport["steps"] = [];
+  for (const m of MIGRATIONS) {
+    if (m.version <= fromVersion) continue;
+    const notes: string[] = [];
+    data = m.migrate(data, notes);
+    data = { ...data, meta: { ...(data.meta || {}), version: m.version } };
+    steps.push({ version: m.version, description: m.description, notes });
+  }
+
+  return {
+    store: normalizeStore(data),
+    report: steps.length ? { fromVersion, toVersion: SCHEMA_VERSION, steps } : null,
+  };
+}
+
+type LoadedStore = {
+  store: Store;
+  report: MigrationReport | null;
+  error: string | null;
+};
+
+function loadStore(workspaceId: string): LoadedStore {
+  const raw = safeStorageGet(storeKeyFor(workspaceId));
+  if (!raw) return { store: seed(), report: null, error: null };
   try {
-    const raw = safeStorageGet(LS_KEY);
-    if (!raw) return seed();
     const parsed = JSON.parse(raw);
-    if (!parsed?.projects || !parsed?.outreach || !parsed?.materials || !parsed?.decisions) {
-      return seed();
+    if (!Array.isArray(parsed?.projects)) {
+      return { store: seed(), report: null, error: null };
     }
-    return normalizeStore(parsed);
-  } catch {
-    return seed();
+    return { ...migrateStore(parsed), error: null };
+  } catch (e) {
+    if (e instanceof SyntaxError) return { store: seed(), report: null, error: null };
+    // Refuse to touch data we cannot read, so a newer app version can still open it.
+    return { store: seed(), report: null, error: e instanceof Error ? e.message : String(e) };
   }
 }
 
-function saveStore(s: Store) {
+function saveStore(s: Store, workspaceId: string) {
   const next = normalizeStore({
     ...s,
     meta: { ...s.meta, updatedAt: new Date().toISOString() },
   });
-  safeStorageSet(LS_KEY, JSON.stringify(next));
+  safeStorageSet(storeKeyFor(workspaceId), JSON.stringify(next));
   return next;
 }
 
 // -----------------------------
-// Constants
+// Server Auth
 // -----------------------------
 
-const STATUS_LIST: ProjectStatus[] = [
-  "Prospecting",
-  "Need Outreach",
-  "Preparing",
-  "Submitted",
-  "Interview",
-  "Offer",
-  "Rejected",
-  "Closed",
-];
+// Requests go through the client in lib/api.ts. The server URL is a per-browser
+// setting (Settings -> Server URL), and the server only answers browsers paired
+// with it (server/auth.js); pairing stores its token here, encrypted while the app
+// lock is on.
 
-const PRIORITIES: Priority[] = ["High", "Medium", "Low"];
+const SERVER_URL_KEY = `${LS_KEY}:serverUrl`;
+const SERVER_TOKEN_KEY = `${LS_KEY}:serverToken`;
+const SERVER_AUTH_EVENT = "summer-research-tracker:server-auth";
 
-const DECISION_OPTIONS: SelectOption[] = [
-  { value: "Apply", label: "Apply" },
-  { value: "Maybe", label: "Maybe" },
-  { value: "No", label: "No" },
-];
+function storedServerUrl(): string {
+  try {
+    return api.normalizeServerUrl(safeStorageGet(SERVER_URL_KEY) || api.DEFAULT_SERVER_URL);
+  } catch {
+    return api.DEFAULT_SERVER_URL;
+  }
+}
+
+api.configureApi({
+  baseUrl: storedServerUrl(),
+  token: () => safeStorageGet(SERVER_TOKEN_KEY),
+  onAuthRequired: () => window.dispatchEvent(new CustomEvent(SERVER_AUTH_EVENT)),
+});
 
 // -----------------------------
-// Small UI helpers
+// Server Health
 // -----------------------------
 
-function Pill({ children }: { children: React.ReactNode }) {
-  return (
-    <Badge variant="secondary" className="rounded-full">
-      {children}
-    </Badge>
-  );
-}
+// /health is polled while any component shows the result. "degraded" means the
+// server answers but its storage folder cannot take files (unwritable or nearly
+// full), so file buttons are off; "offline" turns off the Gmail ones too, and the
+// store falls back to the browser cache (see "Server Sync").
 
-function SectionTitle({ title, right }: { title: string; right?: React.ReactNode }) {
-  return (
-    <div className="flex items-center justify-between gap-4">
-      <div className="text-xl font-bold tracking-tight text-foreground">{title}</div>
-      {right}
-    </div>
-  );
-}
+type ServerStatus = "checking" | "online" | "degraded" | "offline";
 
-function EmptyState({
-  title,
-  desc,
-  action,
-}: {
-  title: string;
-  desc?: string;
-  action?: React.ReactNode;
-}) {
-  return (
-    <Card className="border-dashed border-border/50 bg-muted/20 shadow-sm">
-      <CardHeader className="pb-3">
-        <CardTitle className="text-lg font-semibold text-muted-foreground">{title}</CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        {desc ? <div className="text-sm text-muted-foreground leading-relaxed">{desc}</div> : null}
-        {action}
-      </CardContent>
-    </Card>
-  );
-}
+type ServerHealthState = {
+  status: ServerStatus;
+  health: api.ServerHealth | null;
+  error: string | null; // why the last check failed
+};
 
-type SelectOption = { value: string; label: string; disabled?: boolean };
+const HEALTH_POLL_MS = 15 * 1000;
+const HEALTH_RETRY_MS = 5 * 1000; // while unreachable
 
-function SelectBox({
-  value,
-  onValueChange,
-  options,
-  className,
-  id,
-}: {
-  value?: string;
-  onValueChange: (v: string) => void;
-  options: SelectOption[];
-  className?: string;
-  id?: string;
-}) {
-  const v = value ?? "";
-  return (
-    <Select value={v} onValueChange={onValueChange}>
-      <SelectTrigger id={id} className={className}>
-        <SelectValue placeholder="Select..." />
-      </SelectTrigger>
-      <SelectContent>
-        {options.map((o) => (
-          <SelectItem key={o.value} value={o.value || "_empty_"} disabled={o.disabled}>
-            {o.label}
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
-  );
+const serverHealth = {
+  state: { status: "checking", health: null, error: null } as ServerHealthState,
+  listeners: new Set<() => void>(),
+  timer: null as ReturnType<typeof setTimeout> | null,
+};
+
+function serverStatusFor(health: api.ServerHealth | null): ServerStatus {
+  if (!health) return "offline";
+  return health.storage.writable && !health.storage.lowDisk ? "online" : "degraded";
 }
 
-function SmartDateInput({
-  value,
-  onCommit,
-  className,
-  placeholder,
-}: {
-  value: string;
-  onCommit: (v: string) => void;
-  className?: string;
-  placeholder?: string;
-}) {
-  const [temp, setTemp] = useState(value);
-  const [focus, setFocus] = useState(false);
+async function checkServerHealth() {
+  let health: api.ServerHealth | null = null;
+  let error: string | null = null;
+  try {
+    health = await api.getHealth();
+  } catch (e) {
+    error = api.describeError(e);
+  }
+  serverHealth.state = { status: serverStatusFor(health), health, error };
+  serverHealth.listeners.forEach((listener) => listener());
+  // Whichever check finishes last schedules the next one.
+  if (serverHealth.timer) clearTimeout(serverHealth.timer);
+  serverHealth.timer = serverHealth.listeners.size
+    ? setTimeout(checkServerHealth, health ? HEALTH_POLL_MS : HEALTH_RETRY_MS)
+    : null;
+}
 
-  useEffect(() => {
-    if (!focus) setTemp(value);
-  }, [value, focus]);
+function subscribeServerHealth(listener: () => void) {
+  serverHealth.listeners.add(listener);
+  if (serverHealth.listeners.size === 1) checkServerHealth();
+  return () => {
+    serverHealth.listeners.delete(listener);
+    if (serverHealth.listeners.size || !serverHealth.timer) return;
+    clearTimeout(serverHealth.timer);
+    serverHealth.timer = null;
+  };
+}
 
-  return (
-    <Input
-      className={className}
-      placeholder={placeholder}
-      value={focus ? temp : formatDateForDisplay(value)}
-      onFocus={() => {
-        setFocus(true);
-        setTemp(value);
-      }}
-      onChange={(e) => {
-        setTemp(formatDateInput(e.target.value));
-      }}
-      onBlur={() => {
-        setFocus(false);
-        const final = parseDateInput(temp);
-        onCommit(final);
-        setTemp(final);
-      }}
-      maxLength={10}
-    />
-  );
+function useServerHealth(): ServerHealthState {
+  return useSyncExternalStore(subscribeServerHealth, () => serverHealth.state);
+}
+
+// Why file buttons are disabled, or null when they work.
+function fileServerBlocker(state: ServerHealthState): string | null {
+  if (state.status === "offline") return "The server is not reachable";
+  if (state.status !== "degraded" || !state.health) return null;
+  const { storage } = state.health;
+  if (!storage.writable) return `The server cannot write to its storage folder (${storage.error || "not writable"})`;
+  return `The storage disk is almost full (${formatBytes(storage.freeBytes ?? 0)} free)`;
 }
 
 // -----------------------------
-// Main App
+// Server Sync
 // -----------------------------
 
-function SettingsDialog() {
-  const [open, setOpen] = useState(false);
-  const [storageRoot, setStorageRoot] = useState("");
-  const [loading, setLoading] = useState(false);
+// The server owns the durable copy (server/db.js); localStorage is an offline
+// cache. Edits made while the server is unreachable set the dirty flag and keep
+// the last store known to match the server as a base; the next successful
+// connection pushes only what changed since that base, on top of whatever the
+// server has now. A cache that never matched this server has no base and is
+// never pushed over the server's data.
 
-  useEffect(() => {
-    if (open) {
-      fetch('http://localhost:3001/config')
-        .then(res => res.json())
-        .then(data => setStorageRoot(data.storageRoot))
-        .catch(err => console.error(err));
-    }
-  }, [open]);
+const COLLECTIONS: Collection[] = ["projects", "outreach", "materials", "decisions", "templates"];
 
-  const handleSave = async () => {
-    setLoading(true);
-    try {
-      await fetch('http://localhost:3001/config', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ storageRoot })
-      });
-      setOpen(false);
-    } catch (err) {
-      alert('Failed to save config');
-    } finally {
-      setLoading(false);
-    }
-  };
+type StoreOp =
+  | { kind: "insert"; collection: Collection; id: ID; record: { id: ID } }
+  | { kind: "update"; collection: Collection; id: ID; patch: Record<string, unknown> }
+  | { kind: "delete"; collection: Collection; id: ID };
 
-  const handleOpenFolder = async () => {
-    try {
-      await fetch('http://localhost:3001/open-folder', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: storageRoot })
-      });
-    } catch (err) {
-      alert('Failed to open folder');
-    }
-  };
+function isStoreDirty(workspaceId: string): boolean {
+  return safeStorageGet(`${storeKeyFor(workspaceId)}:dirty`) === "1";
+}
 
+// `base` is kept only when the cache was clean; later failures keep the older one.
+function markStoreDirty(workspaceId: string, base: Store | null) {
+  if (base && !isStoreDirty(workspaceId)) safeStorageSet(`${storeKeyFor(workspaceId)}:base`, JSON.stringify(base));
+  safeStorageSet(`${storeKeyFor(workspaceId)}:dirty`, "1");
+}
+
+function markStoreSynced(workspaceId: string) {
+  safeStorageRemove(`${storeKeyFor(workspaceId)}:dirty`);
+  safeStorageRemove(`${storeKeyFor(workspaceId)}:base`);
+  safeStorageSet(`${storeKeyFor(workspaceId)}:syncedWith`, api.serverUrl());
+}
+
+// The cache as last saved matched this server, so it can serve as the base.
+function isCacheSynced(workspaceId: string): boolean {
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button variant="outline" className="gap-2">
-          <Settings className="h-4 w-4" />
-          Settings
-        </Button>
-      </DialogTrigger>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Settings</DialogTitle>
-          <DialogDescription>Configure application settings</DialogDescription>
-        </DialogHeader>
-        <div className="space-y-4 py-4">
-          <div className="space-y-2">
-            <Label>External Storage Path</Label>
-            <div className="flex gap-2">
-              <Input 
-                value={storageRoot} 
-                onChange={(e) => setStorageRoot(e.target.value)} 
-                placeholder="/path/to/storage"
-              />
-              <Button variant="outline" size="icon" onClick={handleOpenFolder} title="Open in File Explorer">
-                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z" />
-                </svg>
-              </Button>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Absolute path to the folder where files will be stored.
-            </p>
-          </div>
-        </div>
-        <DialogFooter>
-          <Button onClick={handleSave} disabled={loading}>
-            {loading ? 'Saving...' : 'Save Changes'}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+    !isStoreDirty(workspaceId) &&
+    safeStorageGet(storeKeyFor(workspaceId)) !== null &&
+    safeStorageGet(`${storeKeyFor(workspaceId)}:syncedWith`) === api.serverUrl()
   );
 }
 
-export default function SummerResearchTrackerApp() {
-  const [store, setStore] = useState<Store>(() => loadStore());
-  const [activeTab, setActiveTab] = useState<
-    "dashboard" | "projects" | "outreach" | "materials" | "decisions"
-  >("dashboard");
+function storeBase(workspaceId: string): Store | null {
+  if (safeStorageGet(`${storeKeyFor(workspaceId)}:syncedWith`) !== api.serverUrl()) return null;
+  try {
+    const raw = safeStorageGet(`${storeKeyFor(workspaceId)}:base`);
+    return raw ? migrateStore(JSON.parse(raw)).store : null;
+  } catch {
+    return null;
+  }
+}
 
-  const [q, setQ] = useState("");
-  const [showOnlyUpcoming, setShowOnlyUpcoming] = useState(false);
+function diffStores(prev: Store, next: Store): StoreOp[] {
+  const ops: StoreOp[] = [];
+  for (const collection of COLLECTIONS) {
+    const before = new Map<ID, any>(prev[collection].map((r) => [r.id, r] as const));
+    const after = new Map<ID, any>(next[collection].map((r) => [r.id, r] as const));
+
+    for (const [id, record] of after) {
+      const old = before.get(id);
+      if (!old) {
+        ops.push({ kind: "insert", collection, id, record });
+        continue;
+      }
+      const patch: Record<string, unknown> = {};
+      for (const key of Object.keys(record)) {
+        if (JSON.stringify(record[key]) !== JSON.stringify(old[key])) patch[key] = record[key];
+      }
+      if (Object.keys(patch).length) ops.push({ kind: "update", collection, id, patch });
+    }
 
-  const [statusFilter, setStatusFilter] = useState<ProjectStatus | "ALL">("ALL");
-  const [priorityFilter, setPriorityFilter] = useState<Priority | "ALL">("ALL");
-  const [decisionFilter, setDecisionFilter] = useState<"Apply" | "Maybe" | "No" | "ALL">(
-    "ALL"
-  );
+    for (const id of before.keys()) {
+      if (!after.has(id)) ops.push({ kind: "delete", collection, id });
+    }
+  }
+  return ops;
+}
 
-  const [viewingDecision, setViewingDecision] = useState<Decision | null>(null);
-  const [followupReminders, setFollowupReminders] = useState<any[]>([]);
+// Ops diffed against an older store, trimmed to what still applies to `target`:
+// inserts of records it already has become updates, and updates or deletes of
+// records it no longer has are dropped.
+function rebaseStoreOps(ops: StoreOp[], target: Store): StoreOp[] {
+  return ops.flatMap((op): StoreOp[] => {
+    const exists = (target[op.collection] as { id: ID }[]).some((r) => r.id === op.id);
+    if (op.kind === "insert") return exists ? [{ kind: "update", collection: op.collection, id: op.id, patch: op.record }] : [op];
+    return exists ? [op] : [];
+  });
+}
 
-  useEffect(() => {
-    saveStore(store);
-  }, [store]);
+async function pushStoreOps(ops: StoreOp[], workspaceId: string) {
+  for (const op of ops) {
+    try {
+      if (op.kind === "insert") await api.insertRecord(workspaceId, op.collection, op.record);
+      else if (op.kind === "update") await api.updateRecord(workspaceId, op.collection, op.id, op.patch);
+      else await api.deleteRecord(workspaceId, op.collection, op.id);
+    } catch (e) {
+      throw new Error(`Store sync failed (${op.kind} ${op.collection}/${op.id}): ${api.describeError(e)}`);
+    }
+  }
+}
 
-  // Auto-backup every 30 minutes
-  useEffect(() => {
-    const backupData = async () => {
-      try {
-        await fetch('http://localhost:3001/save-backup', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ data: store }),
-        });
-        console.log('Auto-backup successful');
-      } catch (error) {
-        console.error('Auto-backup failed:', error);
-      }
-    };
+type ServerConnection = {
+  store: Store; // what both sides agree on after connecting
+  keptAs: string | null; // backup holding offline edits that could not be merged (see below)
+  report: MigrationReport | null; // the server's copy was upgraded and written back
+};
 
-    // Initial backup on load
-    backupData();
+async function connectServerStore(local: Store, workspaceId: string): Promise<ServerConnection> {
+  let remote: unknown = null;
+  try {
+    remote = await api.getStore<unknown>(workspaceId);
+  } catch (e) {
+    if (!api.isApiError(e) || e.status !== 404) throw e;
+  }
+  if (!remote) {
+    // First upload of this workspace.
+    await api.putStore(workspaceId, local);
+    markStoreSynced(workspaceId);
+    return { store: local, keptAs: null, report: null };
+  }
+  // An older server copy is upgraded once and saved, so every client edits the same
+  // records (including ones a migration adds) and later ops find them on the server.
+  const { store: server, report } = migrateStore(remote);
+  if (report) {
+    await api.putStore(workspaceId, server).catch((e) => {
+      // An archived season is read-only; it is upgraded in memory each time instead.
+      if (!api.isApiError(e) || e.status !== 423) throw e;
+    });
+  }
+  if (!isStoreDirty(workspaceId)) {
+    markStoreSynced(workspaceId);
+    return { store: server, keptAs: null, report };
+  }
 
-    const interval = setInterval(backupData, 30 * 60 * 1000); // Every 30 minutes
-    return () => clearInterval(interval);
-  }, [store]);
+  const base = storeBase(workspaceId);
+  if (!base) {
+    // E.g. a new browser that edited the example data offline: keep those edits
+    // as a server backup instead of replacing the season with them.
+    const saved = await api.saveBackup(workspaceId, local);
+    markStoreSynced(workspaceId);
+    return { store: server, keptAs: saved.filename, report };
+  }
+  const ops = rebaseStoreOps(diffStores(base, local), server);
+  await pushStoreOps(ops, workspaceId);
+  markStoreSynced(workspaceId);
+  return { store: applyTabMessage(server, { from: TAB_ID, ops, previous: {} }, true).store, keptAs: null, report };
+}
 
-  // Check for follow-ups on mount and every hour
-  useEffect(() => {
-    const checkFollowups = async () => {
-      try {
-        const response = await fetch('http://localhost:3001/check-followups', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ outreachList: store.outreach }),
-        });
-        const data = await response.json();
-        if (data.results && data.results.length > 0) {
-          setFollowupReminders(data.results);
-        }
-      } catch (error) {
-        console.error('Failed to check follow-ups:', error);
-      }
-    };
+// -----------------------------
+// Workspaces
+// -----------------------------
 
-    checkFollowups();
-    const interval = setInterval(checkFollowups, 60 * 60 * 1000); // Check every hour
+// One workspace per application season. Each has its own store, file folder
+// and backups on the server, and its own localStorage cache here.
 
-    return () => clearInterval(interval);
-  }, [store.outreach]);
+const DEFAULT_WORKSPACE: Workspace = { id: "default", name: "Default", folder: "", archived: false, createdAt: null };
+const ACTIVE_WORKSPACE_KEY = `${LS_KEY}:workspace`;
+const WORKSPACES_KEY = `${LS_KEY}:workspaces`;
 
-  const projectsById = useMemo(
-    () => new Map(store.projects.map((p) => [p.id, p] as const)),
-    [store.projects]
-  );
+// The default workspace keeps the original key so existing data stays where it was.
+function storeKeyFor(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE.id ? LS_KEY : `${LS_KEY}@${workspaceId}`;
+}
 
-  const filteredProjects = useMemo(() => {
-    const needle = q.trim().toLowerCase();
-    const now = Date.now();
+function cachedWorkspaces(): Workspace[] {
+  try {
+    const list = JSON.parse(safeStorageGet(WORKSPACES_KEY) || "[]");
+    return Array.isArray(list) && list.length ? list : [DEFAULT_WORKSPACE];
+  } catch {
+    return [DEFAULT_WORKSPACE];
+  }
+}
 
-    return store.projects
-      .filter((p) => {
-        if (statusFilter !== "ALL" && p.status !== statusFilter) return false;
-        if (priorityFilter !== "ALL" && p.priority !== priorityFilter) return false;
-        if (decisionFilter !== "ALL" && p.decision !== decisionFilter) return false;
+function shiftDateByYear(raw: string): string {
+  const d = parseFlexibleDate(raw || "", "MDY");
+  if (!d) return raw;
+  const [m, day, y] = d.split("/").map(Number);
+  // 02/29 has no next-year twin; fall back to 02/28.
+  const nextDay = validateDate(y + 1, m, day) ? day : day - 1;
+  return `${String(m).padStart(2, "0")}/${String(nextDay).padStart(2, "0")}/${y + 1}`;
+}
 
-        if (showOnlyUpcoming) {
-          const nextAct = parseDateOrNull(p.nextActionDate);
-          const ddl = parseDateOrNull(p.ddl);
-          if (!((nextAct !== null && nextAct >= now) || (ddl !== null && ddl >= now))) {
-            return false;
-          }
-        }
+function shiftYearsInText(text: string): string {
+  return (text || "").replace(/\b(20\d{2})\b/g, (y) => String(Number(y) + 1));
+}
 
-        if (!needle) return true;
-        const hay = [
-          p.projectId,
-          p.name,
-          p.institution,
-          p.region,
-          p.type,
-          p.piLab,
-          (p.keywords || []).join(" "),
-          (p.materials || []).join(" "),
-          p.notes,
-        ]
-          .join(" | ")
-          .toLowerCase();
-        return hay.includes(needle);
-      })
-      .sort((a, b) => parseDateOrInf(a.ddl) - parseDateOrInf(b.ddl));
-  }, [store.projects, q, statusFilter, priorityFilter, decisionFilter, showOnlyUpcoming]);
+// Recurring programs start the next season as fresh prospects with the same details.
+// Email templates carry over as they are; without any, the season gets the starter one.
+function carryOverProjects(projects: Project[], templates?: EmailTemplate[]): Store {
+  const carried = projects.map((p) => ({
+    ...p,
+    id: uid("p"),
+    projectId: shiftYearsInText(p.projectId),
+    round: shiftYearsInText(p.round),
+    period: shiftYearsInText(p.period),
+    ddl: shiftDateByYear(p.ddl),
+    nextActionDate: shiftDateByYear(p.nextActionDate),
+    portalStatus: "Not Open" as const,
+    status: "Prospecting" as const,
+    decision: "Maybe" as const,
+    outreachIds: [],
+    materialTaskIds: [],
+    calendarLinks: undefined,
+  }));
+  return normalizeStore({
+    projects: carried,
+    outreach: [],
+    materials: [],
+    decisions: [],
+    templates: templates?.length ? templates.map((t) => ({ ...t, id: uid("t") })) : undefined,
+  });
+}
 
-  const dashboard = useMemo(() => {
-    const counts = new Map<ProjectStatus, number>();
-    STATUS_LIST.forEach((s) => counts.set(s, 0));
-    for (const p of store.projects) counts.set(p.status, (counts.get(p.status) || 0) + 1);
+// -----------------------------
+// Undo History
+// -----------------------------
 
-    const now = Date.now();
-    const sortedByDDL = [...store.projects].sort((a, b) => parseDateOrInf(a.ddl) - parseDateOrInf(b.ddl));
-    const nextDDL =
-      sortedByDDL.find((p) => {
-        const t = parseDateOrNull(p.ddl);
-        return t !== null && t >= now;
-      }) || sortedByDDL.find((p) => p.ddl);
+// Each entry keeps the stores just before and after a local change. Undo applies
+// only the difference between the two to the current store, the same way tab sync
+// applies another tab's ops, so edits that arrived since from other tabs or the
+// server stay; a field changed since the entry is left as it is. File operations
+// done alongside a change are recorded as moves (deletes move into the server
+// trash) and replayed in the opposite direction on undo.
+
+type FileMove = { from: string; to: string }; // paths relative to the workspace folder
+
+type HistoryEntry = {
+  label: string; // empty for ordinary edits, which coalesce while typing
+  before: Store;
+  after: Store;
+  fileMoves: FileMove[];
+  at: number;
+};
 
-    const upcomingFollowUps = [...store.outreach]
-      .filter((o) => o.nextFollowUp)
-      .sort((a, b) => parseDateOrInf(a.nextFollowUp) - parseDateOrInf(b.nextFollowUp))
-      .slice(0, 5);
+type PendingAction = { label: string; fileMoves: FileMove[]; toast: boolean };
 
-    const tasksDue = [...store.materials]
-      .filter((m) => m.due)
-      .sort((a, b) => parseDateOrInf(a.due) - parseDateOrInf(b.due))
-      .slice(0, 6);
+const HISTORY_LIMIT = 100;
+const HISTORY_COALESCE_MS = 1000;
 
-    const actions = [...store.projects]
-      .filter((p) => p.nextActionDate)
-      .sort((a, b) => parseDateOrInf(a.nextActionDate) - parseDateOrInf(b.nextActionDate))
-      .slice(0, 6);
+// Returns the moves that could not be replayed (e.g. the file was changed by hand since).
+async function replayFileMoves(moves: FileMove[], direction: "undo" | "redo", workspaceId: string): Promise<FileMove[]> {
+  const ordered = direction === "undo" ? [...moves].reverse() : moves;
+  const failed: FileMove[] = [];
+  for (const move of ordered) {
+    const [oldPath, newPath] = direction === "undo" ? [move.to, move.from] : [move.from, move.to];
+    try {
+      await api.moveFile(workspaceId, oldPath, newPath);
+    } catch (e) {
+      console.error("Failed to replay file move", e);
+      failed.push(move);
+    }
+  }
+  return failed;
+}
 
-    const decisionStats = {
-      total: store.decisions.length,
-      apply: store.decisions.filter(d => d.conclusion === "Apply").length,
-      maybe: store.decisions.filter(d => d.conclusion === "Maybe").length,
-      no: store.decisions.filter(d => d.conclusion === "No").length,
-    };
+// -----------------------------
+// Pending File Operations
+// -----------------------------
 
-    return { counts, nextDDL, upcomingFollowUps, tasksDue, actions, decisionStats };
-  }, [store.projects, store.outreach, store.materials, store.decisions]);
+// Folder creates, renames and file moves that the server did not complete are kept
+// per workspace and replayed in order once it is reachable again. The store only
+// changes when an operation lands, so links never point at a file that has not
+// moved yet.
 
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
+type FileOp =
+  | { kind: "create-folder"; folder: string }
+  | { kind: "rename-folder"; projectId: ID; from: string; to: string }
+  | { kind: "move-file"; materialId: ID; from: string; to: string }; // paths relative to the workspace folder
 
-  function exportJSON() {
-    downloadText(`summer-research-tracker_${todayISO()}.json`, JSON.stringify(store, null, 2));
+type PendingFileOp = FileOp & {
+  id: ID;
+  createdAt: string;
+  attempts: number;
+  error: string | null; // last failure
+  offline: boolean; // the server was unavailable rather than refusing, so retry automatically
+};
+
+function fileOpsKey(workspaceId: string): string {
+  return `${storeKeyFor(workspaceId)}:fileOps`;
+}
+
+function loadFileOps(workspaceId: string): PendingFileOp[] {
+  try {
+    const list = JSON.parse(safeStorageGet(fileOpsKey(workspaceId)) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
   }
+}
 
-  function exportProjectsCSV() {
-    const headers = [
-      "ProjectID",
-      "Name",
-      "Institution",
-      "Region",
-      "Type",
-      "DDL",
-      "Funding",
-      "Status",
-      "Fit",
-      "Risk",
-      "ROI",
-      "Priority",
-      "Decision",
-      "NextAction",
-      "NextActionDate",
-      "OfficialLink",
-    ];
+function saveFileOps(workspaceId: string, ops: PendingFileOp[]) {
+  if (ops.length) safeStorageSet(fileOpsKey(workspaceId), JSON.stringify(ops));
+  else safeStorageRemove(fileOpsKey(workspaceId));
+}
 
-    const rows = store.projects.map((p) => [
-      p.projectId,
-      p.name,
-      p.institution,
-      p.region,
-      p.type,
-      p.ddl,
-      (p.funding || []).join(";"),
-      p.status,
-      String(p.fit),
-      String(p.risk),
-      String(p.roi),
-      p.priority,
-      p.decision,
-      p.nextAction,
-      p.nextActionDate,
-      p.officialLink,
-    ]);
+// A second rename of the same project or move of the same material folds into the
+// queued one, keeping its place in line, so replay never starts from a stale path.
+function enqueueFileOp(
+  ops: PendingFileOp[],
+  op: FileOp,
+  failure: { error: string | null; offline: boolean } = { error: null, offline: false }
+): PendingFileOp[] {
+  const existing = ops.find(
+    (o) =>
+      (o.kind === "rename-folder" && op.kind === "rename-folder" && o.projectId === op.projectId) ||
+      (o.kind === "move-file" && op.kind === "move-file" && o.materialId === op.materialId)
+  );
+  if (existing && existing.kind !== "create-folder" && op.kind !== "create-folder") {
+    if (existing.from === op.to) return ops.filter((o) => o !== existing);
+    return ops.map((o) => (o === existing ? { ...existing, to: op.to, ...failure } : o));
+  }
+  return [...ops, { ...op, id: uid("op"), createdAt: new Date().toISOString(), attempts: failure.error ? 1 : 0, ...failure }];
+}
 
-    const csv = [headers, ...rows]
-      .map((r) => r.map((x) => csvEscape(String(x || ""))).join(","))
-      .join("\n");
-    downloadText(`projects_${todayISO()}.csv`, csv);
+function describeFileOp(op: PendingFileOp): string {
+  if (op.kind === "create-folder") return `Create folder "${op.folder}"`;
+  if (op.kind === "rename-folder") return `Rename folder "${op.from}" to "${op.to}"`;
+  return `Move ${op.from} to ${op.to}`;
+}
+
+async function runFileOp(op: FileOp, workspaceId: string) {
+  if (op.kind === "create-folder") await api.createProjectFolder(workspaceId, op.folder);
+  else if (op.kind === "rename-folder") await api.renameFolder(workspaceId, op.from, op.to);
+  else await api.moveFile(workspaceId, op.from, op.to);
+}
+
+function fileOpFailure(e: unknown): { error: string; offline: boolean } {
+  return { error: api.describeError(e), offline: api.isApiError(e) && e.status === 0 };
+}
+
+// -----------------------------
+// Tab Sync
+// -----------------------------
+
+// Tabs of the same workspace share changes over a BroadcastChannel as field-level
+// ops. Each update carries the values it replaced; if the receiving tab no longer
+// has those values, both tabs edited the field and the user gets a conflict notice.
+// The receiving tab keeps its value on screen but does not push it to the server
+// until the user picks a side; the choice is then broadcast so both tabs agree.
+
+type TabSyncMessage = {
+  from: string;
+  ops: StoreOp[];
+  previous: Record<string, Record<string, unknown>>; // `${collection}/${id}` -> replaced field values
+};
+
+type TabConflict = {
+  key: string; // `${collection}/${id}/${field}`
+  collection: Collection;
+  id: ID;
+  label: string;
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+};
+
+const TAB_ID = uid("tab");
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function recordLabel(store: Store, collection: Collection, record: any): string {
+  switch (collection) {
+    case "projects":
+      return `${record.projectId} · ${record.name || "(untitled)"}`;
+    case "outreach":
+      return `${record.outreachId} · ${record.piName || "(unnamed)"}`;
+    case "materials":
+      return `${record.taskId} · ${record.type}`;
+    case "decisions":
+      return `Decision · ${store.projects.find((p) => p.id === record.projectInternalId)?.projectId || "?"}`;
+    case "templates":
+      return templateLabel(record);
   }
+}
 
-  function triggerImport() {
-    fileInputRef.current?.click();
+function tabMessageFor(before: Store, after: Store): TabSyncMessage {
+  const ops = diffStores(before, after);
+  const previous: TabSyncMessage["previous"] = {};
+  for (const op of ops) {
+    if (op.kind !== "update") continue;
+    const old: any = before[op.collection].find((r) => r.id === op.id) || {};
+    previous[`${op.collection}/${op.id}`] = Object.fromEntries(Object.keys(op.patch).map((k) => [k, old[k]]));
   }
+  return { from: TAB_ID, ops, previous };
+}
 
-  function handleImportFile(file: File) {
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const parsed = JSON.parse(String(reader.result || ""));
-        if (!parsed?.projects || !parsed?.outreach || !parsed?.materials || !parsed?.decisions) {
-          throw new Error("Invalid file shape");
-        }
-        setStore(
-          normalizeStore({
-            ...parsed,
-            meta: {
-              ...(parsed.meta || {}),
-              version: 1,
-              updatedAt: new Date().toISOString(),
-            },
-          })
-        );
-      } catch {
-        alert("Import failed. Please upload a valid exported JSON file.");
+// With `force`, updates are applied even over local edits (used for the copy of
+// the store that mirrors the server, which already has the other tab's values).
+function applyTabMessage(local: Store, msg: TabSyncMessage, force = false): { store: Store; conflicts: TabConflict[]; settled: string[] } {
+  const next: any = { ...local };
+  const conflicts: TabConflict[] = [];
+  const settled: string[] = [];
+
+  for (const op of msg.ops) {
+    const list: any[] = next[op.collection];
+    if (op.kind === "insert") {
+      if (!list.some((r) => r.id === op.id)) next[op.collection] = [op.record, ...list];
+      continue;
+    }
+    if (op.kind === "delete") {
+      next[op.collection] = list.filter((r) => r.id !== op.id);
+      continue;
+    }
+
+    const current = list.find((r) => r.id === op.id);
+    if (!current) continue;
+    const previous = msg.previous[`${op.collection}/${op.id}`] || {};
+    const patch: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(op.patch)) {
+      const key = `${op.collection}/${op.id}/${field}`;
+      if (sameValue(current[field], value)) {
+        settled.push(key);
+      } else if (force || sameValue(current[field], previous[field])) {
+        patch[field] = value;
+        settled.push(key);
+      } else {
+        conflicts.push({
+          key,
+          collection: op.collection,
+          id: op.id,
+          label: recordLabel(local, op.collection, current),
+          field,
+          mine: current[field],
+          theirs: value,
+        });
       }
-    };
-    reader.readAsText(file);
+    }
+    if (Object.keys(patch).length) {
+      next[op.collection] = list.map((r) => (r.id === op.id ? { ...r, ...patch } : r));
+    }
   }
 
-  function resetAll() {
-    const ok = confirm("Reset everything to a fresh template (includes sample data)?");
-    if (!ok) return;
-    setStore(seed());
-  }
+  return { store: normalizeStore(next), conflicts, settled };
+}
 
-  async function addProject() {
-    const name = prompt("Enter project name (this will create a folder):");
-    if (name === null) return;
+function withoutConflictedFields(ops: StoreOp[], conflicts: TabConflict[]): StoreOp[] {
+  if (!conflicts.length) return ops;
+  const held = new Set(conflicts.map((c) => c.key));
+  return ops.flatMap((op): StoreOp[] => {
+    if (op.kind !== "update") return [op];
+    const patch = Object.fromEntries(Object.entries(op.patch).filter(([field]) => !held.has(`${op.collection}/${op.id}/${field}`)));
+    return Object.keys(patch).length ? [{ ...op, patch }] : [];
+  });
+}
 
-    try {
-      await fetch('http://localhost:3001/create-project-folder', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ projectName: name || "Untitled" })
-      });
-    } catch (e) {
-      console.error("Failed to create folder", e);
-      alert("Warning: Failed to create project folder on server.");
-    }
+function patchStoreRecord(s: Store, collection: Collection, id: ID, patch: Record<string, unknown>): Store {
+  return normalizeStore({
+    ...s,
+    [collection]: (s[collection] as { id: ID }[]).map((r) => (r.id === id ? { ...r, ...patch } : r)),
+  });
+}
 
-    const p: Project = {
-      id: uid("p"),
-      projectId: `SR-${new Date().getFullYear() + 1}-${String(store.projects.length + 1).padStart(2, "0")}`,
-      name: name || "",
-      institution: "",
-      region: "",
-      type: "",
-      officialLink: "",
-      keywords: [],
-      piLab: "",
-      needsOutreach: "Optional",
-      round: "",
-      ddl: "",
-      period: "",
-      funding: [],
-      eligibility: "",
-      materials: [],
-      portalStatus: "Not Open",
-      status: "Prospecting",
-      fit: 0,
-      risk: 0,
-      roi: 0,
-      priority: "Medium",
-      decision: "Maybe",
-      nextAction: "",
-      nextActionDate: "",
-      outreachIds: [],
-      materialTaskIds: [],
-      notes: "",
-    };
-    setStore((s) => normalizeStore({ ...s, projects: [p, ...s.projects] }));
-  }
+// -----------------------------
+// Record History
+// -----------------------------
 
-  async function updateProject(id: ID, patch: Partial<Project>) {
-    const oldProject = store.projects.find(p => p.id === id);
-    
-    // Handle Folder Rename
-    if (oldProject && patch.name && patch.name !== oldProject.name) {
-      try {
-        await fetch('http://localhost:3001/rename-folder', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ oldName: oldProject.name, newName: patch.name })
-        });
-        
-        // Update links for all materials in this project
-        const materialsToUpdate = store.materials.filter(m => m.targetProject === id && m.link);
-        materialsToUpdate.forEach(m => {
-          const newLink = m.link.replace(
-            `/files/${encodeURIComponent(oldProject.name)}/`, 
-            `/files/${encodeURIComponent(patch.name!)}/`
-          );
-          updateMaterial(m.id, { link: newLink });
-        });
-      } catch (e) {
-        console.error("Failed to rename folder", e);
-      }
+// Field-level audit entries recorded by the server (see server/db.js) for every
+// change to a record, including ones made by undo, imports and restores.
+
+const AUDIT_GROUP_MS = 60 * 1000;
+
+// Every keystroke is its own entry on the server; fold bursts of edits to the
+// same fields into one entry so the history reads like deliberate changes.
+function groupAuditEntries(entries: AuditEntry[]): AuditEntry[] {
+  const out: AuditEntry[] = [];
+  for (const e of entries) {
+    const last = out[out.length - 1];
+    const sameFields =
+      last &&
+      last.op === "update" &&
+      e.op === "update" &&
+      last.changes.map((c) => c.field).join() === e.changes.map((c) => c.field).join();
+    if (sameFields && Date.parse(e.at) - Date.parse(last.at) < AUDIT_GROUP_MS) {
+      out[out.length - 1] = {
+        ...last,
+        at: e.at,
+        changes: last.changes.map((c, i) => ({ ...c, new: e.changes[i].new })),
+      };
+    } else {
+      out.push(e);
     }
+  }
+  return out.filter((e) => e.op !== "update" || e.changes.some((c) => JSON.stringify(c.old) !== JSON.stringify(c.new)));
+}
 
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        projects: s.projects.map((p) => (p.id === id ? { ...p, ...patch } : p)),
-      })
-    );
+// The patch that takes `current` back to how it was just before `entries[index]`.
+function revertPatchTo(current: Record<string, unknown>, entries: AuditEntry[], index: number): Record<string, unknown> {
+  const state: Record<string, unknown> = { ...current };
+  for (let i = entries.length - 1; i >= index; i--) {
+    for (const c of entries[i].changes) state[c.field] = c.old;
   }
+  const patch: Record<string, unknown> = {};
+  for (const key of Object.keys(state)) {
+    if (key !== "id" && JSON.stringify(state[key]) !== JSON.stringify(current[key])) patch[key] = state[key];
+  }
+  return patch;
+}
 
-  async function deleteProject(id: ID) {
-    const ok = confirm("Delete this project? (linked outreach/materials will remain)");
-    if (!ok) return;
+// -----------------------------
+// Merge Import
+// -----------------------------
 
-    const project = store.projects.find(p => p.id === id);
-    if (project && project.name) {
-      const deleteFiles = confirm(`Also delete the folder "${project.name}" and all its files?`);
-      if (deleteFiles) {
-        try {
-          await fetch('http://localhost:3001/delete-folder', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ folderName: project.name })
-          });
-        } catch (e) {
-          console.error("Failed to delete folder", e);
-        }
+// Records are matched on their human-readable IDs rather than internal ids,
+// since two exports of "the same" project never share an internal id.
+
+type MergeStatus = "new" | "identical" | "changed" | "conflicting";
+
+type MergeField = {
+  field: string;
+  local: unknown;
+  incoming: unknown;
+  conflict: boolean; // both sides have a value and they differ
+};
+
+type MergeItem = {
+  key: string; // `${collection}:${incoming id}`
+  collection: Collection;
+  label: string;
+  status: MergeStatus;
+  localId: ID | null;
+  incoming: any; // relation ids already mapped onto local ids
+  fields: MergeField[];
+};
+
+type MergeChoice = { include: boolean; fields: Record<string, "local" | "incoming"> };
+
+// Relation lists are unioned on merge instead of picked field-by-field.
+const MERGE_RELATION_FIELDS = new Set(["id", "outreachIds", "materialTaskIds", "projectIds", "projectInternalId"]);
+
+function isBlankValue(v: unknown): boolean {
+  return v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
+}
+
+function buildMergePlan(local: Store, incoming: Store): MergeItem[] {
+  const idMaps: Record<Collection, Map<ID, ID>> = {
+    projects: new Map(),
+    outreach: new Map(),
+    materials: new Map(),
+    decisions: new Map(),
+    templates: new Map(),
+  };
+  const matches: Record<Collection, Map<ID, any>> = {
+    projects: new Map(),
+    outreach: new Map(),
+    materials: new Map(),
+    decisions: new Map(),
+    templates: new Map(),
+  };
+
+  const matchBy = <T extends { id: ID }>(collection: Collection, localList: T[], incomingList: T[], keyOf: (r: T) => string) => {
+    const localByKey = new Map(localList.filter((r) => keyOf(r)).map((r) => [keyOf(r), r] as const));
+    const localIds = new Set(localList.map((r) => r.id));
+    for (const r of incomingList) {
+      const hit = keyOf(r) ? localByKey.get(keyOf(r)) : undefined;
+      if (hit) {
+        matches[collection].set(r.id, hit);
+        idMaps[collection].set(r.id, hit.id);
+      } else {
+        idMaps[collection].set(r.id, localIds.has(r.id) ? uid(r.id.split("_")[0] || "id") : r.id);
       }
     }
+  };
 
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        projects: s.projects.filter((p) => p.id !== id),
-        decisions: s.decisions.filter((d) => d.projectInternalId !== id),
-        outreach: s.outreach.map((o) => ({
-          ...o,
-          projectIds: (o.projectIds || []).filter((pid) => pid !== id),
-        })),
-        materials: s.materials.map((m) =>
-          m.targetProject === id ? { ...m, targetProject: "通用" } : m
-        ),
-      })
-    );
+  matchBy("projects", local.projects, incoming.projects, (p) => p.projectId);
+  matchBy("outreach", local.outreach, incoming.outreach, (o) => o.outreachId);
+  matchBy("materials", local.materials, incoming.materials, (m) => m.taskId);
+  matchBy("templates", local.templates, incoming.templates, templateLabel);
+  // Decisions belong to a project, so they match through the project mapping.
+  const localDecisionIds = new Set(local.decisions.map((d) => d.id));
+  for (const d of incoming.decisions) {
+    const pid = idMaps.projects.get(d.projectInternalId);
+    const hit = local.decisions.find((x) => x.projectInternalId === pid);
+    if (hit) {
+      matches.decisions.set(d.id, hit);
+      idMaps.decisions.set(d.id, hit.id);
+    } else {
+      idMaps.decisions.set(d.id, localDecisionIds.has(d.id) ? uid("d") : d.id);
+    }
   }
 
-  function addOutreach(linkProjectId?: ID) {
-    const o: Outreach = {
-      id: uid("o"),
-      outreachId: `PI-${new Date().getFullYear() + 1}-${String(store.outreach.length + 1).padStart(2, "0")}`,
-      piName: "",
-      institution: "",
-      directions: [],
-      contact: "",
-      firstContact: "",
-      emailVersion: "",
-      replied: "No reply",
-      replyDate: "",
-      replySummary: "",
-      stage: "Drafting",
-      nextFollowUp: "",
-      nextAction: "",
-      projectIds: linkProjectId ? [linkProjectId] : [],
-      notes: "",
-    };
+  const mapIds = (collection: Collection, ids: ID[]) =>
+    (ids || []).map((x) => idMaps[collection].get(x)).filter(Boolean) as ID[];
+
+  const mapped: Record<Collection, any[]> = {
+    projects: incoming.projects.map((p) => ({
+      ...p,
+      id: idMaps.projects.get(p.id)!,
+      outreachIds: mapIds("outreach", p.outreachIds),
+      materialTaskIds: mapIds("materials", p.materialTaskIds),
+    })),
+    outreach: incoming.outreach.map((o) => ({
+      ...o,
+      id: idMaps.outreach.get(o.id)!,
+      projectIds: mapIds("projects", o.projectIds),
+    })),
+    materials: incoming.materials.map((m) => ({
+      ...m,
+      id: idMaps.materials.get(m.id)!,
+      targetProject: m.targetProject === "通用" ? "通用" : idMaps.projects.get(m.targetProject) || "通用",
+    })),
+    decisions: incoming.decisions.map((d) => ({
+      ...d,
+      id: idMaps.decisions.get(d.id)!,
+      projectInternalId: idMaps.projects.get(d.projectInternalId)!,
+    })),
+    templates: incoming.templates.map((t) => ({ ...t, id: idMaps.templates.get(t.id)! })),
+  };
 
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        outreach: [o, ...s.outreach],
-        projects: linkProjectId
-          ? s.projects.map((p) =>
-              p.id === linkProjectId
-                ? { ...p, outreachIds: Array.from(new Set([...(p.outreachIds || []), o.id])) }
-                : p
-            )
-          : s.projects,
-      })
-    );
-  }
+  const projectLabel = (pid: ID) => {
+    const p = local.projects.find((x) => x.id === pid) || mapped.projects.find((x) => x.id === pid);
+    return p ? p.projectId : "?";
+  };
+  const labelOf: Record<Collection, (r: any) => string> = {
+    projects: (p) => `${p.projectId} · ${p.name || "(untitled)"}`,
+    outreach: (o) => `${o.outreachId} · ${o.piName || "(unnamed)"}`,
+    materials: (m) => `${m.taskId} · ${m.type}`,
+    decisions: (d) => `Decision · ${projectLabel(d.projectInternalId)}`,
+    templates: templateLabel,
+  };
 
-  function updateOutreach(id: ID, patch: Partial<Outreach>) {
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        outreach: s.outreach.map((o) => (o.id === id ? { ...o, ...patch } : o)),
-      })
-    );
-  }
+  const items: MergeItem[] = [];
+  COLLECTIONS.forEach((collection) => {
+    incoming[collection].forEach((orig: { id: ID }, idx: number) => {
+      const rec = mapped[collection][idx];
+      const localRec = matches[collection].get(orig.id);
+      const key = `${collection}:${orig.id}`;
+      if (!localRec) {
+        items.push({ key, collection, label: labelOf[collection](rec), status: "new", localId: null, incoming: rec, fields: [] });
+        return;
+      }
 
-  function linkOutreachToProject(outreachId: ID, projectId: ID) {
-    setStore((s) => {
-      const o = s.outreach.find((x) => x.id === outreachId);
-      const p = s.projects.find((x) => x.id === projectId);
-      if (!o || !p) return s;
+      const fields: MergeField[] = [];
+      for (const field of new Set([...Object.keys(localRec), ...Object.keys(rec)])) {
+        if (MERGE_RELATION_FIELDS.has(field)) continue;
+        const a = localRec[field];
+        const b = rec[field];
+        if (JSON.stringify(a) === JSON.stringify(b) || isBlankValue(b)) continue;
+        fields.push({ field, local: a, incoming: b, conflict: !isBlankValue(a) });
+      }
+      items.push({
+        key,
+        collection,
+        label: labelOf[collection](localRec),
+        status: !fields.length ? "identical" : fields.some((f) => f.conflict) ? "conflicting" : "changed",
+        localId: localRec.id,
+        incoming: rec,
+        fields,
+      });
+    });
+  });
+  return items;
+}
 
-      const nextOutreach = s.outreach.map((x) =>
-        x.id === outreachId
-          ? { ...x, projectIds: Array.from(new Set([...(x.projectIds || []), projectId])) }
-          : x
-      );
+function defaultMergeChoices(items: MergeItem[]): Record<string, MergeChoice> {
+  return Object.fromEntries(
+    items.map((item) => [
+      item.key,
+      {
+        include: true,
+        // Fill blanks from the import, but keep local values on real conflicts.
+        fields: Object.fromEntries(item.fields.map((f) => [f.field, f.conflict ? "local" : "incoming"])),
+      },
+    ])
+  );
+}
 
-      const nextProjects = s.projects.map((x) =>
-        x.id === projectId
-          ? { ...x, outreachIds: Array.from(new Set([...(x.outreachIds || []), outreachId])) }
-          : x
-      );
+function applyMergePlan(local: Store, items: MergeItem[], choices: Record<string, MergeChoice>): Store {
+  const next: Record<Collection, any[]> = {
+    projects: [...local.projects],
+    outreach: [...local.outreach],
+    materials: [...local.materials],
+    decisions: [...local.decisions],
+    templates: [...local.templates],
+  };
+  const union = (a: ID[] = [], b: ID[] = []) => Array.from(new Set([...a, ...b]));
 
-      return normalizeStore({ ...s, outreach: nextOutreach, projects: nextProjects });
-    });
-  }
+  for (const item of items) {
+    const choice = choices[item.key];
+    if (!choice?.include) continue;
 
-  function deleteOutreach(id: ID) {
-    const ok = confirm("Delete this outreach record?");
-    if (!ok) return;
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        outreach: s.outreach.filter((o) => o.id !== id),
-        projects: s.projects.map((p) => ({
-          ...p,
-          outreachIds: (p.outreachIds || []).filter((oid) => oid !== id),
-        })),
-      })
-    );
+    if (!item.localId) {
+      next[item.collection] = [...next[item.collection], item.incoming];
+      continue;
+    }
+
+    next[item.collection] = next[item.collection].map((r) => {
+      if (r.id !== item.localId) return r;
+      const merged = { ...r };
+      for (const f of item.fields) {
+        if (choice.fields[f.field] === "incoming") merged[f.field] = f.incoming;
+      }
+      if (item.collection === "projects") {
+        merged.outreachIds = union(r.outreachIds, item.incoming.outreachIds);
+        merged.materialTaskIds = union(r.materialTaskIds, item.incoming.materialTaskIds);
+      } else if (item.collection === "outreach") {
+        merged.projectIds = union(r.projectIds, item.incoming.projectIds);
+      }
+      return merged;
+    });
   }
 
-  function addMaterial(linkProjectId?: ID) {
-    const m: MaterialTask = {
-      id: uid("m"),
-      taskId: `MAT-${String(store.materials.length + 1).padStart(2, "0")}`,
-      type: "CV",
-      targetProject: linkProjectId || "通用",
-      status: "未开始",
-      version: "v1",
-      due: "",
-      dependency: "",
-      link: "",
-      notes: "",
-    };
+  // normalizeStore rebuilds the two-way links and drops ones pointing at skipped records.
+  return normalizeStore({ ...local, ...next, meta: local.meta });
+}
 
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        materials: [m, ...s.materials],
-        projects: linkProjectId
-          ? s.projects.map((p) =>
-              p.id === linkProjectId
-                ? { ...p, materialTaskIds: Array.from(new Set([...(p.materialTaskIds || []), m.id])) }
-                : p
-            )
-          : s.projects,
-      })
-    );
-  }
+// -----------------------------
+// Constants
+// -----------------------------
 
-  async function updateMaterial(id: ID, patch: Partial<MaterialTask>) {
-    const current = store.materials.find((m) => m.id === id);
-    if (!current) return;
+const STATUS_LIST: ProjectStatus[] = [
+  "Prospecting",
+  "Need Outreach",
+  "Preparing",
+  "Submitted",
+  "Interview",
+  "Offer",
+  "Rejected",
+  "Closed",
+];
 
-    // Handle File Move/Rename
-    if (current.link && (patch.targetProject || patch.type)) {
-      const oldProjectName = current.targetProject === "通用" 
-        ? "General" 
-        : store.projects.find(p => p.id === current.targetProject)?.name || "General";
-      
-      const newTargetId = patch.targetProject !== undefined ? patch.targetProject : current.targetProject;
-      const newProjectName = newTargetId === "通用"
-        ? "General"
-        : store.projects.find(p => p.id === newTargetId)?.name || "General";
+const PRIORITIES: Priority[] = ["High", "Medium", "Low"];
 
-      const oldType = current.type;
-      const newType = patch.type !== undefined ? patch.type : oldType;
+const DECISION_OPTIONS: SelectOption[] = [
+  { value: "Apply", label: "Apply" },
+  { value: "Maybe", label: "Maybe" },
+  { value: "No", label: "No" },
+];
 
-      // Extract filename from link (assuming format .../files/Project/Filename.ext)
-      const urlParts = current.link.split('/');
-      const oldFilename = decodeURIComponent(urlParts[urlParts.length - 1]);
-      const ext = oldFilename.includes('.') ? '.' + oldFilename.split('.').pop() : '';
-      
-      // If type changed, new filename changes
-      const newFilename = (patch.type && patch.type !== oldType) 
-        ? `${newType}${ext}` 
-        : oldFilename;
+// -----------------------------
+// CSV Import
+// -----------------------------
 
-      if (oldProjectName !== newProjectName || oldFilename !== newFilename) {
-        try {
-          const res = await fetch('http://localhost:3001/move-file', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              oldPath: `${oldProjectName}/${oldFilename}`,
-              newPath: `${newProjectName}/${newFilename}`
-            })
-          });
-          
-          if (res.ok) {
-            // Update link in patch
-            const newLink = `http://localhost:3001/files/${encodeURIComponent(newProjectName)}/${encodeURIComponent(newFilename)}`;
-            patch.link = newLink;
-          }
-        } catch (e) {
-          console.error("Failed to move file", e);
-        }
-      }
-    }
+type CsvFieldKind = "text" | "list" | "date" | "score" | "enum";
 
-    setStore((s) => {
-      const current = s.materials.find((m) => m.id === id);
-      if (!current) return s;
+type CsvField = {
+  key: keyof Project;
+  label: string;
+  kind: CsvFieldKind;
+  options?: readonly string[];
+  aliases: string[]; // normalized header names that map here automatically
+};
 
-      const oldTarget = current.targetProject;
-      const newTarget = patch.targetProject !== undefined ? patch.targetProject : oldTarget;
+const CSV_PROJECT_FIELDS: CsvField[] = [
+  { key: "projectId", label: "Project ID", kind: "text", aliases: ["projectid", "id", "code"] },
+  { key: "name", label: "Name", kind: "text", aliases: ["name", "program", "programname", "project", "projectname", "title"] },
+  { key: "institution", label: "Institution", kind: "text", aliases: ["institution", "university", "school", "organization"] },
+  { key: "region", label: "Region", kind: "text", aliases: ["region", "location", "country"] },
+  { key: "type", label: "Type", kind: "text", aliases: ["type", "programtype"] },
+  { key: "officialLink", label: "Official Link", kind: "text", aliases: ["officiallink", "link", "url", "website"] },
+  { key: "keywords", label: "Keywords", kind: "list", aliases: ["keywords", "tags", "fields", "topics"] },
+  { key: "piLab", label: "PI / Lab", kind: "text", aliases: ["pilab", "pi", "lab", "advisor"] },
+  { key: "needsOutreach", label: "Needs Outreach", kind: "enum", options: ["Yes", "No", "Optional"], aliases: ["needsoutreach", "outreach"] },
+  { key: "round", label: "Round", kind: "text", aliases: ["round"] },
+  { key: "ddl", label: "DDL", kind: "date", aliases: ["ddl", "deadline", "duedate", "due"] },
+  { key: "period", label: "Period", kind: "text", aliases: ["period", "dates", "duration"] },
+  { key: "funding", label: "Funding", kind: "list", aliases: ["funding", "stipend"] },
+  { key: "eligibility", label: "Eligibility", kind: "text", aliases: ["eligibility", "requirements"] },
+  { key: "materials", label: "Materials Needed", kind: "list", aliases: ["materials", "materialsneeded", "documents"] },
+  { key: "portalStatus", label: "Portal Status", kind: "enum", options: ["Not Open", "Open", "Closed"], aliases: ["portalstatus", "portal"] },
+  { key: "status", label: "Status", kind: "enum", options: STATUS_LIST, aliases: ["status"] },
+  { key: "fit", label: "Fit", kind: "score", aliases: ["fit"] },
+  { key: "risk", label: "Risk", kind: "score", aliases: ["risk"] },
+  { key: "roi", label: "ROI", kind: "score", aliases: ["roi"] },
+  { key: "priority", label: "Priority", kind: "enum", options: PRIORITIES, aliases: ["priority"] },
+  { key: "decision", label: "Decision", kind: "enum", options: ["Apply", "Maybe", "No"], aliases: ["decision"] },
+  { key: "nextAction", label: "Next Action", kind: "text", aliases: ["nextaction", "todo"] },
+  { key: "nextActionDate", label: "Next Action Date", kind: "date", aliases: ["nextactiondate", "actiondate"] },
+  { key: "notes", label: "Notes", kind: "text", aliases: ["notes", "comments", "remarks"] },
+];
 
-      const nextMaterials = s.materials.map((m) => (m.id === id ? { ...m, ...patch } : m));
+type CsvOptions = {
+  delimiter: string;
+  hasHeader: boolean;
+  listSeparator: string;
+  dateOrder: "MDY" | "DMY";
+  updateExisting: boolean;
+};
 
-      let nextProjects = s.projects;
-      if (newTarget !== oldTarget) {
-        nextProjects = s.projects.map((p) => {
-          let ids = Array.isArray(p.materialTaskIds) ? p.materialTaskIds : [];
-          if (oldTarget !== "通用" && p.id === oldTarget) ids = ids.filter((mid) => mid !== id);
-          if (newTarget !== "通用" && p.id === newTarget) ids = Array.from(new Set([...ids, id]));
-          return ids === p.materialTaskIds ? p : { ...p, materialTaskIds: ids };
-        });
-      }
+function normalizeHeader(h: string): string {
+  return h.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
 
-      return normalizeStore({ ...s, materials: nextMaterials, projects: nextProjects });
-    });
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const counts = ["\t", ",", ";"].map((d) => [d, firstLine.split(d).length - 1] as const);
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0][1] > 0 ? counts[0][0] : ",";
+}
+
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (inQuotes) {
+      if (c !== '"') field += c;
+      else if (src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+    } else if (c === '"' && field === "") {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
   }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
 
-  async function deleteMaterial(id: ID) {
-    const ok = confirm("Delete this material task?");
-    if (!ok) return;
+// Returns MM/DD/YYYY (the format SmartDateInput commits), "" for blank, or null if unreadable.
+function parseFlexibleDate(raw: string, order: "MDY" | "DMY"): string | null {
+  const v = raw.trim();
+  if (!v) return "";
+  const out = (y: number, m: number, d: number) =>
+    validateDate(y, m, d) ? `${String(m).padStart(2, "0")}/${String(d).padStart(2, "0")}/${y}` : null;
+
+  const iso = v.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return out(+iso[1], +iso[2], +iso[3]);
+
+  const parts = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (parts) {
+    let a = +parts[1];
+    let b = +parts[2];
+    const y = parts[3].length === 2 ? 2000 + +parts[3] : +parts[3];
+    if (order === "DMY") [a, b] = [b, a];
+    // An unambiguous day beats the chosen order (13/02/2026 can only be DMY).
+    if (a > 12 && b <= 12) [a, b] = [b, a];
+    return out(y, a, b);
+  }
 
-    const task = store.materials.find(m => m.id === id);
-    if (task && task.link) {
-      const deleteFile = confirm("Also delete the associated file?");
-      if (deleteFile) {
-        try {
-          const urlParts = task.link.split('/');
-          const filename = decodeURIComponent(urlParts[urlParts.length - 1]);
-          const projectName = task.targetProject === "通用" 
-            ? "General" 
-            : store.projects.find(p => p.id === task.targetProject)?.name || "General";
-            
-          await fetch('http://localhost:3001/delete-file', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ filePath: `${projectName}/${filename}` })
-          });
-        } catch (e) {
-          console.error("Failed to delete file", e);
+  // Spreadsheet serial day numbers (days since 1899-12-30)
+  if (/^\d{5}$/.test(v)) {
+    const d = new Date(Date.UTC(1899, 11, 30) + Number(v) * 86400000);
+    return out(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+  }
+
+  // Month names: "Feb 22, 2026", "22 February 2026"
+  if (/[a-z]/i.test(v)) {
+    const t = new Date(v);
+    if (!isNaN(t.getTime())) return out(t.getFullYear(), t.getMonth() + 1, t.getDate());
+  }
+  return null;
+}
+
+function guessCsvMapping(headers: string[]): (keyof Project | null)[] {
+  const used = new Set<keyof Project>();
+  return headers.map((h) => {
+    const n = normalizeHeader(h);
+    const f = CSV_PROJECT_FIELDS.find((x) => !used.has(x.key) && (normalizeHeader(x.key) === n || x.aliases.includes(n)));
+    if (!f) return null;
+    used.add(f.key);
+    return f.key;
+  });
+}
+
+type CsvRowResult = {
+  rowNumber: number; // 1-based line in the file
+  values: Partial<Project>;
+  errors: string[];
+  existingId: ID | null;
+};
+
+function validateCsvRows(
+  rows: string[][],
+  mapping: (keyof Project | null)[],
+  options: CsvOptions,
+  existing: Project[]
+): CsvRowResult[] {
+  const byCode = new Map(existing.filter((p) => p.projectId).map((p) => [p.projectId, p] as const));
+  const seenCodes = new Set<string>();
+  const firstLine = options.hasHeader ? 2 : 1;
+
+  return rows.map((row, idx) => {
+    const values: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    mapping.forEach((key, col) => {
+      if (!key) return;
+      const field = CSV_PROJECT_FIELDS.find((f) => f.key === key)!;
+      const raw = (row[col] ?? "").trim();
+      switch (field.kind) {
+        case "text":
+          values[key] = raw;
+          break;
+        case "list":
+          values[key] = raw ? raw.split(options.listSeparator).map((x) => x.trim()).filter(Boolean) : [];
+          break;
+        case "date": {
+          const d = parseFlexibleDate(raw, options.dateOrder);
+          if (d === null) errors.push(`${field.label}: cannot read date "${raw}"`);
+          else values[key] = d;
+          break;
+        }
+        case "score": {
+          if (!raw) break;
+          const n = Number(raw);
+          if (!Number.isFinite(n) || n < 0 || n > 10) errors.push(`${field.label}: "${raw}" is not a number from 0 to 10`);
+          else values[key] = clamp01_10(n);
+          break;
+        }
+        case "enum": {
+          if (!raw) break;
+          const hit = field.options!.find((o) => normalizeHeader(o) === normalizeHeader(raw));
+          if (!hit) errors.push(`${field.label}: "${raw}" is not one of ${field.options!.join(", ")}`);
+          else values[key] = hit;
+          break;
         }
       }
-    }
+    });
 
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        materials: s.materials.filter((m) => m.id !== id),
-        projects: s.projects.map((p) => ({
-          ...p,
-          materialTaskIds: (p.materialTaskIds || []).filter((mid) => mid !== id),
-        })),
-      })
-    );
-  }
+    const code = String(values.projectId || "");
+    if (!code && !values.name) errors.push("Row has neither a Name nor a Project ID");
+    if (code && seenCodes.has(code)) errors.push(`Project ID ${code} appears more than once in the file`);
+    if (code) seenCodes.add(code);
 
-  function ensureDecisionForProject(pid: ID) {
-    const existing = store.decisions.find((d) => d.projectInternalId === pid);
-    if (existing) return existing.id;
+    const match = code ? byCode.get(code) : undefined;
+    if (match && !options.updateExisting) errors.push(`Project ID ${code} already exists`);
 
-    const p = projectsById.get(pid);
-    const d: Decision = {
-      id: uid("d"),
-      projectInternalId: pid,
-      conclusion: p?.decision || "Maybe",
-      priority: p?.priority || "Medium",
-      whyApply: "",
-      risks: "",
-      fitEvidence: "",
-      strategy: "",
-      postResult: "",
-      timeline: "",
-      worked: "",
-      didnt: "",
-      improvements: "",
-      takeaways: "",
-    };
+    return { rowNumber: idx + firstLine, values: values as Partial<Project>, errors, existingId: match ? match.id : null };
+  });
+}
 
-    setStore((s) => normalizeStore({ ...s, decisions: [d, ...s.decisions] }));
-    return d.id;
-  }
+// -----------------------------
+// Workbook Export
+// -----------------------------
 
-  function updateDecision(id: ID, patch: Partial<Decision>) {
-    setStore((s) =>
-      normalizeStore({
-        ...s,
-        decisions: s.decisions.map((d) => (d.id === id ? { ...d, ...patch } : d)),
-      })
-    );
-  }
+// Stored dates are free-form (SmartDateInput commits MM/DD/YYYY, older data has
+// ISO strings); anything readable becomes a real date cell, the rest stays text.
+function workbookDate(raw: string): CellValue {
+  const d = parseFlexibleDate(raw || "", "MDY");
+  if (!d) return raw || "";
+  const [m, day, y] = d.split("/").map(Number);
+  return new Date(Date.UTC(y, m - 1, day));
+}
 
-  const filterStatusOptions: SelectOption[] = [
-    { value: "ALL", label: "ALL" },
-    ...STATUS_LIST.map((s) => ({ value: s, label: s })),
+function buildWorkbookSheets(store: Store): Sheet[] {
+  const projectCode = new Map(store.projects.map((p) => [p.id, p.projectId || p.name] as const));
+  const projectName = new Map(store.projects.map((p) => [p.id, p.name] as const));
+  const outreachCode = new Map(store.outreach.map((o) => [o.id, o.outreachId || o.piName] as const));
+  const taskCode = new Map(store.materials.map((m) => [m.id, m.taskId || m.type] as const));
+  const refs = (ids: ID[], lookup: Map<ID, string>) =>
+    (ids || []).map((id) => lookup.get(id)).filter(Boolean).join("; ");
+  const list = (xs: string[]) => (xs || []).join("; ");
+
+  return [
+    {
+      name: "Projects",
+      columns: [
+        "ProjectID", "Name", "Institution", "Region", "Type", "DDL", "Period", "Funding", "Eligibility",
+        "Materials", "Portal Status", "Status", "Fit", "Risk", "ROI", "Priority", "Decision", "Next Action",
+        "Next Action Date", "Outreach", "Material Tasks", "Official Link", "Keywords", "PI / Lab",
+        "Needs Outreach", "Round", "Notes",
+      ],
+      rows: store.projects.map((p) => [
+        p.projectId, p.name, p.institution, p.region, p.type, workbookDate(p.ddl), p.period, list(p.funding),
+        p.eligibility, list(p.materials), p.portalStatus, p.status, p.fit, p.risk, p.roi, p.priority, p.decision,
+        p.nextAction, workbookDate(p.nextActionDate), refs(p.outreachIds, outreachCode),
+        refs(p.materialTaskIds, taskCode), p.officialLink, list(p.keywords), p.piLab, p.needsOutreach, p.round,
+        p.notes,
+      ]),
+    },
+    {
+      name: "Outreach",
+      columns: [
+        "OutreachID", "PI", "Institution", "Directions", "Contact", "First Contact", "Email Version", "Replied",
+        "Reply Date", "Reply Summary", "Stage", "Next Follow-up", "Next Action", "Projects", "Notes",
+      ],
+      rows: store.outreach.map((o) => [
+        o.outreachId, o.piName, o.institution, list(o.directions), o.contact, workbookDate(o.firstContact),
+        o.emailVersion, o.replied, workbookDate(o.replyDate), o.replySummary, o.stage, workbookDate(o.nextFollowUp),
+        o.nextAction, refs(o.projectIds, projectCode), o.notes,
+      ]),
+    },
+    {
+      name: "Materials",
+      columns: ["TaskID", "Type", "Project", "Status", "Version", "Due", "Dependency", "Link", "File", "Notes"],
+      rows: store.materials.map((m) => [
+        m.taskId, m.type, m.targetProject === "通用" ? "通用" : projectCode.get(m.targetProject) || "", m.status,
+        m.version, workbookDate(m.due), m.dependency, m.link, m.fileName || "", m.notes,
+      ]),
+    },
+    {
+      name: "Decisions",
+      columns: [
+        "ProjectID", "Project", "Conclusion", "Priority", "Why Apply", "Risks", "Fit Evidence", "Strategy",
+        "Post Result", "Timeline", "Worked", "Didn't", "Improvements", "Takeaways",
+      ],
+      rows: store.decisions.map((d) => [
+        projectCode.get(d.projectInternalId) || "", projectName.get(d.projectInternalId) || "", d.conclusion,
+        d.priority, d.whyApply, d.risks, d.fitEvidence, d.strategy, d.postResult, d.timeline, d.worked, d.didnt,
+        d.improvements, d.takeaways,
+      ]),
+    },
   ];
+}
 
-  const filterPriorityOptions: SelectOption[] = [
-    { value: "ALL", label: "ALL" },
-    ...PRIORITIES.map((p) => ({ value: p, label: p })),
-  ];
+// -----------------------------
+// Project Reports
+// -----------------------------
 
-  const filterDecisionOptions: SelectOption[] = [
-    { value: "ALL", label: "ALL" },
-    { value: "Apply", label: "Apply" },
-    { value: "Maybe", label: "Maybe" },
-    { value: "No", label: "No" },
+// A report is a list of blocks rendered either as Markdown or as a print-ready
+// HTML page (the browser's "Save as PDF" turns that into the PDF).
+
+type ReportBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "fields"; rows: [string, string][] }
+  | { kind: "table"; columns: string[]; rows: string[][] }
+  | { kind: "text"; text: string }
+  | { kind: "pagebreak" };
+
+const DECISION_REPORT_FIELDS: [keyof Decision, string][] = [
+  ["whyApply", "Why apply"],
+  ["risks", "Risks"],
+  ["fitEvidence", "Fit evidence"],
+  ["strategy", "Strategy"],
+  ["timeline", "Timeline"],
+  ["worked", "What worked"],
+  ["didnt", "What didn't"],
+  ["improvements", "Improvements"],
+  ["takeaways", "Takeaways"],
+];
+
+function projectReportBlocks(store: Store, p: Project): ReportBlock[] {
+  const list = (xs: string[]) => (xs || []).join(", ");
+  const outreach = store.outreach.filter((o) => (p.outreachIds || []).includes(o.id));
+  const materials = store.materials.filter((m) => (p.materialTaskIds || []).includes(m.id));
+  const decision = store.decisions.find((d) => d.projectInternalId === p.id);
+
+  const blocks: ReportBlock[] = [
+    { kind: "heading", level: 1, text: [p.projectId, p.name].filter(Boolean).join(" · ") || "Untitled project" },
+    {
+      kind: "fields",
+      rows: [
+        ["Institution", p.institution],
+        ["Region", p.region],
+        ["Type", p.type],
+        ["Round", p.round],
+        ["Period", p.period],
+        ["DDL", p.ddl],
+        ["Portal", p.portalStatus],
+        ["Status", p.status],
+        ["Priority", p.priority],
+        ["Decision", p.decision],
+        ["PI / Lab", p.piLab],
+        ["Needs outreach", p.needsOutreach],
+        ["Keywords", list(p.keywords)],
+        ["Funding", list(p.funding)],
+        ["Materials needed", list(p.materials)],
+        ["Next action", [p.nextAction, p.nextActionDate && `(${p.nextActionDate})`].filter(Boolean).join(" ")],
+        ["Official link", p.officialLink],
+      ],
+    },
+    { kind: "heading", level: 2, text: "Scores" },
+    {
+      kind: "table",
+      columns: ["Fit", "Risk", "ROI"],
+      rows: [[String(p.fit), String(p.risk), String(p.roi)]],
+    },
+    { kind: "heading", level: 2, text: "Eligibility" },
+    { kind: "text", text: p.eligibility || "—" },
+    { kind: "heading", level: 2, text: `Outreach (${outreach.length})` },
   ];
 
+  blocks.push(
+    outreach.length
+      ? {
+          kind: "table",
+          columns: ["ID", "PI", "Stage", "First contact", "Reply", "Reply summary"],
+          rows: outreach.map((o) => [
+            o.outreachId,
+            o.piName,
+            o.stage,
+            o.firstContact,
+            [o.replied, o.replyDate].filter(Boolean).join(" · "),
+            o.replySummary,
+          ]),
+        }
+      : { kind: "text", text: "No linked outreach." },
+    { kind: "heading", level: 2, text: `Materials (${materials.filter((m) => m.status === "已提交").length}/${materials.length} submitted)` },
+    materials.length
+      ? {
+          kind: "table",
+          columns: ["Done", "Task", "Type", "Status", "Version", "Due"],
+          rows: materials.map((m) => [m.status === "已提交" ? "☑" : "☐", m.taskId, m.type, m.status, m.version, m.due]),
+        }
+      : { kind: "text", text: "No linked material tasks." },
+    { kind: "heading", level: 2, text: "Decision" }
+  );
 
-  return (
-    <div className="min-h-screen w-full bg-gradient-to-br from-background to-muted/20">
-      <div className="mx-auto max-w-7xl px-4 py-6 md:px-6 lg:px-8 space-y-8">
-        {/* Header */}
-        <div className="flex flex-col gap-6 pb-6 border-b border-border/50 bg-card/50 backdrop-blur-sm rounded-lg p-6 shadow-sm">
-          <div>
-            <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
-              Summer Research Application Tracker
-            </h1>
-            <p className="text-muted-foreground mt-2 text-base">
-              Notion-like databases + dashboard · Local-only (saved to browser) · Export/Import JSON
-            </p>
-          </div>
+  if (decision) {
+    blocks.push({
+      kind: "fields",
+      rows: [
+        ["Conclusion", decision.conclusion],
+        ["Priority", decision.priority],
+        ["Post result", decision.postResult],
+      ],
+    });
+    for (const [key, label] of DECISION_REPORT_FIELDS) {
+      blocks.push({ kind: "heading", level: 3, text: label }, { kind: "text", text: String(decision[key] || "—") });
+    }
+  } else {
+    blocks.push({ kind: "text", text: "No decision recorded." });
+  }
 
-          <div className="flex items-center gap-3 flex-wrap">
-            <div className="relative flex-1 min-w-[240px] max-w-[320px]">
-              <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                value={q}
-                onChange={(e) => setQ(e.target.value)}
-                placeholder="Search projects / PIs / keywords..."
-                className="pl-10 h-11 border-border/50 focus:border-primary/50 transition-colors"
-              />
-            </div>
+  if (p.notes) blocks.push({ kind: "heading", level: 2, text: "Notes" }, { kind: "text", text: p.notes });
+  return blocks;
+}
 
-            <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 rounded-md">
-              <Checkbox 
-                id="upcoming-filter"
-                checked={showOnlyUpcoming} 
-                onCheckedChange={(v) => setShowOnlyUpcoming(Boolean(v))} 
-                className="data-[state=checked]:bg-primary data-[state=checked]:border-primary"
-              />
-              <Label htmlFor="upcoming-filter" className="text-sm font-medium cursor-pointer select-none">
-                Upcoming only
-              </Label>
-            </div>
+// One document for the selected projects, each starting on a new printed page.
+function buildProjectReport(store: Store, projectIds: ID[]): ReportBlock[] {
+  const projects = store.projects.filter((p) => projectIds.includes(p.id));
+  return projects.flatMap((p, i) => [
+    ...(i ? [{ kind: "pagebreak" } as const] : []),
+    ...projectReportBlocks(store, p),
+  ]);
+}
 
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="gap-2 h-10 px-4">
-                  <Filter className="h-4 w-4" /> Filters
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-[260px]">
-                <DropdownMenuLabel>Project Filters</DropdownMenuLabel>
-                <DropdownMenuSeparator />
+function markdownCell(s: string): string {
+  return (s || "").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>") || " ";
+}
 
-                <div className="px-2 py-2 space-y-2">
-                  <Label className="text-xs" htmlFor="filter_status">
-                    Status
-                  </Label>
-                  <SelectBox
-                    id="filter_status"
-                    value={statusFilter}
-                    onValueChange={(v) => setStatusFilter(v as any)}
-                    options={filterStatusOptions}
-                    className="h-10"
-                  />
+function reportMarkdown(blocks: ReportBlock[]): string {
+  const out: string[] = [];
+  for (const b of blocks) {
+    switch (b.kind) {
+      case "heading":
+        out.push(`${"#".repeat(b.level)} ${b.text}`);
+        break;
+      case "fields":
+        out.push(b.rows.filter(([, v]) => v).map(([k, v]) => `- **${k}:** ${v.replace(/\r?\n/g, " ")}`).join("\n"));
+        break;
+      case "table":
+        out.push(
+          [
+            `| ${b.columns.map(markdownCell).join(" | ")} |`,
+            `| ${b.columns.map(() => "---").join(" | ")} |`,
+            ...b.rows.map((r) => `| ${r.map(markdownCell).join(" | ")} |`),
+          ].join("\n")
+        );
+        break;
+      case "text":
+        out.push(b.text);
+        break;
+      case "pagebreak":
+        out.push("---");
+        break;
+    }
+  }
+  return out.join("\n\n") + "\n";
+}
 
-                  <Label className="text-xs" htmlFor="filter_priority">
-                    Priority
-                  </Label>
-                  <SelectBox
-                    id="filter_priority"
-                    value={priorityFilter}
-                    onValueChange={(v) => setPriorityFilter(v as any)}
-                    options={filterPriorityOptions}
-                    className="h-10"
-                  />
+function htmlEscape(s: string): string {
+  return (s || "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
 
-                  <Label className="text-xs" htmlFor="filter_decision">
-                    Decision
-                  </Label>
-                  <SelectBox
-                    id="filter_decision"
-                    value={decisionFilter}
-                    onValueChange={(v) => setDecisionFilter(v as any)}
-                    options={filterDecisionOptions}
-                    className="h-10"
-                  />
-                </div>
-              </DropdownMenuContent>
-            </DropdownMenu>
+function reportHtml(title: string, blocks: ReportBlock[]): string {
+  const body = blocks
+    .map((b) => {
+      switch (b.kind) {
+        case "heading":
+          return `<h${b.level}>${htmlEscape(b.text)}</h${b.level}>`;
+        case "fields":
+          return `<dl>${b.rows
+            .filter(([, v]) => v)
+            .map(([k, v]) => `<dt>${htmlEscape(k)}</dt><dd>${htmlEscape(v)}</dd>`)
+            .join("")}</dl>`;
+        case "table":
+          return `<table><thead><tr>${b.columns.map((c) => `<th>${htmlEscape(c)}</th>`).join("")}</tr></thead><tbody>${b.rows
+            .map((r) => `<tr>${r.map((c) => `<td>${htmlEscape(c)}</td>`).join("")}</tr>`)
+            .join("")}</tbody></table>`;
+        case "text":
+          return `<p>${htmlEscape(b.text)}</p>`;
+        case "pagebreak":
+          return `<div class="page-break"></div>`;
+      }
+    })
+    .join("\n");
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${htmlEscape(title)}</title>
+<style>
+  @page { size: A4; margin: 18mm; }
+  body { font: 11pt/1.45 -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #111; }
+  h1 { font-size: 18pt; margin: 0 0 8pt; border-bottom: 2px solid #111; padding-bottom: 4pt; }
+  h2 { font-size: 13pt; margin: 14pt 0 6pt; }
+  h3 { font-size: 11pt; margin: 10pt 0 2pt; }
+  h2, h3 { break-after: avoid; }
+  p { margin: 0 0 6pt; white-space: pre-wrap; }
+  dl { display: grid; grid-template-columns: 9em 1fr; gap: 2pt 10pt; margin: 0; }
+  dt { color: #555; }
+  dd { margin: 0; word-break: break-word; }
+  table { width: 100%; border-collapse: collapse; font-size: 10pt; }
+  th, td { border: 1px solid #bbb; padding: 3pt 5pt; text-align: left; vertical-align: top; white-space: pre-wrap; }
+  th { background: #f0f0f0; }
+  tr { break-inside: avoid; }
+  .page-break { break-before: page; }
+</style></head>
+<body>
+${body}
+</body></html>`;
+}
 
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="gap-2 h-10 px-4">
-                  <Settings className="h-4 w-4" /> Data
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-[260px]">
-                <DropdownMenuLabel>Export / Import</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={exportJSON} className="gap-2">
-                  <Download className="h-4 w-4" /> Export JSON
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={exportProjectsCSV} className="gap-2">
-                  <Download className="h-4 w-4" /> Export Projects CSV
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={triggerImport} className="gap-2">
-                  <Upload className="h-4 w-4" /> Import JSON
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={resetAll} className="gap-2 text-destructive">
-                  <Trash2 className="h-4 w-4" /> Reset
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+// Prints through a hidden frame so no popup is needed; "Save as PDF" in the print dialog gives the PDF.
+function printReport(title: string, blocks: ReportBlock[]) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = reportHtml(title, blocks);
+  document.body.appendChild(frame);
+}
 
-            <SettingsDialog />
+// -----------------------------
+// Email Templates
+// -----------------------------
 
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="application/json"
-              className="hidden"
-              onChange={(e) => {
-                const f = e.target.files?.[0];
-                if (f) handleImportFile(f);
-                e.currentTarget.value = "";
-              }}
-            />
-          </div>
-        </div>
+// Templates are records in the store, so they sync, back up and undo like the
+// rest. {{name}} placeholders are filled from an outreach record and the first of
+// its linked projects; a placeholder with no value stays in the text as is, so an
+// unfinished email is visible before it goes out.
+
+const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: "piName", description: "PI name" },
+  { name: "institution", description: "PI's institution" },
+  { name: "directions", description: "Research directions, comma-separated" },
+  { name: "contact", description: "PI contact" },
+  { name: "outreachId", description: "Outreach ID" },
+  { name: "project.name", description: "Linked project name" },
+  { name: "project.projectId", description: "Linked project ID" },
+  { name: "project.institution", description: "Linked project institution" },
+  { name: "project.piLab", description: "Linked project PI / lab" },
+  { name: "project.ddl", description: "Linked project deadline" },
+  { name: "today", description: "Today's date" },
+];
 
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="space-y-8">
-          <TabsList className="grid grid-cols-2 md:grid-cols-5 w-full h-12 bg-muted/50 p-1 rounded-xl">
-            <TabsTrigger value="dashboard" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
-              Dashboard
-            </TabsTrigger>
-            <TabsTrigger value="projects" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
-              Projects
-            </TabsTrigger>
-            <TabsTrigger value="outreach" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
-              PI Outreach
-            </TabsTrigger>
-            <TabsTrigger value="materials" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
-              Materials
-            </TabsTrigger>
-            <TabsTrigger value="decisions" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
-              Decision & Review
-            </TabsTrigger>
-          </TabsList>
+const TEMPLATE_VARIABLE_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
 
-          <TabsContent value="dashboard" className="space-y-8 mt-8">
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                    Status Overview
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  {STATUS_LIST.map((s) => (
-                    <div key={s} className="flex items-center justify-between">
-                      <div className="text-sm">{s}</div>
-                      <Pill>{dashboard.counts.get(s) || 0}</Pill>
-                    </div>
-                  ))}
-                </CardContent>
-              </Card>
+function templateLabel(t: Pick<EmailTemplate, "name" | "version">): string {
+  return `${t.name || "(untitled)"} · ${t.version}`;
+}
 
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                    Next Deadline
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {dashboard.nextDDL ? (
-                    <>
-                      <div className="text-base font-medium text-foreground">
-                        {dashboard.nextDDL.projectId} · {dashboard.nextDDL.name}
-                      </div>
-                      <div className="text-sm text-muted-foreground">
-                        {dashboard.nextDDL.institution} · {dashboard.nextDDL.region}
-                      </div>
-                      <div className="flex items-center gap-2 text-sm">
-                        <Calendar className="h-4 w-4 text-red-500" />
-                        <span className="font-medium">DDL: {dashboard.nextDDL.ddl || "—"}</span>
-                      </div>
-                      <div className="flex gap-2 flex-wrap">
-                        <Pill>{dashboard.nextDDL.status}</Pill>
-                        <Pill>{dashboard.nextDDL.priority}</Pill>
-                        <Pill>Fit {dashboard.nextDDL.fit}</Pill>
-                      </div>
-                    </>
-                  ) : (
-                    <div className="text-sm text-muted-foreground">No deadline yet.</div>
-                  )}
-                </CardContent>
-              </Card>
+function templateContext(outreach: Outreach, project?: Project): Record<string, string> {
+  return {
+    piName: outreach.piName,
+    institution: outreach.institution,
+    directions: (outreach.directions || []).filter(Boolean).join(", "),
+    contact: outreach.contact,
+    outreachId: outreach.outreachId,
+    "project.name": project?.name || "",
+    "project.projectId": project?.projectId || "",
+    "project.institution": project?.institution || "",
+    "project.piLab": project?.piLab || "",
+    "project.ddl": project?.ddl || "",
+    today: todayISO(),
+  };
+}
 
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
-                    Upcoming Actions
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {dashboard.actions.length ? (
-                    dashboard.actions.map((p) => (
-                      <div key={p.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
-                        <div className="text-sm font-medium text-foreground">
-                          {p.projectId} · {p.name}
-                        </div>
-                        <div className="text-xs text-muted-foreground mt-1">
-                          {p.nextActionDate || "—"} · {p.nextAction || "—"}
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="text-sm text-muted-foreground">No upcoming actions.</div>
-                  )}
-                </CardContent>
-              </Card>
+type RenderedTemplate = {
+  subject: string;
+  body: string;
+  missing: string[]; // known variables with no value for this record
+  unknown: string[]; // placeholders that are not variables at all (typos)
+};
 
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("decisions")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-indigo-500 rounded-full"></div>
-                    Decision Stats
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm">Total Decisions</div>
-                    <Pill>{dashboard.decisionStats.total}</Pill>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm text-green-600">Apply</div>
-                    <Pill>{dashboard.decisionStats.apply}</Pill>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm text-yellow-600">Maybe</div>
-                    <Pill>{dashboard.decisionStats.maybe}</Pill>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm text-red-600">No</div>
-                    <Pill>{dashboard.decisionStats.no}</Pill>
-                  </div>
-                </CardContent>
-              </Card>
+function renderTemplate(template: Pick<EmailTemplate, "subject" | "body">, context: Record<string, string>): RenderedTemplate {
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+  const fill = (text: string) =>
+    text.replace(TEMPLATE_VARIABLE_RE, (whole, name: string) => {
+      if (!(name in context)) {
+        unknown.add(name);
+        return whole;
+      }
+      if (!String(context[name]).trim()) {
+        missing.add(name);
+        return whole;
+      }
+      return context[name];
+    });
+  const subject = fill(template.subject);
+  const body = fill(template.body);
+  return { subject, body, missing: [...missing], unknown: [...unknown] };
+}
 
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("outreach")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    Upcoming Follow-ups (PI)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {dashboard.upcomingFollowUps.length ? (
-                    dashboard.upcomingFollowUps.map((o) => (
-                      <div key={o.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
-                        <div className="text-sm font-medium text-foreground">
-                          {o.outreachId} · {o.piName}
-                        </div>
-                        <div className="text-xs text-muted-foreground mt-1">{o.institution}</div>
-                        <div className="text-xs mt-1 text-muted-foreground">
-                          Next: {o.nextFollowUp || "—"} · {o.nextAction || "—"}
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="text-sm text-muted-foreground">No follow-ups scheduled.</div>
-                  )}
-                </CardContent>
-              </Card>
+// "v1-short" -> "v2-short", "2024b" -> "2025b", "final" -> "final-2"
+function nextTemplateVersion(version: string, taken: string[]): string {
+  const bump = (v: string) => (/\d+/.test(v) ? v.replace(/\d+/, (n) => String(Number(n) + 1)) : `${v || "v"}-2`);
+  let next = bump(version);
+  while (taken.includes(next)) next = bump(next);
+  return next;
+}
 
-              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("materials")}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                    <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
-                    Tasks Due (Materials)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {dashboard.tasksDue.length ? (
-                    dashboard.tasksDue.map((m) => (
-                      <div key={m.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
-                        <div className="text-sm font-medium text-foreground">
-                          {m.taskId} · {m.type}
-                        </div>
-                        <div className="text-xs text-muted-foreground mt-1">
-                          Due: {m.due || "—"} · {m.status}
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="text-sm text-muted-foreground">No tasks due.</div>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
+// -----------------------------
+// Email Campaigns
+// -----------------------------
 
-            {/* Follow-up Reminders Alert */}
-            {followupReminders.length > 0 && (
-              <Card className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg font-semibold flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
-                    <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
-                    Follow-up Reminders ({followupReminders.length})
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {followupReminders.map((reminder, idx) => (
-                    <div key={idx} className="rounded-lg border border-yellow-300 p-3 bg-white dark:bg-gray-900">
-                      <div className="text-sm font-medium text-foreground">
-                        {reminder.piName}
-                      </div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        {reminder.message}
-                      </div>
-                      {reminder.needsFollowup && (
-                        <Badge variant="destructive" className="mt-2 text-xs">
-                          Action Required
-                        </Badge>
-                      )}
-                    </div>
-                  ))}
-                  <Button 
-                    variant="outline" 
-                    className="w-full"
-                    onClick={() => setFollowupReminders([])}
-                  >
-                    Dismiss All
-                  </Button>
-                </CardContent>
-              </Card>
-            )}
-          </TabsContent>
+// One template sent to many outreach records: each email is rendered, reviewed and
+// edited on its own, then sent one at a time with a pause in between so Gmail's
+// sending limits and spam heuristics are not tripped by a burst.
+
+const CAMPAIGN_INTERVALS_S = [10, 30, 60, 120];
+
+// "unknown": the request timed out, so the server may well have sent or queued the
+// email; it is not retried until the user has checked and marked it as not sent.
+type CampaignStatus = "pending" | "sending" | "sent" | "scheduled" | "failed" | "unknown";
+
+type CampaignDraft = {
+  outreachId: ID;
+  to: string;
+  cc: string;
+  subject: string;
+  body: string;
+  include: boolean;
+  status: CampaignStatus;
+  error: string;
+  sendAt: string; // once scheduled
+};
 
-          <TabsContent value="projects" className="space-y-8 mt-8">
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-              <SectionTitle
-                title={`Projects (${filteredProjects.length})`}
-                right={
-                  <Button onClick={addProject} className="gap-2 w-full sm:w-auto shadow-sm hover:shadow-md transition-shadow">
-                    <Plus className="h-4 w-4" /> Add Project
-                  </Button>
-                }
-              />
-            </div>
+function campaignDrafts(template: EmailTemplate, outreach: Outreach[], projects: Project[]): CampaignDraft[] {
+  return outreach.map((o) => {
+    const rendered = renderTemplate(template, templateContext(o, projects.find((p) => o.projectIds.includes(p.id))));
+    const to = o.contact.match(EMAIL_ADDRESS_RE)?.[0] || "";
+    return { outreachId: o.id, to, cc: "", subject: rendered.subject, body: rendered.body, include: Boolean(to), status: "pending", error: "", sendAt: "" };
+  });
+}
 
-            {filteredProjects.length ? (
-              <div className="border border-border/50 rounded-xl overflow-hidden bg-card shadow-sm">
-                <div className="overflow-x-auto scrollbar-hide">
-                  <Table>
-                    <TableHeader className="bg-muted/50">
-                      <TableRow className="hover:bg-muted/30">
-                        <TableHead className="min-w-[130px] font-semibold text-foreground">ID</TableHead>
-                        <TableHead className="min-w-[250px] font-semibold text-foreground">Name</TableHead>
-                        <TableHead className="min-w-[200px] font-semibold text-foreground">Institution</TableHead>
-                        <TableHead className="min-w-[110px] font-semibold text-foreground">DDL</TableHead>
-                        <TableHead className="min-w-[140px] font-semibold text-foreground">Status</TableHead>
-                        <TableHead className="min-w-[120px] font-semibold text-foreground">Priority</TableHead>
-                        <TableHead className="min-w-[300px] font-semibold text-foreground">Next Action</TableHead>
-                        <TableHead className="w-[100px] font-semibold text-foreground">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {filteredProjects.map((p) => (
-                        <TableRow key={p.id} className="hover:bg-muted/30 transition-colors">
-                          <TableCell className="font-medium">
-                            <Input
-                              value={p.projectId}
-                              onChange={(e) => updateProject(p.id, { projectId: e.target.value })}
-                              className="h-8"
-                            />
-                          </TableCell>
+// Reasons to look at a draft again before sending; none of them block it.
+function campaignIssues(draft: CampaignDraft, outreach: Outreach | undefined): string[] {
+  const issues: string[] = [];
+  if (!EMAIL_ADDRESS_RE.test(draft.to)) issues.push("No email address");
+  if (!draft.subject.trim()) issues.push("Empty subject");
+  const unfilled = Array.from(new Set(Array.from(`${draft.subject}\n${draft.body}`.matchAll(TEMPLATE_VARIABLE_RE), (m) => m[0])));
+  if (unfilled.length) issues.push(`Unfilled ${unfilled.join(", ")}`);
+  if (outreach?.threadId) issues.push("Already emailed; this starts a new thread");
+  return issues;
+}
 
-                          <TableCell>
-                            <div className="space-y-2">
-                              <Input
-                                value={p.name}
-                                onChange={(e) => updateProject(p.id, { name: e.target.value })}
-                                placeholder="Project name"
-                                className="h-8"
-                              />
-                              <div className="flex gap-2 flex-wrap">
-                                {(p.keywords || []).slice(0, 4).map((k, idx) => (
-                                  <Pill key={idx}>{k}</Pill>
-                                ))}
-                                {(p.keywords || []).length > 4 ? (
-                                  <Pill>+{(p.keywords || []).length - 4}</Pill>
-                                ) : null}
-                              </div>
-                            </div>
-                          </TableCell>
+// -----------------------------
+// Scheduled Sends
+// -----------------------------
 
-                          <TableCell>
-                            <Input
-                              value={p.institution}
-                              onChange={(e) => updateProject(p.id, { institution: e.target.value })}
-                              placeholder="Institution"
-                              className="h-8"
-                            />
-                            <div className="mt-2">
-                              <Input
-                                value={p.region}
-                                onChange={(e) => updateProject(p.id, { region: e.target.value })}
-                                placeholder="Region"
-                                className="h-8"
-                              />
-                            </div>
-                          </TableCell>
+// Emails can wait in the server's outbox (server/outbox.js) until a send-at time,
+// typically the next weekday 9:00 in the PI's time zone, and are sent by the server
+// even when the app is closed. The app polls the outbox while it is open, and pulls
+// the outreach records the server updated when it sent something.
+
+const OUTBOX_POLL_MS = 60 * 1000;
+const SEND_HOUR = 9;
+
+const COMMON_TIME_ZONES = [
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Toronto",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Zurich",
+  "Asia/Shanghai",
+  "Asia/Hong_Kong",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Asia/Seoul",
+  "Australia/Sydney",
+];
 
-                          <TableCell>
-                            <SmartDateInput
-                              value={p.ddl}
-                              onCommit={(v) => updateProject(p.id, { ddl: v })}
-                              placeholder="MM/DD"
-                              className="h-8"
-                            />
-                          </TableCell>
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-                          <TableCell>
-                            <SelectBox
-                              value={p.status}
-                              onValueChange={(v) => updateProject(p.id, { status: v as ProjectStatus })}
-                              options={STATUS_LIST.map((s) => ({ value: s, label: s }))}
-                            />
-                            <div className="mt-2">
-                              <SelectBox
-                                value={p.decision}
-                                onValueChange={(v) => updateProject(p.id, { decision: v as any })}
-                                options={DECISION_OPTIONS}
-                              />
-                            </div>
-                          </TableCell>
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-                          <TableCell>
-                            <SelectBox
-                              value={p.priority}
-                              onValueChange={(v) => updateProject(p.id, { priority: v as Priority })}
-                              options={PRIORITIES.map((pr) => ({ value: pr, label: pr }))}
-                            />
-                          </TableCell>
+// The PI's zone when set and valid, else this browser's.
+function recipientTimeZone(outreach: Outreach | undefined): string {
+  return outreach?.timeZone && isValidTimeZone(outreach.timeZone) ? outreach.timeZone : LOCAL_TIME_ZONE;
+}
 
-                          <TableCell>
-                            <div className="space-y-2">
-                              <Input
-                                value={p.nextAction}
-                                onChange={(e) => updateProject(p.id, { nextAction: e.target.value })}
-                                placeholder="Next action"
-                                className="h-8"
-                              />
-                              <SmartDateInput
-                                value={p.nextActionDate}
-                                onCommit={(v) => updateProject(p.id, { nextActionDate: v })}
-                                placeholder="MM/DD"
-                                className="h-8"
-                              />
-                            </div>
-                          </TableCell>
+// Wall-clock fields of an instant in a time zone.
+function zonedParts(at: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour12: false,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(at));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  // Some engines print midnight as 24.
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour") % 24, minute: get("minute"), second: get("second") };
+}
 
-                          <TableCell>
-                            <div className="flex items-center gap-1">
-                              <ProjectDetailsDialog
-                                project={p}
-                                outreach={store.outreach.filter((o) => (p.outreachIds || []).includes(o.id))}
-                                materials={store.materials.filter((m) => (p.materialTaskIds || []).includes(m.id))}
-                                allOutreach={store.outreach}
-                                allMaterials={store.materials}
-                                onUpdate={(patch) => updateProject(p.id, patch)}
-                                onAddOutreach={() => addOutreach(p.id)}
-                                onAddMaterial={() => addMaterial(p.id)}
-                                onLinkOutreach={(outreachId) => linkOutreachToProject(outreachId, p.id)}
-                                onLinkMaterial={(materialId) => {
-                                  updateMaterial(materialId, { targetProject: p.id });
-                                }}
-                                onUnlinkOutreach={(outreachId) => {
-                                  setStore((s) =>
-                                    normalizeStore({
-                                      ...s,
-                                      projects: s.projects.map((proj) =>
-                                        proj.id === p.id
-                                          ? { ...proj, outreachIds: (proj.outreachIds || []).filter((oid) => oid !== outreachId) }
-                                          : proj
-                                      ),
-                                      outreach: s.outreach.map((o) =>
-                                        o.id === outreachId
-                                          ? { ...o, projectIds: (o.projectIds || []).filter((pid) => pid !== p.id) }
-                                          : o
-                                      ),
-                                    })
-                                  );
-                                }}
-                                onUnlinkMaterial={(materialId) => {
-                                  updateMaterial(materialId, { targetProject: "通用" });
-                                }}
-                                onOpenDecision={() => {
-                                  ensureDecisionForProject(p.id);
-                                  setActiveTab("decisions");
-                                }}
-                                projectsById={projectsById}
-                                updateOutreach={updateOutreach}
-                                updateMaterial={updateMaterial}
-                              />
+// The instant the clock in timeZone shows the given wall time. The offset is taken
+// again at the first guess so a date on the other side of a DST change is right.
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (at: number) => {
+    const p = zonedParts(at, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - at;
+  };
+  return wall - offsetAt(wall - offsetAt(wall));
+}
 
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="text-destructive h-8 w-8"
-                                onClick={() => deleteProject(p.id)}
-                                title="Delete"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
-              </div>
-            ) : (
-              <EmptyState
-                title="No projects yet"
-                desc="Add your first program and start tracking deadlines, outreach, and materials."
-                action={
-                  <Button onClick={addProject} className="gap-2">
-                    <Plus className="h-4 w-4" /> Add Project
-                  </Button>
-                }
-              />
-            )}
-          </TabsContent>
+// Today at 9:00 in the zone if that is still ahead and a weekday, else the next
+// Monday to Friday at 9:00.
+function nextWeekdayMorning(timeZone: string, from = Date.now(), hour = SEND_HOUR): Date {
+  const today = zonedParts(from, timeZone);
+  for (let i = 0; i < 8; i++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + i));
+    if (date.getUTCDay() === 0 || date.getUTCDay() === 6) continue;
+    const at = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, 0, timeZone);
+    if (at > from) return new Date(at);
+  }
+  return new Date(from);
+}
 
-          <TabsContent value="outreach" className="space-y-8 mt-8">
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-              <SectionTitle
-                title={`PI Outreach (${store.outreach.length})`}
-                right={
-                  <Button onClick={() => addOutreach()} className="gap-2 w-full sm:w-auto shadow-sm hover:shadow-md transition-shadow">
-                    <Plus className="h-4 w-4" /> Add Outreach
-                  </Button>
-                }
-              />
-            </div>
+function formatInZone(at: string | Date, timeZone: string): string {
+  return new Date(at).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
 
-            {store.outreach.length ? (
-              <div className="border rounded-lg overflow-hidden bg-card">
-                <div className="overflow-x-auto scrollbar-hide">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="min-w-[130px]">Outreach ID</TableHead>
-                        <TableHead className="min-w-[200px]">PI</TableHead>
-                        <TableHead className="min-w-[220px]">Institution</TableHead>
-                        <TableHead className="min-w-[120px]">First Contact</TableHead>
-                        <TableHead className="min-w-[140px]">Reply</TableHead>
-                        <TableHead className="min-w-[130px]">Stage</TableHead>
-                        <TableHead className="min-w-[200px]">Next Follow-up</TableHead>
+// <input type="datetime-local"> works in this browser's zone.
+function toDateTimeInput(at: string | Date): string {
+  const d = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromDateTimeInput(value: string): string | null {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+type ScheduledEmailsState = {
+  workspaceId: string;
+  entries: api.ScheduledEmail[];
+  error: string | null;
+};
+
+const scheduledEmails = {
+  state: { workspaceId: "", entries: [], error: null } as ScheduledEmailsState,
+  listeners: new Set<() => void>(),
+};
+
+async function refreshScheduledEmails(workspaceId: string) {
+  try {
+    const entries = await api.listScheduledEmails(workspaceId);
+    scheduledEmails.state = { workspaceId, entries, error: null };
+  } catch (e) {
+    const entries = scheduledEmails.state.workspaceId === workspaceId ? scheduledEmails.state.entries : [];
+    scheduledEmails.state = { workspaceId, entries, error: api.describeError(e) };
+  }
+  scheduledEmails.listeners.forEach((listener) => listener());
+}
+
+function subscribeScheduledEmails(listener: () => void) {
+  scheduledEmails.listeners.add(listener);
+  return () => {
+    scheduledEmails.listeners.delete(listener);
+  };
+}
+
+function useScheduledEmails(workspaceId: string): ScheduledEmailsState {
+  const state = useSyncExternalStore(subscribeScheduledEmails, () => scheduledEmails.state);
+  return state.workspaceId === workspaceId ? state : { workspaceId, entries: [], error: null };
+}
+
+// Sent entries whose outreach record here does not show the email yet.
+function unappliedScheduledSends(entries: api.ScheduledEmail[], outreach: Outreach[]): api.ScheduledEmail[] {
+  const byId = new Map(outreach.map((o) => [o.id, o] as const));
+  return entries.filter((e) => {
+    const o = byId.get(e.outreachId);
+    return e.status === "sent" && o && !(o.sentEmails || []).some((m) => m.messageId === e.messageId);
+  });
+}
+
+// -----------------------------
+// Small UI helpers
+// -----------------------------
+
+function Pill({ children }: { children: React.ReactNode }) {
+  return (
+    <Badge variant="secondary" className="rounded-full">
+      {children}
+    </Badge>
+  );
+}
+
+function SectionTitle({ title, right }: { title: string; right?: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="text-xl font-bold tracking-tight text-foreground">{title}</div>
+      {right}
+    </div>
+  );
+}
+
+function EmptyState({
+  title,
+  desc,
+  action,
+}: {
+  title: string;
+  desc?: string;
+  action?: React.ReactNode;
+}) {
+  return (
+    <Card className="border-dashed border-border/50 bg-muted/20 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {desc ? <div className="text-sm text-muted-foreground leading-relaxed">{desc}</div> : null}
+        {action}
+      </CardContent>
+    </Card>
+  );
+}
+
+type SelectOption = { value: string; label: string; disabled?: boolean };
+
+function SelectBox({
+  value,
+  onValueChange,
+  options,
+  className,
+  id,
+}: {
+  value?: string;
+  onValueChange: (v: string) => void;
+  options: SelectOption[];
+  className?: string;
+  id?: string;
+}) {
+  const v = value ?? "";
+  return (
+    <Select value={v} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Select..." />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value || "_empty_"} disabled={o.disabled}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function SmartDateInput({
+  value,
+  onCommit,
+  className,
+  placeholder,
+}: {
+  value: string;
+  onCommit: (v: string) => void;
+  className?: string;
+  placeholder?: string;
+}) {
+  const [temp, setTemp] = useState(value);
+  const [focus, setFocus] = useState(false);
+
+  useEffect(() => {
+    if (!focus) setTemp(value);
+  }, [value, focus]);
+
+  return (
+    <Input
+      className={className}
+      placeholder={placeholder}
+      value={focus ? temp : formatDateForDisplay(value)}
+      onFocus={() => {
+        setFocus(true);
+        setTemp(value);
+      }}
+      onChange={(e) => {
+        setTemp(formatDateInput(e.target.value));
+      }}
+      onBlur={() => {
+        setFocus(false);
+        const final = parseDateInput(temp);
+        onCommit(final);
+        setTemp(final);
+      }}
+      maxLength={10}
+    />
+  );
+}
+
+// -----------------------------
+// Main App
+// -----------------------------
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+type PassphraseRequest = {
+  title: string;
+  description: string;
+  confirm: boolean; // ask twice, for encrypting
+  resolve: (passphrase: string | null) => void;
+};
+
+function PassphraseDialog({ request, onDone }: { request: PassphraseRequest; onDone: () => void }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [again, setAgain] = useState("");
+  const mismatch = request.confirm && again !== "" && again !== passphrase;
+  const ready = passphrase !== "" && (!request.confirm || again === passphrase);
+
+  const finish = (value: string | null) => {
+    request.resolve(value);
+    onDone();
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && finish(null)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{request.title}</DialogTitle>
+          <DialogDescription>{request.description}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (ready) finish(passphrase);
+          }}
+        >
+          <Input type="password" autoFocus value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" />
+          {request.confirm ? (
+            <>
+              <Input type="password" value={again} onChange={(e) => setAgain(e.target.value)} placeholder="Repeat passphrase" />
+              <p className={`text-xs ${mismatch ? "text-red-700" : "text-muted-foreground"}`}>
+                {mismatch ? "Passphrases do not match." : "There is no way to recover the data without this passphrase."}
+              </p>
+            </>
+          ) : null}
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => finish(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!ready}>
+              OK
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Returns an async prompt and the element to render for it; the prompt resolves to null on cancel.
+function usePassphrasePrompt(): [(options: Omit<PassphraseRequest, "resolve">) => Promise<string | null>, React.ReactNode] {
+  const [request, setRequest] = useState<PassphraseRequest | null>(null);
+  const ask = (options: Omit<PassphraseRequest, "resolve">) =>
+    new Promise<string | null>((resolve) => setRequest({ ...options, resolve }));
+  const element = request ? <PassphraseDialog request={request} onDone={() => setRequest(null)} /> : null;
+  return [ask, element];
+}
+
+function BackupBrowser({ workspaceId, onRestore }: { workspaceId: string; onRestore: (data: unknown, name: string) => void }) {
+  const [backups, setBackups] = useState<BackupInfo[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [diff, setDiff] = useState<BackupDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [askPassphrase, passphrasePrompt] = usePassphrasePrompt();
+  // Passphrase entered here for backups the server's own passphrase does not open.
+  const passphraseRef = useRef<string | null>(null);
+
+  const loadBackups = () =>
+    api.listBackups(workspaceId, passphraseRef.current)
+      .then(data => setBackups(Array.isArray(data) ? data : []))
+      .catch(err => {
+        console.error(err);
+        setBackups([]);
+      });
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  // Asks for a passphrase and retries while the server cannot decrypt the backup;
+  // resolves to null if the prompt is cancelled.
+  async function withPassphrase<T>(load: (passphrase: string | null) => Promise<T>): Promise<T | null> {
+    let asked = false;
+    for (;;) {
+      try {
+        const result = await load(passphraseRef.current);
+        if (asked) loadBackups();
+        return result;
+      } catch (err) {
+        if (!api.isApiError(err) || err.status !== 401 || !err.body?.encrypted) throw err;
+        const passphrase = await askPassphrase({
+          title: "Encrypted backup",
+          description: `${err.message}. Enter the passphrase this backup was encrypted with.`,
+          confirm: false,
+        });
+        if (passphrase === null) return null;
+        passphraseRef.current = passphrase;
+        asked = true;
+      }
+    }
+  }
+
+  const preview = async (name: string) => {
+    setSelected(name);
+    setDiff(null);
+    try {
+      const data = await withPassphrase((passphrase) => api.getBackupDiff(workspaceId, name, passphrase));
+      if (data) setDiff(data);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load backup preview. ${api.describeError(err)}`);
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    if (!confirm(`Replace all current data with ${selected}? A backup of the current data is saved first.`)) return;
+    setBusy(true);
+    try {
+      const data = await withPassphrase((passphrase) => api.getBackup(workspaceId, selected, passphrase));
+      if (data) onRestore(data, selected);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to restore backup. ${api.describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!backups) return <div className="text-xs text-muted-foreground">Loading backups…</div>;
+  if (!backups.length) return <div className="text-xs text-muted-foreground">No backups yet.</div>;
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-[220px] overflow-y-auto rounded-md border">
+        <Table>
+          <TableBody>
+            {backups.map((b) => (
+              <TableRow
+                key={b.name}
+                className={`cursor-pointer ${selected === b.name ? "bg-muted" : ""}`}
+                onClick={() => preview(b.name)}
+              >
+                <TableCell className="text-xs whitespace-nowrap">
+                  {new Date(b.createdAt).toLocaleString()}
+                  {b.encrypted ? <Lock className="inline h-3 w-3 ml-1 text-muted-foreground" /> : null}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {b.counts
+                    ? `${b.counts.projects} projects · ${b.counts.outreach} outreach · ${b.counts.materials} materials · ${b.counts.decisions} decisions`
+                    : b.error}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground text-right">{formatBytes(b.size)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selected ? (
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="text-xs font-medium">Restoring {selected} would:</div>
+          {diff ? (
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              {COLLECTIONS.map((c) => {
+                const d = diff[c];
+                const untouched = !d.added.length && !d.removed.length && !d.changed.length;
+                return (
+                  <div key={c} className="space-y-0.5">
+                    <div className="font-medium">{COLLECTION_LABELS[c]}</div>
+                    {untouched ? (
+                      <div className="text-muted-foreground">No changes</div>
+                    ) : (
+                      <>
+                        {d.added.length ? <div className="text-green-700">+{d.added.length} brought back</div> : null}
+                        {d.removed.length ? (
+                          <div className="text-red-700" title={d.removed.map((r) => r.label).join("\n")}>
+                            −{d.removed.length} removed
+                          </div>
+                        ) : null}
+                        {d.changed.length ? (
+                          <div className="text-amber-700" title={d.changed.map((r) => `${r.label}: ${r.fields.join(", ")}`).join("\n")}>
+                            ~{d.changed.length} changed
+                          </div>
+                        ) : null}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">Comparing with current data…</div>
+          )}
+          <div className="flex justify-end">
+            <Button size="sm" variant="destructive" onClick={restore} disabled={!diff || busy}>
+              {busy ? 'Restoring...' : 'Restore this backup'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Select a backup to preview what restoring it would change.</p>
+      )}
+      {passphrasePrompt}
+    </div>
+  );
+}
+
+function LockScreen({ onUnlock }: { onUnlock: (passcode: string) => Promise<void> }) {
+  const [passcode, setPasscode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passcode);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setPasscode("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-background flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" /> Summer Research Tracker is locked
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (passcode) submit();
+            }}
+          >
+            <Input type="password" autoFocus value={passcode} onChange={(e) => setPasscode(e.target.value)} placeholder="Passcode" />
+            {error ? <p className="text-xs text-red-700">{error}</p> : null}
+            <Button type="submit" className="w-full" disabled={!passcode || busy}>
+              {busy ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Holds the app back until the store caches are decrypted, and locks it again
+// after the configured idle time. Locking unmounts the app and, once its last
+// encrypted writes have landed, forgets the key and the decrypted caches, so the
+// page holds nothing readable until the passcode is entered again. Store edits are
+// already in the encrypted cache; an open dialog's unsaved text is not kept.
+function AppLockGate({ children }: { children: React.ReactNode }) {
+  const [locked, setLocked] = useState(() => Boolean(readAppLockConfig()) && !appLock.key);
+  const [ready, setReady] = useState(() => !locked);
+
+  useEffect(() => {
+    if (!locked || ready || !appLock.key) return;
+    const key = appLock.key;
+    appLock.writes.then(() => {
+      if (appLock.key !== key) return; // unlocked again meanwhile
+      appLock.key = null;
+      appLock.plain = new Map();
+    });
+  }, [locked, ready]);
+
+  useEffect(() => {
+    let lastActivity = Date.now();
+    const touch = () => {
+      lastActivity = Date.now();
+    };
+    const events = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"];
+    events.forEach((e) => window.addEventListener(e, touch, { passive: true }));
+    const timer = setInterval(() => {
+      const config = readAppLockConfig();
+      if (config && appLock.key && config.idleMinutes > 0 && Date.now() - lastActivity > config.idleMinutes * 60 * 1000) {
+        setReady(false);
+        setLocked(true);
+      }
+    }, 15 * 1000);
+    return () => {
+      events.forEach((e) => window.removeEventListener(e, touch));
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Another tab turned the lock on or off or changed the passcode, so this tab's key is stale.
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === APP_LOCK_KEY) window.location.reload();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // Waits for the idle lock to finish forgetting the old key, then decrypts afresh.
+  const unlock = async (passcode: string) => {
+    await appLock.writes;
+    await unlockApp(passcode);
+    setLocked(false);
+    setReady(true);
+  };
+
+  return (
+    <>
+      {ready ? children : null}
+      {locked ? <LockScreen onUnlock={unlock} /> : null}
+    </>
+  );
+}
+
+function AppLockSettings() {
+  const [config, setConfig] = useState(() => readAppLockConfig());
+  const [idleMinutes, setIdleMinutes] = useState(() => config?.idleMinutes ?? 15);
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [again, setAgain] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setConfig(readAppLockConfig());
+      setCurrent("");
+      setNext("");
+      setAgain("");
+      setMessage({ ok: true, text: done });
+    } catch (e) {
+      setMessage({ ok: false, text: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mismatch = again !== "" && again !== next;
+  const canSetNext = next !== "" && next === again && !busy;
+
+  return (
+    <div className="space-y-2">
+      <Label>App Lock</Label>
+      <p className="text-xs text-muted-foreground">
+        {config
+          ? "On. The data cached in this browser is encrypted with the passcode. Locking after idle closes the app and clears the decrypted data from the page; text typed into an open dialog is not kept."
+          : "Off. Anyone with access to this browser profile can read the cached data."}
+      </p>
+      {config ? (
+        <Input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current passcode" />
+      ) : null}
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="password"
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          placeholder={config ? "New passcode" : "Passcode"}
+        />
+        <Input type="password" value={again} onChange={(e) => setAgain(e.target.value)} placeholder="Repeat passcode" />
+      </div>
+      {mismatch ? <p className="text-xs text-red-700">Passcodes do not match.</p> : null}
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground whitespace-nowrap">Lock after idle (minutes, 0 = never)</Label>
+        <Input
+          type="number"
+          min={0}
+          className="w-24"
+          value={idleMinutes}
+          onChange={(e) => {
+            const minutes = Math.max(0, Math.floor(Number(e.target.value) || 0));
+            setIdleMinutes(minutes);
+            setAppLockIdleMinutes(minutes);
+          }}
+        />
+      </div>
+      <div className="flex gap-2">
+        {config ? (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!current || !canSetNext}
+              onClick={() =>
+                run(async () => {
+                  await appLockKeyFor(current, config);
+                  await setAppLockPasscode(next, idleMinutes);
+                }, "Passcode changed.")
+              }
+            >
+              Change passcode
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={!current || busy}
+              onClick={() =>
+                run(async () => {
+                  await appLockKeyFor(current, config);
+                  await disableAppLock();
+                }, "App lock turned off.")
+              }
+            >
+              Turn off
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" disabled={!canSetNext} onClick={() => run(() => setAppLockPasscode(next, idleMinutes), "App lock turned on.")}>
+            <Lock className="h-4 w-4 mr-2" /> Turn on
+          </Button>
+        )}
+      </div>
+      {message ? <p className={`text-xs ${message.ok ? "text-muted-foreground" : "text-red-700"}`}>{message.text}</p> : null}
+    </div>
+  );
+}
+
+const SERVER_STATUS_STYLES: Record<ServerStatus, { label: string; dot: string }> = {
+  checking: { label: "Checking…", dot: "bg-slate-400" },
+  online: { label: "Online", dot: "bg-emerald-500" },
+  degraded: { label: "Degraded", dot: "bg-amber-500" },
+  offline: { label: "Offline", dot: "bg-red-500" },
+};
+
+// Header badge; the tooltip has the details and a click checks again right away.
+function ServerStatusBadge({ state }: { state: ServerHealthState }) {
+  const { label, dot } = SERVER_STATUS_STYLES[state.status];
+  const h = state.health;
+  const details = h
+    ? [
+        `Server v${h.version} at ${api.serverUrl()}`,
+        h.storage.writable
+          ? `Storage: ${h.storage.freeBytes === null ? "writable" : `${formatBytes(h.storage.freeBytes)} free`}`
+          : `Storage: ${h.storage.reachable ? "not writable" : "not reachable"} (${h.storage.error || "unknown error"})`,
+        `Google: ${h.google.signedIn ? "signed in" : h.google.configured ? "not signed in yet" : "not set up (no credentials.json)"}`,
+      ]
+    : [state.error || `Checking ${api.serverUrl()}…`];
+  return (
+    <Button variant="outline" className="gap-2 h-10 px-3" onClick={() => checkServerHealth()} title={[...details, "Click to check again"].join("\n")}>
+      <span className={`h-2.5 w-2.5 rounded-full ${dot}`} />
+      {label}
+    </Button>
+  );
+}
+
+// Opens when the server says this browser is not paired. The code is printed on the
+// server's console, so only someone who can see it can pair. Dismissing keeps the
+// app running on its local cache until the next reload.
+function ServerPairingDialog() {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const dismissedRef = useRef(false);
+
+  useEffect(() => {
+    api.getAuthStatus()
+      .then((data) => {
+        if (!data.authenticated) setOpen(true);
+      })
+      .catch(() => undefined); // server not running: nothing to pair with yet
+    const onAuthRequired = () => {
+      if (!dismissedRef.current) setOpen(true);
+    };
+    window.addEventListener(SERVER_AUTH_EVENT, onAuthRequired);
+    return () => window.removeEventListener(SERVER_AUTH_EVENT, onAuthRequired);
+  }, []);
+
+  const requestCode = async () => {
+    setError(null);
+    setCode("");
+    try {
+      await api.requestPairingCode();
+    } catch (e) {
+      setError(api.describeError(e));
+    }
+  };
+
+  useEffect(() => {
+    if (open) requestCode();
+  }, [open]);
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { token } = await api.pairWithServer(code);
+      safeStorageSet(SERVER_TOKEN_KEY, token);
+      // Reconnect everything (store sync, workspaces) with the new token.
+      window.location.reload();
+    } catch (e) {
+      setError(api.describeError(e));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) dismissedRef.current = true;
+        setOpen(next);
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pair with the server</DialogTitle>
+          <DialogDescription>
+            Enter the 6-digit code printed in the terminal running <code>npm run server</code>. Until this browser is paired,
+            changes stay in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim() && !busy) submit();
+          }}
+        >
+          <Input autoFocus inputMode="numeric" autoComplete="one-time-code" value={code} onChange={(e) => setCode(e.target.value)} placeholder="123 456" />
+          {error ? <p className="text-xs text-red-700">{error}</p> : null}
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={requestCode} disabled={busy}>
+              New code
+            </Button>
+            <Button type="submit" disabled={!code.trim() || busy}>
+              {busy ? "Pairing..." : "Pair"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SettingsDialog({
+  workspaceId,
+  onRestoreBackup,
+}: {
+  workspaceId: string;
+  onRestoreBackup: (data: unknown, name: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [storageRoot, setStorageRoot] = useState("");
+  const [retention, setRetention] = useState<BackupRetention>({ keepLast: 10, hourlyForHours: 24, dailyForDays: 30 });
+  const [alarms, setAlarms] = useState("1440");
+  const [encryption, setEncryption] = useState({ required: false, hasPassphrase: false });
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [serverUrl, setServerUrl] = useState(() => api.serverUrl());
+  const [loading, setLoading] = useState(false);
+  const fileBlocker = fileServerBlocker(useServerHealth());
+
+  useEffect(() => {
+    if (open) {
+      setServerUrl(api.serverUrl());
+      api.getConfig()
+        .then(data => {
+          setStorageRoot(data.storageRoot);
+          if (data.backupRetention) setRetention(data.backupRetention);
+          if (data.calendar) setAlarms(data.calendar.alarmMinutes.join(", "));
+          if (data.backupEncryption) setEncryption(data.backupEncryption);
+          setNewPassphrase("");
+        })
+        .catch(err => console.error(err));
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    if (encryption.required && !encryption.hasPassphrase && !newPassphrase) {
+      alert('Enter a passphrase for encrypted backups');
+      return;
+    }
+    setLoading(true);
+    try {
+      await api.saveConfig({
+        storageRoot,
+        backupRetention: retention,
+        calendar: { alarmMinutes: alarms.split(/[,\s]+/).filter(Boolean).map(Number) },
+        backupEncryption: { required: encryption.required, passphrase: newPassphrase || undefined },
+      });
+      setOpen(false);
+    } catch (err) {
+      alert(`Failed to save config: ${api.describeError(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenFolder = async () => {
+    try {
+      await api.openFolder(storageRoot);
+    } catch (err) {
+      alert(`Failed to open folder: ${api.describeError(err)}`);
+    }
+  };
+
+  // The server URL is a setting of this browser, not of the server, so it applies
+  // right away: the page reloads to reconnect the store and workspaces to the new server.
+  const handleConnect = () => {
+    let url: string;
+    try {
+      url = api.normalizeServerUrl(serverUrl || api.DEFAULT_SERVER_URL);
+    } catch (err) {
+      alert(`Invalid server URL: ${api.describeError(err)}`);
+      return;
+    }
+    if (url === api.serverUrl()) return;
+    safeStorageSet(SERVER_URL_KEY, url);
+    window.location.reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Settings className="h-4 w-4" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Configure application settings</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Server URL</Label>
+            <div className="flex gap-2">
+              <Input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder={api.DEFAULT_SERVER_URL} />
+              <Button variant="outline" onClick={handleConnect} disabled={serverUrl.trim() === api.serverUrl()}>
+                Connect
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Where this browser reaches the tracker server. Another machine needs its own pairing code, and the frontend
+              address must be listed in that server's allowed origins.
+            </p>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>External Storage Path</Label>
+            <div className="flex gap-2">
+              <Input 
+                value={storageRoot} 
+                onChange={(e) => setStorageRoot(e.target.value)} 
+                placeholder="/path/to/storage"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleOpenFolder}
+                disabled={Boolean(fileBlocker)}
+                title={fileBlocker || "Open in File Explorer"}
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z" />
+                </svg>
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Absolute path to the folder where files will be stored.
+            </p>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Backup Retention</Label>
+            <div className="grid grid-cols-3 gap-3">
+              {(
+                [
+                  ["keepLast", "Always keep newest"],
+                  ["hourlyForHours", "Hourly, for hours"],
+                  ["dailyForDays", "Daily, for days"],
+                ] as const
+              ).map(([key, label]) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Input
+                    type="number"
+                    min={key === "keepLast" ? 1 : 0}
+                    value={retention[key]}
+                    onChange={(e) => setRetention((r) => ({ ...r, [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Auto-backups run every 30 minutes. Older backups are pruned unless one of these rules keeps them.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="backup-encryption"
+                checked={encryption.required}
+                onCheckedChange={(v) => setEncryption((e) => ({ ...e, required: Boolean(v) }))}
+              />
+              <Label htmlFor="backup-encryption" className="cursor-pointer">
+                Encrypt automatic backups
+              </Label>
+            </div>
+            <Input
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+              placeholder={encryption.hasPassphrase ? "Passphrase set (leave empty to keep it)" : "Backup passphrase"}
+            />
+            <p className="text-xs text-muted-foreground">
+              New backups are encrypted with AES-GCM. The passphrase is kept in the server's config file, outside the
+              storage folder; backups cannot be restored without it.
+            </p>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Calendar Reminders</Label>
+            <Input value={alarms} onChange={(e) => setAlarms(e.target.value)} placeholder="1440, 60" />
+            <p className="text-xs text-muted-foreground">
+              Minutes before each deadline or follow-up day to alert, comma separated (1440 = one day). Leave empty for no alerts.
+            </p>
+          </div>
+
+          <Separator />
+
+          <AppLockSettings />
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Restore from Backup</Label>
+            {open ? (
+              <BackupBrowser
+                workspaceId={workspaceId}
+                onRestore={(data, name) => {
+                  onRestoreBackup(data, name);
+                  setOpen(false);
+                }}
+              />
+            ) : null}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function SummerResearchTrackerApp() {
+  return (
+    <AppLockGate>
+      <WorkspaceRoot />
+      <ServerPairingDialog />
+    </AppLockGate>
+  );
+}
+
+function WorkspaceRoot() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => cachedWorkspaces());
+  const [workspaceId, setWorkspaceId] = useState<string>(
+    () => safeStorageGet(ACTIVE_WORKSPACE_KEY) || DEFAULT_WORKSPACE.id
+  );
+  const loaded = useMemo(() => loadStore(workspaceId), [workspaceId]);
+  const workspace = workspaces.find((w) => w.id === workspaceId) || { ...DEFAULT_WORKSPACE, id: workspaceId };
+
+  const applyWorkspaces = (list: Workspace[]) => {
+    setWorkspaces(list);
+    safeStorageSet(WORKSPACES_KEY, JSON.stringify(list));
+  };
+
+  const refreshWorkspaces = async () => {
+    const { active, workspaces: list } = await api.listWorkspaces();
+    applyWorkspaces(list);
+    return active;
+  };
+
+  // The server remembers the active workspace, so follow it when it is reachable.
+  useEffect(() => {
+    refreshWorkspaces()
+      .then((active) => {
+        safeStorageSet(ACTIVE_WORKSPACE_KEY, active);
+        setWorkspaceId(active);
+      })
+      .catch((err) => console.error('Workspaces unavailable, using cached list:', err));
+  }, []);
+
+  const switchWorkspace = async (id: string) => {
+    try {
+      await api.activateWorkspace(id);
+      await refreshWorkspaces();
+    } catch (err) {
+      alert(`Failed to switch workspace. ${api.describeError(err)}`);
+      return;
+    }
+    safeStorageSet(ACTIVE_WORKSPACE_KEY, id);
+    setWorkspaceId(id);
+  };
+
+  if (loaded.error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center p-6">
+        <Card className="max-w-lg">
+          <CardHeader>
+            <CardTitle>Cannot open saved data</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground leading-relaxed">{loaded.error}</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <TrackerApp
+      key={workspaceId}
+      initial={loaded}
+      workspace={workspace}
+      workspaces={workspaces}
+      onSwitchWorkspace={switchWorkspace}
+      onWorkspacesChanged={() => refreshWorkspaces().catch((err) => console.error(err))}
+    />
+  );
+}
+
+function TrackerApp({
+  initial,
+  workspace,
+  workspaces,
+  onSwitchWorkspace,
+  onWorkspacesChanged,
+}: {
+  initial: LoadedStore;
+  workspace: Workspace;
+  workspaces: Workspace[];
+  onSwitchWorkspace: (id: string) => Promise<void>;
+  onWorkspacesChanged: () => void;
+}) {
+  const [store, setStoreState] = useState<Store>(initial.store);
+  // Archived seasons are frozen; every edit path goes through setStore, so dropping
+  // updates here keeps the whole UI read-only without touching each dialog.
+  const setStore: typeof setStoreState = (action) => {
+    if (workspace.archived) {
+      pendingActionRef.current = null;
+      return;
+    }
+    setStoreState(action);
+  };
+
+  // Undo/redo (see "Undo History"): every store change becomes an entry unless it
+  // came from the server, another tab, or undo/redo itself.
+  const historyRef = useRef<{ past: HistoryEntry[]; future: HistoryEntry[] }>({ past: [], future: [] });
+  const previousStoreRef = useRef(store);
+  const pendingActionRef = useRef<PendingAction | null>(null);
+  const storeOriginRef = useRef<{ store: Store; origin: "server" | "tab" | "history" } | null>(null);
+  const [, setHistoryVersion] = useState(0);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  // Backup holding offline edits that connecting could not merge (see "Server Sync").
+  const [offlineBackup, setOfflineBackup] = useState<string | null>(null);
+  const tabChannelRef = useRef<BroadcastChannel | null>(null);
+  const [tabConflicts, setTabConflicts] = useState<TabConflict[]>([]);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(initial.report);
+  const [activeTab, setActiveTab] = useState<
+    "dashboard" | "projects" | "outreach" | "materials" | "decisions"
+  >("dashboard");
+
+  const [q, setQ] = useState("");
+  const [showOnlyUpcoming, setShowOnlyUpcoming] = useState(false);
+
+  const [statusFilter, setStatusFilter] = useState<ProjectStatus | "ALL">("ALL");
+  const [priorityFilter, setPriorityFilter] = useState<Priority | "ALL">("ALL");
+  const [decisionFilter, setDecisionFilter] = useState<"Apply" | "Maybe" | "No" | "ALL">(
+    "ALL"
+  );
+
+  const [viewingDecision, setViewingDecision] = useState<Decision | null>(null);
+  const [followupReminders, setFollowupReminders] = useState<api.FollowupReminder[]>([]);
+
+  const initialStoreRef = useRef(store);
+  // Base for edits made before the first connection (see "Server Sync").
+  const cacheBaseRef = useRef(isCacheSynced(workspace.id) ? store : null);
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  // Last store known to match the server; null while disconnected.
+  const serverStoreRef = useRef<Store | null>(null);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // File operations waiting for the server (see "Pending File Operations").
+  const [fileOps, setFileOpsState] = useState<PendingFileOp[]>(() => loadFileOps(workspace.id));
+  const fileOpsRef = useRef(fileOps);
+  const fileOpsFlushRef = useRef({ running: false, again: false });
+  const [showFileOps, setShowFileOps] = useState(false);
+  const health = useServerHealth();
+  const connectStoreRef = useRef<() => void>(() => undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    const connect = async () => {
+      if (serverStoreRef.current) return;
+      try {
+        const { store: synced, keptAs, report } = await connectServerStore(storeRef.current, workspace.id);
+        if (cancelled) return;
+        serverStoreRef.current = synced;
+        if (keptAs) setOfflineBackup(keptAs);
+        if (report) setMigrationReport(report);
+        if (synced !== storeRef.current) {
+          storeOriginRef.current = { store: synced, origin: "server" };
+          setStoreState(synced);
+        }
+        flushFileOps();
+      } catch (error) {
+        console.error('Server store unavailable, using local cache:', error);
+      }
+    };
+
+    connectStoreRef.current = connect;
+    connect();
+    const interval = setInterval(connect, 60 * 1000); // Retry every minute while offline
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  // When the health check sees the server again, reconnect now rather than at the next retry.
+  useEffect(() => {
+    if (health.status === "offline" || health.status === "checking") return;
+    connectStoreRef.current();
+    if (health.status === "online") flushFileOps();
+  }, [health.status]);
+
+  // The outbox is polled while the server is reachable. Records the scheduler updated
+  // when it sent an email are pulled once; a record the server no longer shows it on
+  // (replaced by an offline push) is not asked for again.
+  const outbox = useScheduledEmails(workspace.id);
+  const pulledScheduledRef = useRef(new Set<string>());
+  const serverOffline = health.status === "offline";
+  const queuedEmails = outbox.entries.filter((e) => e.status !== "sent").length;
+
+  useEffect(() => {
+    if (serverOffline) return;
+    refreshScheduledEmails(workspace.id);
+    const interval = setInterval(() => refreshScheduledEmails(workspace.id), OUTBOX_POLL_MS);
+    return () => clearInterval(interval);
+  }, [workspace.id, serverOffline]);
+
+  useEffect(() => {
+    const due = unappliedScheduledSends(outbox.entries, store.outreach).filter((e) => !pulledScheduledRef.current.has(e.id));
+    if (!due.length || !serverStoreRef.current) return;
+    due.forEach((e) => pulledScheduledRef.current.add(e.id));
+    (async () => {
+      const patches: api.RecordPatch[] = [];
+      for (const id of new Set(due.map((e) => e.outreachId))) {
+        try {
+          const { threadId, stage, firstContact, emailVersion, sentEmails } = await api.getRecord<Outreach>(workspace.id, "outreach", id);
+          patches.push({ collection: "outreach", id, patch: { threadId, stage, firstContact, emailVersion, sentEmails } });
+        } catch (error) {
+          console.error("Could not pull an outreach record after a scheduled send:", error);
+        }
+      }
+      applyServerPatches(patches);
+    })();
+  }, [outbox.entries]);
+
+  // Queued file operations are retried every minute, besides right after reconnecting.
+  useEffect(() => {
+    flushFileOps();
+    const interval = setInterval(() => {
+      if (fileOpsRef.current.some((op) => !op.error || op.offline)) flushFileOps();
+    }, 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    saveStore(store, workspace.id);
+
+    const synced = serverStoreRef.current;
+    if (!synced) {
+      if (store !== initialStoreRef.current) markStoreDirty(workspace.id, cacheBaseRef.current);
+      return;
+    }
+    if (synced === store) return;
+
+    // Fields in an open tab conflict stay as the server has them until resolved.
+    const ops = withoutConflictedFields(diffStores(synced, store), tabConflicts);
+    serverStoreRef.current = tabConflicts.length ? applyTabMessage(synced, { from: TAB_ID, ops, previous: {} }, true).store : store;
+    if (!ops.length) return;
+
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => pushStoreOps(ops, workspace.id))
+      .catch((error) => {
+        console.error('Store sync failed, will resend on reconnect:', error);
+        markStoreDirty(workspace.id, synced);
+        serverStoreRef.current = null;
+      });
+  }, [store]);
+
+  useEffect(() => {
+    const before = previousStoreRef.current;
+    previousStoreRef.current = store;
+    if (before === store) return;
+
+    const action = pendingActionRef.current;
+    pendingActionRef.current = null;
+    const origin = storeOriginRef.current?.store === store ? storeOriginRef.current.origin : "local";
+    if (origin !== "local") storeOriginRef.current = null;
+
+    if (origin === "local" || origin === "history") {
+      const msg = tabMessageFor(before, store);
+      if (msg.ops.length) tabChannelRef.current?.postMessage(msg);
+    }
+    if (origin !== "local") return;
+
+    const history = historyRef.current;
+    const last = history.past[history.past.length - 1];
+    const now = Date.now();
+    // Only coalesce when nothing from another tab or the server landed in between.
+    if (!action && last && !last.label && !last.fileMoves.length && last.after === before && now - last.at < HISTORY_COALESCE_MS) {
+      last.after = store;
+      last.at = now;
+    } else {
+      history.past.push({
+        label: action?.label || "",
+        before,
+        after: store,
+        fileMoves: action?.fileMoves || [],
+        at: now,
+      });
+      if (history.past.length > HISTORY_LIMIT) history.past.shift();
+    }
+    history.future = [];
+    setUndoToast(action?.toast ? action.label : null);
+    setHistoryVersion((v) => v + 1);
+  }, [store]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  function recordAction(label: string, options: { fileMoves?: FileMove[]; toast?: boolean } = {}) {
+    pendingActionRef.current = { label, fileMoves: options.fileMoves || [], toast: Boolean(options.toast) };
+  }
+
+  function setFileOps(update: (ops: PendingFileOp[]) => PendingFileOp[]) {
+    const next = update(fileOpsRef.current);
+    fileOpsRef.current = next;
+    saveFileOps(workspace.id, next);
+    setFileOpsState(next);
+  }
+
+  // Runs a file operation now, or queues it: while the server is unavailable, after a
+  // failure, and while earlier operations are still queued, since it may depend on
+  // them (a move into a folder whose rename has not landed). Returns true when it
+  // completed right away.
+  async function performFileOp(op: FileOp): Promise<boolean> {
+    const blocker = fileServerBlocker(serverHealth.state);
+    if (blocker) {
+      setFileOps((ops) => enqueueFileOp(ops, op, { error: blocker, offline: true }));
+      return false;
+    }
+    if (fileOpsRef.current.length) {
+      setFileOps((ops) => enqueueFileOp(ops, op));
+      flushFileOps();
+      return false;
+    }
+    try {
+      await runFileOp(op, workspace.id);
+      return true;
+    } catch (e) {
+      console.error("File operation failed, queued for retry", e);
+      setFileOps((ops) => enqueueFileOp(ops, op, fileOpFailure(e)));
+      return false;
+    }
+  }
+
+  // Replays the queue in order. An unreachable server stops the pass; an operation
+  // the server refused keeps its error and waits for Retry or Drop.
+  async function flushFileOps() {
+    if (fileServerBlocker(serverHealth.state)) return; // the health check flushes once the server is back
+    const flush = fileOpsFlushRef.current;
+    if (flush.running) {
+      flush.again = true;
+      return;
+    }
+    flush.running = true;
+    flush.again = false;
+    const tried = new Set<ID>();
+    try {
+      for (;;) {
+        const op = fileOpsRef.current.find((o) => !tried.has(o.id) && (!o.error || o.offline));
+        if (!op) break;
+        tried.add(op.id);
+        try {
+          await runFileOp(op, workspace.id);
+        } catch (e) {
+          const failure = fileOpFailure(e);
+          setFileOps((ops) => ops.map((o) => (o.id === op.id ? { ...o, attempts: o.attempts + 1, ...failure } : o)));
+          if (failure.offline) break;
+          continue;
+        }
+        // A rename or move that was redirected while in flight continues from where it landed.
+        setFileOps((ops) =>
+          ops.flatMap((o) => {
+            if (o.id !== op.id) return [o];
+            return o.kind !== "create-folder" && op.kind !== "create-folder" && o.to !== op.to ? [{ ...o, from: op.to }] : [];
+          })
+        );
+        applyFileOp(op);
+      }
+    } finally {
+      flush.running = false;
+    }
+    if (flush.again) flushFileOps();
+  }
+
+  // Records what an immediate success would have: the new link, and the undo entry.
+  function applyFileOp(op: FileOp) {
+    if (op.kind === "move-file") {
+      if (!storeRef.current.materials.some((m) => m.id === op.materialId)) return;
+      const [folder, ...rest] = op.to.split("/");
+      recordAction("Move material file", { fileMoves: [{ from: op.from, to: op.to }] });
+      setStore((s) => patchStoreRecord(s, "materials", op.materialId, { link: api.fileUrl(folder, rest.join("/")) }));
+    } else if (op.kind === "rename-folder") {
+      const [fromFolder, toFolder] = [projectFolderName(op.from), projectFolderName(op.to)];
+      const from = `/files/${encodeURIComponent(fromFolder)}/`;
+      const to = `/files/${encodeURIComponent(toFolder)}/`;
+      recordAction("Rename project folder", { fileMoves: fromFolder === toFolder ? [] : [{ from: fromFolder, to: toFolder }] });
+      setStore((s) =>
+        normalizeStore({
+          ...s,
+          materials: s.materials.map((m) =>
+            m.targetProject === op.projectId && m.link ? { ...m, link: m.link.replace(from, to) } : m
+          ),
+        })
+      );
+    }
+  }
+
+  function retryFileOps(id?: ID) {
+    setFileOps((ops) => ops.map((o) => (!id || o.id === id ? { ...o, error: null, offline: false } : o)));
+    flushFileOps();
+  }
+
+  function dropFileOp(id: ID) {
+    setFileOps((ops) => ops.filter((o) => o.id !== id));
+  }
+
+  async function stepHistory(direction: "undo" | "redo") {
+    if (workspace.archived) return;
+    const history = historyRef.current;
+    const entry = direction === "undo" ? history.past.pop() : history.future.pop();
+    if (!entry) return;
+    (direction === "undo" ? history.future : history.past).push(entry);
+    setUndoToast(null);
+    setHistoryVersion((v) => v + 1);
+
+    const failed = await replayFileMoves(entry.fileMoves, direction, workspace.id);
+    if (failed.length) {
+      alert(
+        `${direction === "undo" ? "Undid" : "Redid"} "${entry.label || "edit"}", but ${failed.length} file(s) could not be moved back:\n` +
+          failed.map((m) => (direction === "undo" ? m.from : m.to)).join("\n")
+      );
+    }
+
+    const [from, to] = direction === "undo" ? [entry.after, entry.before] : [entry.before, entry.after];
+    const { store: target, conflicts } = applyTabMessage(storeRef.current, tabMessageFor(from, to));
+    if (conflicts.length) {
+      alert(
+        `${direction === "undo" ? "Undid" : "Redid"} "${entry.label || "edit"}", but these fields were changed since and were left as they are:\n` +
+          conflicts.map((c) => `${c.label}: ${c.field}`).join("\n")
+      );
+    }
+    storeOriginRef.current = { store: target, origin: "history" };
+    setStoreState(target);
+  }
+
+  const stepHistoryRef = useRef(stepHistory);
+  stepHistoryRef.current = stepHistory;
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y). Text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      e.preventDefault();
+      stepHistoryRef.current(key === "y" || e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const canUndo = historyRef.current.past.length > 0;
+  const canRedo = historyRef.current.future.length > 0;
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(`${storeKeyFor(workspace.id)}:tabs`);
+    tabChannelRef.current = channel;
+    channel.onmessage = (e: MessageEvent<TabSyncMessage>) => {
+      const msg = e.data;
+      if (!msg || msg.from === TAB_ID) return;
+
+      // The sending tab pushes these ops to the server itself.
+      if (serverStoreRef.current) serverStoreRef.current = applyTabMessage(serverStoreRef.current, msg, true).store;
+
+      const { store: merged, conflicts, settled } = applyTabMessage(storeRef.current, msg);
+      setTabConflicts((prev) => [
+        ...prev.filter((c) => !settled.includes(c.key) && !conflicts.some((n) => n.key === c.key)),
+        ...conflicts,
+      ]);
+      storeOriginRef.current = { store: merged, origin: "tab" };
+      setStoreState(merged);
+    };
+    return () => {
+      channel.close();
+      tabChannelRef.current = null;
+    };
+  }, []);
+
+  function resolveTabConflict(conflict: TabConflict, keep: "mine" | "theirs") {
+    setTabConflicts((prev) => prev.filter((c) => c.key !== conflict.key));
+    if (keep === "theirs") {
+      recordAction(`Use other tab's ${conflict.field}`);
+      setStore((s) => patchStoreRecord(s, conflict.collection, conflict.id, { [conflict.field]: conflict.theirs }));
+      return;
+    }
+    // Our value is already in place here; re-send it so the other tab and the server converge on it.
+    const op: StoreOp = { kind: "update", collection: conflict.collection, id: conflict.id, patch: { [conflict.field]: conflict.mine } };
+    tabChannelRef.current?.postMessage({
+      from: TAB_ID,
+      ops: [op],
+      previous: { [`${conflict.collection}/${conflict.id}`]: { [conflict.field]: conflict.theirs } },
+    } satisfies TabSyncMessage);
+    const synced = serverStoreRef.current;
+    if (synced) serverStoreRef.current = patchStoreRecord(synced, conflict.collection, conflict.id, op.patch);
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => pushStoreOps([op], workspace.id))
+      .catch((error) => {
+        console.error('Store sync failed, will resend on reconnect:', error);
+        markStoreDirty(workspace.id, synced);
+        serverStoreRef.current = null;
+      });
+  }
+
+  // Auto-backup every 30 minutes. The server backs up its own copy of the store,
+  // so a stale tab cannot overwrite newer data; tabs share one schedule.
+  useEffect(() => {
+    const lastBackupKey = `${storeKeyFor(workspace.id)}:lastBackup`;
+    const backupData = async () => {
+      const last = Number(safeStorageGet(lastBackupKey) || 0);
+      if (Date.now() - last < 30 * 60 * 1000) return;
+      safeStorageSet(lastBackupKey, String(Date.now()));
+      try {
+        await api.saveBackup(workspace.id, storeRef.current);
+        console.log('Auto-backup successful');
+      } catch (error) {
+        console.error('Auto-backup failed:', error);
+      }
+    };
+
+    // Initial backup on load
+    backupData();
+
+    const interval = setInterval(backupData, 60 * 1000); // Check every minute; backs up every 30
+    return () => clearInterval(interval);
+  }, []);
+
+  // Check for follow-ups on mount and every hour
+  useEffect(() => {
+    const checkFollowups = async () => {
+      if (serverHealth.state.status === "offline") return;
+      try {
+        const data = await api.checkFollowups(store.outreach);
+        if (data.results.length > 0) {
+          setFollowupReminders(data.results);
+        }
+      } catch (error) {
+        console.error('Failed to check follow-ups:', error);
+      }
+    };
+
+    checkFollowups();
+    const interval = setInterval(checkFollowups, 60 * 60 * 1000); // Check every hour
+
+    return () => clearInterval(interval);
+  }, [store.outreach]);
+
+  const projectsById = useMemo(
+    () => new Map(store.projects.map((p) => [p.id, p] as const)),
+    [store.projects]
+  );
+
+  const filteredProjects = useMemo(() => {
+    const needle = q.trim().toLowerCase();
+    const now = Date.now();
+
+    return store.projects
+      .filter((p) => {
+        if (statusFilter !== "ALL" && p.status !== statusFilter) return false;
+        if (priorityFilter !== "ALL" && p.priority !== priorityFilter) return false;
+        if (decisionFilter !== "ALL" && p.decision !== decisionFilter) return false;
+
+        if (showOnlyUpcoming) {
+          const nextAct = parseDateOrNull(p.nextActionDate);
+          const ddl = parseDateOrNull(p.ddl);
+          if (!((nextAct !== null && nextAct >= now) || (ddl !== null && ddl >= now))) {
+            return false;
+          }
+        }
+
+        if (!needle) return true;
+        const hay = [
+          p.projectId,
+          p.name,
+          p.institution,
+          p.region,
+          p.type,
+          p.piLab,
+          (p.keywords || []).join(" "),
+          (p.materials || []).join(" "),
+          p.notes,
+        ]
+          .join(" | ")
+          .toLowerCase();
+        return hay.includes(needle);
+      })
+      .sort((a, b) => parseDateOrInf(a.ddl) - parseDateOrInf(b.ddl));
+  }, [store.projects, q, statusFilter, priorityFilter, decisionFilter, showOnlyUpcoming]);
+
+  const dashboard = useMemo(() => {
+    const counts = new Map<ProjectStatus, number>();
+    STATUS_LIST.forEach((s) => counts.set(s, 0));
+    for (const p of store.projects) counts.set(p.status, (counts.get(p.status) || 0) + 1);
+
+    const now = Date.now();
+    const sortedByDDL = [...store.projects].sort((a, b) => parseDateOrInf(a.ddl) - parseDateOrInf(b.ddl));
+    const nextDDL =
+      sortedByDDL.find((p) => {
+        const t = parseDateOrNull(p.ddl);
+        return t !== null && t >= now;
+      }) || sortedByDDL.find((p) => p.ddl);
+
+    const upcomingFollowUps = [...store.outreach]
+      .filter((o) => o.nextFollowUp)
+      .sort((a, b) => parseDateOrInf(a.nextFollowUp) - parseDateOrInf(b.nextFollowUp))
+      .slice(0, 5);
+
+    const tasksDue = [...store.materials]
+      .filter((m) => m.due)
+      .sort((a, b) => parseDateOrInf(a.due) - parseDateOrInf(b.due))
+      .slice(0, 6);
+
+    const actions = [...store.projects]
+      .filter((p) => p.nextActionDate)
+      .sort((a, b) => parseDateOrInf(a.nextActionDate) - parseDateOrInf(b.nextActionDate))
+      .slice(0, 6);
+
+    const decisionStats = {
+      total: store.decisions.length,
+      apply: store.decisions.filter(d => d.conclusion === "Apply").length,
+      maybe: store.decisions.filter(d => d.conclusion === "Maybe").length,
+      no: store.decisions.filter(d => d.conclusion === "No").length,
+    };
+
+    return { counts, nextDDL, upcomingFollowUps, tasksDue, actions, decisionStats };
+  }, [store.projects, store.outreach, store.materials, store.decisions]);
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const importModeRef = useRef<"replace" | "merge">("replace");
+  const csvInputRef = useRef<HTMLInputElement | null>(null);
+  const [csvSource, setCsvSource] = useState<{ fileName: string; text: string } | null>(null);
+  const [mergeSource, setMergeSource] = useState<{ fileName: string; store: Store } | null>(null);
+
+  function exportJSON() {
+    downloadText(`summer-research-tracker_${todayISO()}.json`, JSON.stringify(store, null, 2));
+  }
+
+  async function exportEncryptedJSON() {
+    const passphrase = await askPassphrase({
+      title: "Export encrypted JSON",
+      description: "The file is encrypted with AES-GCM. Import asks for this passphrase.",
+      confirm: true,
+    });
+    if (passphrase === null) return;
+    const envelope = await encryptJson(store, passphrase);
+    downloadText(`summer-research-tracker_${todayISO()}.encrypted.json`, JSON.stringify(envelope, null, 2));
+  }
+
+  function exportProjectsCSV() {
+    const headers = [
+      "ProjectID",
+      "Name",
+      "Institution",
+      "Region",
+      "Type",
+      "DDL",
+      "Funding",
+      "Status",
+      "Fit",
+      "Risk",
+      "ROI",
+      "Priority",
+      "Decision",
+      "NextAction",
+      "NextActionDate",
+      "OfficialLink",
+    ];
+
+    const rows = store.projects.map((p) => [
+      p.projectId,
+      p.name,
+      p.institution,
+      p.region,
+      p.type,
+      p.ddl,
+      (p.funding || []).join(";"),
+      p.status,
+      String(p.fit),
+      String(p.risk),
+      String(p.roi),
+      p.priority,
+      p.decision,
+      p.nextAction,
+      p.nextActionDate,
+      p.officialLink,
+    ]);
+
+    const csv = [headers, ...rows]
+      .map((r) => r.map((x) => csvEscape(String(x || ""))).join(","))
+      .join("\n");
+    downloadText(`projects_${todayISO()}.csv`, csv);
+  }
+
+  function exportWorkbook() {
+    const bytes = buildXlsx(buildWorkbookSheets(store));
+    downloadBlob(
+      `summer-research-tracker_${todayISO()}.xlsx`,
+      new Blob([bytes], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+    );
+  }
+
+  async function exportCalendar() {
+    try {
+      downloadBlob(`summer-research-tracker_${todayISO()}.ics`, await api.getCalendar(workspace.id));
+    } catch (e) {
+      alert(`Calendar export failed. ${api.describeError(e)}`);
+    }
+  }
+
+  // Calendar apps cannot send the pairing token, so the copied URL carries the
+  // feed token, which the server accepts for the feed and nothing else.
+  async function copyCalendarFeedUrl() {
+    let url: string;
+    try {
+      url = api.calendarFeedUrl(workspace.id, (await api.getFeedToken()).token);
+    } catch (e) {
+      alert(`Could not get the feed URL. ${api.describeError(e)}`);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      alert(`Feed URL copied. Subscribe to it in your calendar app:\n${url}`);
+    } catch {
+      prompt("Subscribe to this URL in your calendar app:", url);
+    }
+  }
+
+  // Changes the server made to its own copy of the store: applied to both copies, so
+  // nothing is pushed back, and passed on to the other tabs.
+  function applyServerPatches(patches: api.RecordPatch[]) {
+    if (!patches.length) return;
+    const before = storeRef.current;
+    let next = before;
+    for (const p of patches) {
+      next = patchStoreRecord(next, p.collection, p.id, p.patch);
+      if (serverStoreRef.current) serverStoreRef.current = patchStoreRecord(serverStoreRef.current, p.collection, p.id, p.patch);
+    }
+    tabChannelRef.current?.postMessage(tabMessageFor(before, next));
+    storeOriginRef.current = { store: next, origin: "server" };
+    setStoreState(next);
+  }
+
+  // The server runs the sync against its copy of the store, so local edits are flushed
+  // first; the record patches it applied (event ids, dates pulled from Calendar) come back here.
+  async function syncGoogleCalendar() {
+    if (!serverStoreRef.current) {
+      alert("Google Calendar sync needs the server. Start it and try again.");
+      return;
+    }
+    try {
+      await syncQueueRef.current;
+      const data = await api.syncGoogleCalendar(workspace.id);
+      applyServerPatches(data.patches);
+
+      const { created, updated, deleted, pulled, errors } = data.summary;
+      alert(
+        `Google Calendar synced: ${created} created, ${updated} updated, ${deleted} removed, ${pulled} date(s) pulled from Calendar.` +
+          (errors.length ? `\n\n${errors.length} event(s) failed:\n${errors.map((e) => `${e.record}: ${e.error}`).join("\n")}` : "")
+      );
+    } catch (e) {
+      alert(`Google Calendar sync failed. ${api.describeError(e)}`);
+    }
+  }
+
+  function triggerImport(mode: "replace" | "merge" = "replace") {
+    importModeRef.current = mode;
+    fileInputRef.current?.click();
+  }
+
+  function handleImportFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = async () => {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(String(reader.result || ""));
+      } catch {
+        alert("Import failed. Please upload a valid exported JSON file.");
+        return;
+      }
+      if (isEncryptedEnvelope(parsed)) {
+        const envelope = parsed;
+        let description = "Enter the passphrase the file was exported with.";
+        parsed = null;
+        while (!parsed) {
+          const passphrase = await askPassphrase({ title: `Encrypted file · ${file.name}`, description, confirm: false });
+          if (passphrase === null) return;
+          try {
+            parsed = await decryptJson(envelope, passphrase);
+          } catch (e) {
+            description = `${e instanceof Error ? e.message : e}. Try again.`;
+          }
+        }
+      }
+      if (!Array.isArray(parsed?.projects)) {
+        alert("Import failed. Please upload a valid exported JSON file.");
+        return;
+      }
+      try {
+        const { store: next, report } = migrateStore(parsed);
+        if (importModeRef.current === "merge") {
+          setMergeSource({ fileName: file.name, store: next });
+        } else {
+          recordAction("Import JSON", { toast: true });
+          setStore(next);
+        }
+        setMigrationReport(report);
+      } catch (e) {
+        alert(`Import refused. ${e instanceof Error ? e.message : e}`);
+      }
+    };
+    reader.readAsText(file);
+  }
+
+  const [archiving, setArchiving] = useState(false);
+  const [reportProjectIds, setReportProjectIds] = useState<ID[] | null>(null);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [selectedOutreach, setSelectedOutreach] = useState<Set<ID>>(() => new Set());
+  const [campaignIds, setCampaignIds] = useState<ID[] | null>(null);
+  const [showScheduled, setShowScheduled] = useState(false);
+
+  // Selection for an email campaign; ids of deleted records drop out here.
+  const selectedOutreachIds = useMemo(
+    () => store.outreach.filter((o) => selectedOutreach.has(o.id)).map((o) => o.id),
+    [store.outreach, selectedOutreach]
+  );
+
+  const [askPassphrase, passphrasePrompt] = usePassphrasePrompt();
+
+  async function startSeason(name: string, first: Store) {
+    const created = await api.createWorkspace(name);
+    // Cache the new season locally and let the first connection upload it.
+    saveStore(first, created.id);
+    markStoreDirty(created.id, null);
+    await onSwitchWorkspace(created.id);
+  }
+
+  async function newSeason() {
+    const name = prompt("New season name:");
+    if (!name?.trim()) return;
+    try {
+      await startSeason(name.trim(), carryOverProjects([]));
+    } catch (e) {
+      alert(`Failed to create season. ${api.describeError(e)}`);
+    }
+  }
+
+  async function archiveSeason(nextSeason: string | null, projectIds: ID[]) {
+    try {
+      await api.setWorkspaceArchived(workspace.id, true);
+      setArchiving(false);
+      if (nextSeason) {
+        const picked = new Set(projectIds);
+        await startSeason(nextSeason, carryOverProjects(store.projects.filter((p) => picked.has(p.id)), store.templates));
+      } else {
+        onWorkspacesChanged();
+      }
+    } catch (e) {
+      alert(`Archive failed. ${api.describeError(e)}`);
+    }
+  }
+
+  async function reopenSeason() {
+    try {
+      await api.setWorkspaceArchived(workspace.id, false);
+      onWorkspacesChanged();
+    } catch (e) {
+      alert(`Failed to reopen season. ${api.describeError(e)}`);
+    }
+  }
+
+  async function restoreBackup(data: unknown, name: string) {
+    let restored: ReturnType<typeof migrateStore>;
+    try {
+      restored = migrateStore(data);
+    } catch (e) {
+      alert(`Restore refused. ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+    try {
+      // Keep the data being replaced recoverable from the same list.
+      await api.saveBackup(workspace.id, storeRef.current);
+    } catch (error) {
+      console.error('Pre-restore backup failed:', error);
+      if (!confirm('Could not back up the current data first. Restore anyway?')) return;
+    }
+    recordAction(`Restore ${name}`, { toast: true });
+    setStore(restored.store);
+    setMigrationReport(restored.report);
+  }
+
+  async function restoreOfflineBackup() {
+    if (!offlineBackup) return;
+    if (!confirm(`Replace all current data with ${offlineBackup}? A backup of the current data is saved first.`)) return;
+    try {
+      await restoreBackup(await api.getBackup(workspace.id, offlineBackup), offlineBackup);
+      setOfflineBackup(null);
+    } catch (err) {
+      alert(`Failed to restore backup. ${api.describeError(err)} It is still listed under Settings → Backups.`);
+    }
+  }
+
+  function handleCsvFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => setCsvSource({ fileName: file.name, text: String(reader.result || "") });
+    reader.readAsText(file);
+  }
+
+  function importProjectRows(results: CsvRowResult[]) {
+    recordAction("Import projects CSV", { toast: true });
+    setStore((s) => {
+      // Empty cells never blank out fields on projects that already exist.
+      const patches = new Map(
+        results
+          .filter((r) => r.existingId)
+          .map((r) => [r.existingId!, Object.fromEntries(Object.entries(r.values).filter(([, v]) => !isBlankValue(v)))] as const)
+      );
+      const created = results
+        .filter((r) => !r.existingId)
+        .map((r, idx) => {
+          const base = blankProject(r.values.projectId || nextProjectCode(s.projects.length + idx));
+          return { ...base, ...r.values, projectId: r.values.projectId || base.projectId };
+        });
+      return normalizeStore({
+        ...s,
+        projects: [...created, ...s.projects.map((p) => (patches.has(p.id) ? { ...p, ...patches.get(p.id) } : p))],
+      });
+    });
+    setCsvSource(null);
+  }
+
+  function resetAll() {
+    const ok = confirm("Reset everything to a fresh template (includes sample data)?");
+    if (!ok) return;
+    recordAction("Reset", { toast: true });
+    setStore(seed());
+  }
+
+  async function addProject() {
+    const name = prompt("Enter project name (this will create a folder):");
+    if (name === null) return;
+
+    await performFileOp({ kind: "create-folder", folder: name || "Untitled" });
+
+    const p: Project = {
+      ...blankProject(nextProjectCode(store.projects.length)),
+      name: name || "",
+    };
+    recordAction("Add project");
+    setStore((s) => normalizeStore({ ...s, projects: [p, ...s.projects] }));
+  }
+
+  async function updateProject(id: ID, patch: Partial<Project>) {
+    const oldProject = store.projects.find(p => p.id === id);
+    
+    // Handle Folder Rename
+    if (oldProject && patch.name && patch.name !== oldProject.name) {
+      const renamed = await performFileOp({ kind: "rename-folder", projectId: id, from: oldProject.name, to: patch.name });
+      const [fromFolder, toFolder] = [projectFolderName(oldProject.name), projectFolderName(patch.name)];
+      recordAction("Rename project", {
+        fileMoves: renamed && fromFolder !== toFolder ? [{ from: fromFolder, to: toFolder }] : [],
+      });
+
+      // Update links for all materials in this project; a queued rename does this when it lands
+      if (renamed) {
+        const materialsToUpdate = store.materials.filter(m => m.targetProject === id && m.link);
+        materialsToUpdate.forEach(m => {
+          const newLink = m.link.replace(
+            `/files/${encodeURIComponent(fromFolder)}/`, 
+            `/files/${encodeURIComponent(toFolder)}/`
+          );
+          updateMaterial(m.id, { link: newLink });
+        });
+      }
+    }
+
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        projects: s.projects.map((p) => (p.id === id ? { ...p, ...patch } : p)),
+      })
+    );
+  }
+
+  async function openProjectFolder(project: Project) {
+    try {
+      await api.openProjectFolder(workspace.id, project.name || "Untitled");
+    } catch (e) {
+      alert(`Failed to open folder: ${api.describeError(e)}`);
+    }
+  }
+
+  async function deleteProject(id: ID) {
+    const ok = confirm("Delete this project? (linked outreach/materials will remain)");
+    if (!ok) return;
+
+    const project = store.projects.find(p => p.id === id);
+    const fileMoves: FileMove[] = [];
+    if (project && project.name) {
+      const deleteFiles = confirm(`Also delete the folder "${project.name}" and all its files?`);
+      if (deleteFiles) {
+        try {
+          const { trashPath } = await api.deleteFolder(workspace.id, project.name);
+          fileMoves.push({ from: projectFolderName(project.name), to: trashPath });
+        } catch (e) {
+          console.error("Failed to delete folder", e);
+        }
+      }
+    }
+
+    recordAction(`Delete project ${project?.name || project?.projectId || ""}`.trim(), { fileMoves, toast: true });
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        projects: s.projects.filter((p) => p.id !== id),
+        decisions: s.decisions.filter((d) => d.projectInternalId !== id),
+        outreach: s.outreach.map((o) => ({
+          ...o,
+          projectIds: (o.projectIds || []).filter((pid) => pid !== id),
+        })),
+        materials: s.materials.map((m) =>
+          m.targetProject === id ? { ...m, targetProject: "通用" } : m
+        ),
+      })
+    );
+  }
+
+  function addOutreach(linkProjectId?: ID) {
+    const o: Outreach = {
+      id: uid("o"),
+      outreachId: `PI-${new Date().getFullYear() + 1}-${String(store.outreach.length + 1).padStart(2, "0")}`,
+      piName: "",
+      institution: "",
+      directions: [],
+      contact: "",
+      firstContact: "",
+      emailVersion: "",
+      replied: "No reply",
+      replyDate: "",
+      replySummary: "",
+      stage: "Drafting",
+      nextFollowUp: "",
+      nextAction: "",
+      projectIds: linkProjectId ? [linkProjectId] : [],
+      notes: "",
+    };
+
+    recordAction("Add outreach");
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        outreach: [o, ...s.outreach],
+        projects: linkProjectId
+          ? s.projects.map((p) =>
+              p.id === linkProjectId
+                ? { ...p, outreachIds: Array.from(new Set([...(p.outreachIds || []), o.id])) }
+                : p
+            )
+          : s.projects,
+      })
+    );
+  }
+
+  function updateOutreach(id: ID, patch: Partial<Outreach>) {
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        outreach: s.outreach.map((o) => (o.id === id ? { ...o, ...patch } : o)),
+      })
+    );
+  }
+
+  function linkOutreachToProject(outreachId: ID, projectId: ID) {
+    recordAction("Link outreach");
+    setStore((s) => {
+      const o = s.outreach.find((x) => x.id === outreachId);
+      const p = s.projects.find((x) => x.id === projectId);
+      if (!o || !p) return s;
+
+      const nextOutreach = s.outreach.map((x) =>
+        x.id === outreachId
+          ? { ...x, projectIds: Array.from(new Set([...(x.projectIds || []), projectId])) }
+          : x
+      );
+
+      const nextProjects = s.projects.map((x) =>
+        x.id === projectId
+          ? { ...x, outreachIds: Array.from(new Set([...(x.outreachIds || []), outreachId])) }
+          : x
+      );
+
+      return normalizeStore({ ...s, outreach: nextOutreach, projects: nextProjects });
+    });
+  }
+
+  function deleteOutreach(id: ID) {
+    const ok = confirm("Delete this outreach record?");
+    if (!ok) return;
+    const record = store.outreach.find((o) => o.id === id);
+    recordAction(`Delete outreach ${record?.piName || record?.outreachId || ""}`.trim(), { toast: true });
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        outreach: s.outreach.filter((o) => o.id !== id),
+        projects: s.projects.map((p) => ({
+          ...p,
+          outreachIds: (p.outreachIds || []).filter((oid) => oid !== id),
+        })),
+      })
+    );
+  }
+
+  function addTemplate(t: EmailTemplate) {
+    recordAction("Add template");
+    setStore((s) => normalizeStore({ ...s, templates: [...s.templates, t] }));
+  }
+
+  function updateTemplate(id: ID, patch: Partial<EmailTemplate>) {
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        templates: s.templates.map((t) => (t.id === id ? { ...t, ...patch, updatedAt: new Date().toISOString() } : t)),
+      })
+    );
+  }
+
+  function deleteTemplate(id: ID) {
+    const record = store.templates.find((t) => t.id === id);
+    const ok = confirm(`Delete the template "${record ? templateLabel(record) : ""}"? Outreach records keep the version label they were sent with.`);
+    if (!ok) return;
+    recordAction(`Delete template ${record ? templateLabel(record) : ""}`.trim(), { toast: true });
+    setStore((s) => normalizeStore({ ...s, templates: s.templates.filter((t) => t.id !== id) }));
+  }
+
+  // Applied from the store as it is when the email goes out, since a campaign runs
+  // for minutes and the record may be edited in the meantime.
+  function recordCampaignEmail(id: ID, copy: SentEmail) {
+    recordAction(`Campaign email to ${copy.to}`);
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        outreach: s.outreach.map((o) =>
+          o.id === id
+            ? {
+                ...o,
+                threadId: copy.threadId,
+                stage: "Sent",
+                firstContact: o.firstContact || todayISO(),
+                emailVersion: copy.template?.version || o.emailVersion,
+                sentEmails: [...(o.sentEmails || []), copy],
+              }
+            : o
+        ),
+      })
+    );
+  }
+
+  function toggleOutreachSelection(id: ID, on: boolean) {
+    setSelectedOutreach((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  function addMaterial(linkProjectId?: ID) {
+    const m: MaterialTask = {
+      id: uid("m"),
+      taskId: `MAT-${String(store.materials.length + 1).padStart(2, "0")}`,
+      type: "CV",
+      targetProject: linkProjectId || "通用",
+      status: "未开始",
+      version: "v1",
+      due: "",
+      dependency: "",
+      link: "",
+      notes: "",
+    };
+
+    recordAction("Add material");
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        materials: [m, ...s.materials],
+        projects: linkProjectId
+          ? s.projects.map((p) =>
+              p.id === linkProjectId
+                ? { ...p, materialTaskIds: Array.from(new Set([...(p.materialTaskIds || []), m.id])) }
+                : p
+            )
+          : s.projects,
+      })
+    );
+  }
+
+  async function updateMaterial(id: ID, patch: Partial<MaterialTask>) {
+    const current = store.materials.find((m) => m.id === id);
+    if (!current) return;
+
+    // Handle File Move/Rename
+    if (current.link && (patch.targetProject || patch.type)) {
+      const oldProjectName = current.targetProject === "通用" 
+        ? "General" 
+        : store.projects.find(p => p.id === current.targetProject)?.name || "General";
+      
+      const newTargetId = patch.targetProject !== undefined ? patch.targetProject : current.targetProject;
+      const newProjectName = newTargetId === "通用"
+        ? "General"
+        : store.projects.find(p => p.id === newTargetId)?.name || "General";
+
+      const oldType = current.type;
+      const newType = patch.type !== undefined ? patch.type : oldType;
+
+      // Extract filename from link (assuming format .../files/Project/Filename.ext)
+      const urlParts = current.link.split('/');
+      const oldFilename = decodeURIComponent(urlParts[urlParts.length - 1]);
+      const ext = oldFilename.includes('.') ? '.' + oldFilename.split('.').pop() : '';
+      
+      // If type changed, new filename changes
+      const newFilename = (patch.type && patch.type !== oldType) 
+        ? `${newType}${ext}` 
+        : oldFilename;
+
+      if (oldProjectName !== newProjectName || oldFilename !== newFilename) {
+        const from = `${projectFolderName(oldProjectName)}/${oldFilename}`;
+        const to = `${projectFolderName(newProjectName)}/${newFilename}`;
+        // A queued move keeps the old link until the file is actually there
+        if (await performFileOp({ kind: "move-file", materialId: id, from, to })) {
+          patch.link = api.fileUrl(projectFolderName(newProjectName), newFilename);
+          recordAction("Move material file", { fileMoves: [{ from, to }] });
+        }
+      }
+    }
+
+    setStore((s) => {
+      const current = s.materials.find((m) => m.id === id);
+      if (!current) return s;
+
+      const oldTarget = current.targetProject;
+      const newTarget = patch.targetProject !== undefined ? patch.targetProject : oldTarget;
+
+      const nextMaterials = s.materials.map((m) => (m.id === id ? { ...m, ...patch } : m));
+
+      let nextProjects = s.projects;
+      if (newTarget !== oldTarget) {
+        nextProjects = s.projects.map((p) => {
+          let ids = Array.isArray(p.materialTaskIds) ? p.materialTaskIds : [];
+          if (oldTarget !== "通用" && p.id === oldTarget) ids = ids.filter((mid) => mid !== id);
+          if (newTarget !== "通用" && p.id === newTarget) ids = Array.from(new Set([...ids, id]));
+          return ids === p.materialTaskIds ? p : { ...p, materialTaskIds: ids };
+        });
+      }
+
+      return normalizeStore({ ...s, materials: nextMaterials, projects: nextProjects });
+    });
+  }
+
+  async function deleteMaterial(id: ID) {
+    const ok = confirm("Delete this material task?");
+    if (!ok) return;
+
+    const task = store.materials.find(m => m.id === id);
+    const fileMoves: FileMove[] = [];
+    if (task && task.link) {
+      const deleteFile = confirm("Also delete the associated file?");
+      if (deleteFile) {
+        try {
+          const urlParts = task.link.split('/');
+          const filename = decodeURIComponent(urlParts[urlParts.length - 1]);
+          const projectName = task.targetProject === "通用" 
+            ? "General" 
+            : store.projects.find(p => p.id === task.targetProject)?.name || "General";
+            
+          const filePath = `${projectFolderName(projectName)}/${filename}`;
+          const { trashPath } = await api.deleteFile(workspace.id, filePath);
+          fileMoves.push({ from: filePath, to: trashPath });
+        } catch (e) {
+          console.error("Failed to delete file", e);
+        }
+      }
+    }
+
+    recordAction(`Delete material ${task?.taskId || ""}`.trim(), { fileMoves, toast: true });
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        materials: s.materials.filter((m) => m.id !== id),
+        projects: s.projects.map((p) => ({
+          ...p,
+          materialTaskIds: (p.materialTaskIds || []).filter((mid) => mid !== id),
+        })),
+      })
+    );
+  }
+
+  function ensureDecisionForProject(pid: ID) {
+    const existing = store.decisions.find((d) => d.projectInternalId === pid);
+    if (existing) return existing.id;
+
+    const p = projectsById.get(pid);
+    const d: Decision = {
+      id: uid("d"),
+      projectInternalId: pid,
+      conclusion: p?.decision || "Maybe",
+      priority: p?.priority || "Medium",
+      whyApply: "",
+      risks: "",
+      fitEvidence: "",
+      strategy: "",
+      postResult: "",
+      timeline: "",
+      worked: "",
+      didnt: "",
+      improvements: "",
+      takeaways: "",
+    };
+
+    recordAction("Add decision");
+    setStore((s) => normalizeStore({ ...s, decisions: [d, ...s.decisions] }));
+    return d.id;
+  }
+
+  function updateDecision(id: ID, patch: Partial<Decision>) {
+    setStore((s) =>
+      normalizeStore({
+        ...s,
+        decisions: s.decisions.map((d) => (d.id === id ? { ...d, ...patch } : d)),
+      })
+    );
+  }
+
+  const filterStatusOptions: SelectOption[] = [
+    { value: "ALL", label: "ALL" },
+    ...STATUS_LIST.map((s) => ({ value: s, label: s })),
+  ];
+
+  const filterPriorityOptions: SelectOption[] = [
+    { value: "ALL", label: "ALL" },
+    ...PRIORITIES.map((p) => ({ value: p, label: p })),
+  ];
+
+  const filterDecisionOptions: SelectOption[] = [
+    { value: "ALL", label: "ALL" },
+    { value: "Apply", label: "Apply" },
+    { value: "Maybe", label: "Maybe" },
+    { value: "No", label: "No" },
+  ];
+
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-background to-muted/20">
+      <div className="mx-auto max-w-7xl px-4 py-6 md:px-6 lg:px-8 space-y-8">
+        {/* Header */}
+        <div className="flex flex-col gap-6 pb-6 border-b border-border/50 bg-card/50 backdrop-blur-sm rounded-lg p-6 shadow-sm">
+          <div className="flex items-start justify-between gap-4 flex-wrap">
+            <div>
+              <h1 className="text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
+                Summer Research Application Tracker
+              </h1>
+              <p className="text-muted-foreground mt-2 text-base">
+                Notion-like databases + dashboard · Saved to local server (browser cache offline) · Export/Import JSON
+              </p>
+            </div>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 h-10 px-4">
+                  <Calendar className="h-4 w-4" /> {workspace.name}
+                  {workspace.archived ? <Badge variant="secondary" className="text-xs">Archived</Badge> : null}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-[260px]">
+                <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {workspaces.map((w) => (
+                  <DropdownMenuItem
+                    key={w.id}
+                    onClick={() => w.id !== workspace.id && onSwitchWorkspace(w.id)}
+                    className="justify-between"
+                  >
+                    <span className={w.id === workspace.id ? "font-semibold" : undefined}>{w.name}</span>
+                    {w.archived ? <span className="text-xs text-muted-foreground">archived</span> : null}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={newSeason} className="gap-2">
+                  <Plus className="h-4 w-4" /> New season…
+                </DropdownMenuItem>
+                {workspace.archived ? (
+                  <DropdownMenuItem onClick={reopenSeason} className="gap-2">
+                    <Upload className="h-4 w-4" /> Reopen this season
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem onClick={() => setArchiving(true)} className="gap-2">
+                    <Download className="h-4 w-4" /> Archive season…
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          {workspace.archived ? (
+            <div className="rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+              {workspace.name} is archived and read-only. Reopen it from the workspace menu to make changes.
+            </div>
+          ) : null}
+
+          {health.status === "offline" ? (
+            <div className="rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+              Offline: the server at {api.serverUrl()} is not reachable. Changes are kept in this browser and sync when
+              it is back, file moves wait in Pending sync, and uploads, reply checks and opening folders are unavailable.
+            </div>
+          ) : health.status === "degraded" ? (
+            <div className="rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+              Degraded: {fileServerBlocker(health)}. Uploads, file moves and opening folders are unavailable until this
+              is fixed (Settings → External Storage Path).
+            </div>
+          ) : null}
+
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="relative flex-1 min-w-[240px] max-w-[320px]">
+              <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={q}
+                onChange={(e) => setQ(e.target.value)}
+                placeholder="Search projects / PIs / keywords..."
+                className="pl-10 h-11 border-border/50 focus:border-primary/50 transition-colors"
+              />
+            </div>
+
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 rounded-md">
+              <Checkbox 
+                id="upcoming-filter"
+                checked={showOnlyUpcoming} 
+                onCheckedChange={(v) => setShowOnlyUpcoming(Boolean(v))} 
+                className="data-[state=checked]:bg-primary data-[state=checked]:border-primary"
+              />
+              <Label htmlFor="upcoming-filter" className="text-sm font-medium cursor-pointer select-none">
+                Upcoming only
+              </Label>
+            </div>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 h-10 px-4">
+                  <Filter className="h-4 w-4" /> Filters
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-[260px]">
+                <DropdownMenuLabel>Project Filters</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+
+                <div className="px-2 py-2 space-y-2">
+                  <Label className="text-xs" htmlFor="filter_status">
+                    Status
+                  </Label>
+                  <SelectBox
+                    id="filter_status"
+                    value={statusFilter}
+                    onValueChange={(v) => setStatusFilter(v as any)}
+                    options={filterStatusOptions}
+                    className="h-10"
+                  />
+
+                  <Label className="text-xs" htmlFor="filter_priority">
+                    Priority
+                  </Label>
+                  <SelectBox
+                    id="filter_priority"
+                    value={priorityFilter}
+                    onValueChange={(v) => setPriorityFilter(v as any)}
+                    options={filterPriorityOptions}
+                    className="h-10"
+                  />
+
+                  <Label className="text-xs" htmlFor="filter_decision">
+                    Decision
+                  </Label>
+                  <SelectBox
+                    id="filter_decision"
+                    value={decisionFilter}
+                    onValueChange={(v) => setDecisionFilter(v as any)}
+                    options={filterDecisionOptions}
+                    className="h-10"
+                  />
+                </div>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <ServerStatusBadge state={health} />
+
+            {fileOps.length > 0 && (
+              <Button
+                variant="outline"
+                className="gap-2 h-10 px-4 border-amber-300 text-amber-900"
+                onClick={() => setShowFileOps(true)}
+                title="File operations waiting for the server"
+              >
+                <RefreshCw className="h-4 w-4" /> Pending sync
+                <Badge variant="secondary">{fileOps.length}</Badge>
+              </Button>
+            )}
+
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-10 w-10"
+                onClick={() => stepHistory("undo")}
+                disabled={!canUndo || workspace.archived}
+                title={canUndo ? `Undo ${historyRef.current.past[historyRef.current.past.length - 1].label || "edit"} (Ctrl+Z)` : "Nothing to undo"}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-10 w-10"
+                onClick={() => stepHistory("redo")}
+                disabled={!canRedo || workspace.archived}
+                title={canRedo ? `Redo ${historyRef.current.future[historyRef.current.future.length - 1].label || "edit"} (Ctrl+Shift+Z)` : "Nothing to redo"}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 h-10 px-4">
+                  <Settings className="h-4 w-4" /> Data
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-[260px]">
+                <DropdownMenuLabel>Export / Import</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={exportJSON} className="gap-2">
+                  <Download className="h-4 w-4" /> Export JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportEncryptedJSON} className="gap-2">
+                  <Lock className="h-4 w-4" /> Export Encrypted JSON…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportProjectsCSV} className="gap-2">
+                  <Download className="h-4 w-4" /> Export Projects CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportWorkbook} className="gap-2">
+                  <Download className="h-4 w-4" /> Export Workbook (XLSX)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setReportProjectIds([])} className="gap-2">
+                  <Printer className="h-4 w-4" /> Project Reports…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportCalendar} className="gap-2">
+                  <Calendar className="h-4 w-4" /> Export Calendar (.ics)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={copyCalendarFeedUrl} className="gap-2">
+                  <Calendar className="h-4 w-4" /> Copy Calendar Feed URL
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={syncGoogleCalendar} disabled={workspace.archived || health.status === "offline"} className="gap-2">
+                  <Calendar className="h-4 w-4" /> Sync Google Calendar
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => triggerImport("replace")} className="gap-2">
+                  <Upload className="h-4 w-4" /> Import JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => triggerImport("merge")} className="gap-2">
+                  <Upload className="h-4 w-4" /> Merge JSON…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => csvInputRef.current?.click()} className="gap-2">
+                  <Upload className="h-4 w-4" /> Import Projects CSV…
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={resetAll} className="gap-2 text-destructive">
+                  <Trash2 className="h-4 w-4" /> Reset
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <SettingsDialog workspaceId={workspace.id} onRestoreBackup={restoreBackup} />
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) handleImportFile(f);
+                e.currentTarget.value = "";
+              }}
+            />
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) handleCsvFile(f);
+                e.currentTarget.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="space-y-8">
+          <TabsList className="grid grid-cols-2 md:grid-cols-5 w-full h-12 bg-muted/50 p-1 rounded-xl">
+            <TabsTrigger value="dashboard" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
+              Dashboard
+            </TabsTrigger>
+            <TabsTrigger value="projects" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
+              Projects
+            </TabsTrigger>
+            <TabsTrigger value="outreach" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
+              PI Outreach
+            </TabsTrigger>
+            <TabsTrigger value="materials" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
+              Materials
+            </TabsTrigger>
+            <TabsTrigger value="decisions" className="text-sm font-medium rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm transition-all">
+              Decision & Review
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="dashboard" className="space-y-8 mt-8">
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                    Status Overview
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {STATUS_LIST.map((s) => (
+                    <div key={s} className="flex items-center justify-between">
+                      <div className="text-sm">{s}</div>
+                      <Pill>{dashboard.counts.get(s) || 0}</Pill>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                    Next Deadline
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {dashboard.nextDDL ? (
+                    <>
+                      <div className="text-base font-medium text-foreground">
+                        {dashboard.nextDDL.projectId} · {dashboard.nextDDL.name}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {dashboard.nextDDL.institution} · {dashboard.nextDDL.region}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Calendar className="h-4 w-4 text-red-500" />
+                        <span className="font-medium">DDL: {dashboard.nextDDL.ddl || "—"}</span>
+                      </div>
+                      <div className="flex gap-2 flex-wrap">
+                        <Pill>{dashboard.nextDDL.status}</Pill>
+                        <Pill>{dashboard.nextDDL.priority}</Pill>
+                        <Pill>Fit {dashboard.nextDDL.fit}</Pill>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No deadline yet.</div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("projects")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
+                    Upcoming Actions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {dashboard.actions.length ? (
+                    dashboard.actions.map((p) => (
+                      <div key={p.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
+                        <div className="text-sm font-medium text-foreground">
+                          {p.projectId} · {p.name}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {p.nextActionDate || "—"} · {p.nextAction || "—"}
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No upcoming actions.</div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("decisions")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-indigo-500 rounded-full"></div>
+                    Decision Stats
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm">Total Decisions</div>
+                    <Pill>{dashboard.decisionStats.total}</Pill>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-green-600">Apply</div>
+                    <Pill>{dashboard.decisionStats.apply}</Pill>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-yellow-600">Maybe</div>
+                    <Pill>{dashboard.decisionStats.maybe}</Pill>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-red-600">No</div>
+                    <Pill>{dashboard.decisionStats.no}</Pill>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("outreach")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                    Upcoming Follow-ups (PI)
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {dashboard.upcomingFollowUps.length ? (
+                    dashboard.upcomingFollowUps.map((o) => (
+                      <div key={o.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
+                        <div className="text-sm font-medium text-foreground">
+                          {o.outreachId} · {o.piName}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">{o.institution}</div>
+                        <div className="text-xs mt-1 text-muted-foreground">
+                          Next: {o.nextFollowUp || "—"} · {o.nextAction || "—"}
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No follow-ups scheduled.</div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm border-border/50 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setActiveTab("materials")}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
+                    Tasks Due (Materials)
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {dashboard.tasksDue.length ? (
+                    dashboard.tasksDue.map((m) => (
+                      <div key={m.id} className="rounded-lg border border-border/50 p-3 bg-muted/30 hover:bg-muted/50 transition-colors">
+                        <div className="text-sm font-medium text-foreground">
+                          {m.taskId} · {m.type}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Due: {m.due || "—"} · {m.status}
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No tasks due.</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Follow-up Reminders Alert */}
+            {followupReminders.length > 0 && (
+              <Card className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
+                    <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
+                    Follow-up Reminders ({followupReminders.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {followupReminders.map((reminder, idx) => (
+                    <div key={idx} className="rounded-lg border border-yellow-300 p-3 bg-white dark:bg-gray-900">
+                      <div className="text-sm font-medium text-foreground">
+                        {reminder.piName}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {reminder.message}
+                      </div>
+                      {reminder.needsFollowup && (
+                        <Badge variant="destructive" className="mt-2 text-xs">
+                          Action Required
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => setFollowupReminders([])}
+                  >
+                    Dismiss All
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="projects" className="space-y-8 mt-8">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <SectionTitle
+                title={`Projects (${filteredProjects.length})`}
+                right={
+                  <Button onClick={addProject} className="gap-2 w-full sm:w-auto shadow-sm hover:shadow-md transition-shadow">
+                    <Plus className="h-4 w-4" /> Add Project
+                  </Button>
+                }
+              />
+            </div>
+
+            {filteredProjects.length ? (
+              <div className="border border-border/50 rounded-xl overflow-hidden bg-card shadow-sm">
+                <div className="overflow-x-auto scrollbar-hide">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow className="hover:bg-muted/30">
+                        <TableHead className="min-w-[130px] font-semibold text-foreground">ID</TableHead>
+                        <TableHead className="min-w-[250px] font-semibold text-foreground">Name</TableHead>
+                        <TableHead className="min-w-[200px] font-semibold text-foreground">Institution</TableHead>
+                        <TableHead className="min-w-[110px] font-semibold text-foreground">DDL</TableHead>
+                        <TableHead className="min-w-[140px] font-semibold text-foreground">Status</TableHead>
+                        <TableHead className="min-w-[120px] font-semibold text-foreground">Priority</TableHead>
+                        <TableHead className="min-w-[300px] font-semibold text-foreground">Next Action</TableHead>
+                        <TableHead className="w-[100px] font-semibold text-foreground">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredProjects.map((p) => (
+                        <TableRow key={p.id} className="hover:bg-muted/30 transition-colors">
+                          <TableCell className="font-medium">
+                            <Input
+                              value={p.projectId}
+                              onChange={(e) => updateProject(p.id, { projectId: e.target.value })}
+                              className="h-8"
+                            />
+                          </TableCell>
+
+                          <TableCell>
+                            <div className="space-y-2">
+                              <Input
+                                value={p.name}
+                                onChange={(e) => updateProject(p.id, { name: e.target.value })}
+                                placeholder="Project name"
+                                className="h-8"
+                              />
+                              <div className="flex gap-2 flex-wrap">
+                                {(p.keywords || []).slice(0, 4).map((k, idx) => (
+                                  <Pill key={idx}>{k}</Pill>
+                                ))}
+                                {(p.keywords || []).length > 4 ? (
+                                  <Pill>+{(p.keywords || []).length - 4}</Pill>
+                                ) : null}
+                              </div>
+                            </div>
+                          </TableCell>
+
+                          <TableCell>
+                            <Input
+                              value={p.institution}
+                              onChange={(e) => updateProject(p.id, { institution: e.target.value })}
+                              placeholder="Institution"
+                              className="h-8"
+                            />
+                            <div className="mt-2">
+                              <Input
+                                value={p.region}
+                                onChange={(e) => updateProject(p.id, { region: e.target.value })}
+                                placeholder="Region"
+                                className="h-8"
+                              />
+                            </div>
+                          </TableCell>
+
+                          <TableCell>
+                            <SmartDateInput
+                              value={p.ddl}
+                              onCommit={(v) => updateProject(p.id, { ddl: v })}
+                              placeholder="MM/DD"
+                              className="h-8"
+                            />
+                          </TableCell>
+
+                          <TableCell>
+                            <SelectBox
+                              value={p.status}
+                              onValueChange={(v) => updateProject(p.id, { status: v as ProjectStatus })}
+                              options={STATUS_LIST.map((s) => ({ value: s, label: s }))}
+                            />
+                            <div className="mt-2">
+                              <SelectBox
+                                value={p.decision}
+                                onValueChange={(v) => updateProject(p.id, { decision: v as any })}
+                                options={DECISION_OPTIONS}
+                              />
+                            </div>
+                          </TableCell>
+
+                          <TableCell>
+                            <SelectBox
+                              value={p.priority}
+                              onValueChange={(v) => updateProject(p.id, { priority: v as Priority })}
+                              options={PRIORITIES.map((pr) => ({ value: pr, label: pr }))}
+                            />
+                          </TableCell>
+
+                          <TableCell>
+                            <div className="space-y-2">
+                              <Input
+                                value={p.nextAction}
+                                onChange={(e) => updateProject(p.id, { nextAction: e.target.value })}
+                                placeholder="Next action"
+                                className="h-8"
+                              />
+                              <SmartDateInput
+                                value={p.nextActionDate}
+                                onCommit={(v) => updateProject(p.id, { nextActionDate: v })}
+                                placeholder="MM/DD"
+                                className="h-8"
+                              />
+                            </div>
+                          </TableCell>
+
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <ProjectDetailsDialog
+                                workspaceId={workspace.id}
+                                project={p}
+                                outreach={store.outreach.filter((o) => (p.outreachIds || []).includes(o.id))}
+                                materials={store.materials.filter((m) => (p.materialTaskIds || []).includes(m.id))}
+                                allOutreach={store.outreach}
+                                allMaterials={store.materials}
+                                templates={store.templates}
+                                onUpdate={(patch) => updateProject(p.id, patch)}
+                                onAddOutreach={() => addOutreach(p.id)}
+                                onAddMaterial={() => addMaterial(p.id)}
+                                onLinkOutreach={(outreachId) => linkOutreachToProject(outreachId, p.id)}
+                                onLinkMaterial={(materialId) => {
+                                  updateMaterial(materialId, { targetProject: p.id });
+                                }}
+                                onUnlinkOutreach={(outreachId) => {
+                                  setStore((s) =>
+                                    normalizeStore({
+                                      ...s,
+                                      projects: s.projects.map((proj) =>
+                                        proj.id === p.id
+                                          ? { ...proj, outreachIds: (proj.outreachIds || []).filter((oid) => oid !== outreachId) }
+                                          : proj
+                                      ),
+                                      outreach: s.outreach.map((o) =>
+                                        o.id === outreachId
+                                          ? { ...o, projectIds: (o.projectIds || []).filter((pid) => pid !== p.id) }
+                                          : o
+                                      ),
+                                    })
+                                  );
+                                }}
+                                onUnlinkMaterial={(materialId) => {
+                                  updateMaterial(materialId, { targetProject: "通用" });
+                                }}
+                                onOpenDecision={() => {
+                                  ensureDecisionForProject(p.id);
+                                  setActiveTab("decisions");
+                                }}
+                                onOpenReport={() => setReportProjectIds([p.id])}
+                                projectsById={projectsById}
+                                updateOutreach={updateOutreach}
+                                updateMaterial={updateMaterial}
+                              />
+
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openProjectFolder(p)}
+                                disabled={serverOffline}
+                                title={serverOffline ? "The server is not reachable" : "Open folder"}
+                              >
+                                <FolderOpen className="h-4 w-4" />
+                              </Button>
+
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-destructive h-8 w-8"
+                                onClick={() => deleteProject(p.id)}
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ) : (
+              <EmptyState
+                title="No projects yet"
+                desc="Add your first program and start tracking deadlines, outreach, and materials."
+                action={
+                  <Button onClick={addProject} className="gap-2">
+                    <Plus className="h-4 w-4" /> Add Project
+                  </Button>
+                }
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="outreach" className="space-y-8 mt-8">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <SectionTitle
+                title={`PI Outreach (${store.outreach.length})`}
+                right={
+                  <div className="flex flex-wrap gap-2 w-full sm:w-auto">
+                    {selectedOutreachIds.length > 0 && (
+                      <Button variant="outline" onClick={() => setCampaignIds(selectedOutreachIds)} className="gap-2 flex-1 sm:flex-none">
+                        <Mail className="h-4 w-4" /> Email {selectedOutreachIds.length} selected
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => setShowScheduled(true)} className="gap-2 flex-1 sm:flex-none">
+                      <Clock className="h-4 w-4" /> Scheduled
+                      {queuedEmails > 0 && (
+                        <Badge className={outbox.entries.some((e) => e.status === "failed") ? "bg-red-100 text-red-800" : "bg-blue-100 text-blue-800"}>
+                          {queuedEmails}
+                        </Badge>
+                      )}
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowTemplates(true)} className="gap-2 flex-1 sm:flex-none">
+                      <Mail className="h-4 w-4" /> Templates
+                    </Button>
+                    <Button onClick={() => addOutreach()} className="gap-2 flex-1 sm:flex-none shadow-sm hover:shadow-md transition-shadow">
+                      <Plus className="h-4 w-4" /> Add Outreach
+                    </Button>
+                  </div>
+                }
+              />
+            </div>
+
+            {store.outreach.length ? (
+              <div className="border rounded-lg overflow-hidden bg-card">
+                <div className="overflow-x-auto scrollbar-hide">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]">
+                          <Checkbox
+                            checked={selectedOutreachIds.length === store.outreach.length}
+                            onCheckedChange={(v) => setSelectedOutreach(new Set(v ? store.outreach.map((o) => o.id) : []))}
+                            title="Select all for an email campaign"
+                          />
+                        </TableHead>
+                        <TableHead className="min-w-[130px]">Outreach ID</TableHead>
+                        <TableHead className="min-w-[200px]">PI</TableHead>
+                        <TableHead className="min-w-[220px]">Institution</TableHead>
+                        <TableHead className="min-w-[120px]">First Contact</TableHead>
+                        <TableHead className="min-w-[140px]">Reply</TableHead>
+                        <TableHead className="min-w-[130px]">Stage</TableHead>
+                        <TableHead className="min-w-[200px]">Next Follow-up</TableHead>
                         <TableHead className="w-[100px]">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -2062,6 +5593,12 @@ export default function SummerResearchTrackerApp() {
                         .sort((a, b) => parseDateOrInf(a.nextFollowUp) - parseDateOrInf(b.nextFollowUp))
                         .map((o) => (
                           <TableRow key={o.id}>
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedOutreach.has(o.id)}
+                                onCheckedChange={(v) => toggleOutreachSelection(o.id, Boolean(v))}
+                              />
+                            </TableCell>
                             <TableCell className="font-medium">
                               <Input
                                 value={o.outreachId}
@@ -2125,973 +5662,3147 @@ export default function SummerResearchTrackerApp() {
                                 value={o.stage}
                                 onValueChange={(v) => updateOutreach(o.id, { stage: v as OutreachStage })}
                                 options={(
-                                  ["Drafting", "Sent", "Follow-up", "Meeting", "Closed"] as OutreachStage[]
+                                  ["Drafting", "Sent", "Follow-up", "Meeting", "Closed"] as OutreachStage[]
+                                ).map((s) => ({ value: s, label: s }))}
+                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <SmartDateInput
+                                value={o.nextFollowUp}
+                                onCommit={(v) => updateOutreach(o.id, { nextFollowUp: v })}
+                                placeholder="MM/DD"
+                                className="h-8"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <OutreachDetailsDialog
+                                  workspaceId={workspace.id}
+                                  outreach={o}
+                                  projects={o.projectIds.map((pid) => projectsById.get(pid)).filter(Boolean) as Project[]}
+                                  allProjects={store.projects}
+                                  materials={store.materials}
+                                  templates={store.templates}
+                                  onUpdate={(patch) => updateOutreach(o.id, patch)}
+                                  onLinkProject={(pid) => linkOutreachToProject(o.id, pid)}
+                                />
+
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-destructive h-8 w-8"
+                                  onClick={() => deleteOutreach(o.id)}
+                                  title="Delete"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ) : (
+              <EmptyState
+                title="No outreach records"
+                desc="Track PI emails, replies, and follow-up dates."
+                action={
+                  <Button onClick={() => addOutreach()} className="gap-2">
+                    <Plus className="h-4 w-4" /> Add Outreach
+                  </Button>
+                }
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="materials" className="space-y-8 mt-8">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <SectionTitle
+                title={`Materials (${store.materials.length})`}
+                right={
+                  <Button onClick={() => addMaterial()} className="gap-2 w-full sm:w-auto shadow-sm hover:shadow-md transition-shadow">
+                    <Plus className="h-4 w-4" /> Add Task
+                  </Button>
+                }
+              />
+            </div>
+
+            {store.materials.length ? (
+              <div className="border rounded-lg overflow-hidden bg-card">
+                <div className="overflow-x-auto scrollbar-hide">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-[110px]">Task ID</TableHead>
+                        <TableHead className="min-w-[220px]">Type</TableHead>
+                        <TableHead className="min-w-[200px]">Target</TableHead>
+                        <TableHead className="min-w-[140px]">Status</TableHead>
+                        <TableHead className="min-w-[150px]">Due</TableHead>
+                        <TableHead className="w-[100px]">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {store.materials
+                        .slice()
+                        .sort((a, b) => parseDateOrInf(a.due) - parseDateOrInf(b.due))
+                        .map((m) => (
+                          <TableRow key={m.id}>
+                            <TableCell className="font-medium">
+                              <Input
+                                value={m.taskId}
+                                onChange={(e) => updateMaterial(m.id, { taskId: e.target.value })}
+                                className="h-8"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <SelectBox
+                                value={m.type}
+                                onValueChange={(v) => updateMaterial(m.id, { type: v as any })}
+                                options={(
+                                  [
+                                    "CV",
+                                    "Research Statement",
+                                    "SOP",
+                                    "Recommendation Letter",
+                                    "Transcript",
+                                    "Writing Sample",
+                                    "Language",
+                                    "Portfolio",
+                                    "Other",
+                                  ] as MaterialTask["type"][]
+                                ).map((t) => ({ value: t, label: t }))}
+                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                              />
+                              <div className="mt-2">
+                                <Input
+                                  value={m.version}
+                                  onChange={(e) => updateMaterial(m.id, { version: e.target.value })}
+                                  placeholder="v1 / v2 / final"
+                                  className="h-8"
+                                />
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <SelectBox
+                                value={m.targetProject}
+                                onValueChange={(v) => updateMaterial(m.id, { targetProject: v as any })}
+                                options={[
+                                  { value: "通用", label: "通用" },
+                                  ...store.projects.map((p) => ({
+                                    value: p.id,
+                                    label: `${p.projectId} · ${p.name || "(untitled)"}`,
+                                  })),
+                                ]}
+                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                              />
+                              <div className="mt-2 text-xs text-muted-foreground">
+                                {m.targetProject === "通用"
+                                  ? "Reusable"
+                                  : `For: ${projectsById.get(m.targetProject as ID)?.projectId || "—"}`}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <SelectBox
+                                value={m.status}
+                                onValueChange={(v) => updateMaterial(m.id, { status: v as any })}
+                                options={(
+                                  ["未开始", "草稿", "已修改", "定稿", "已提交"] as MaterialStatus[]
                                 ).map((s) => ({ value: s, label: s }))}
                                 className="h-8 rounded-md border border-input bg-background px-2 text-sm"
                               />
                             </TableCell>
                             <TableCell>
                               <SmartDateInput
-                                value={o.nextFollowUp}
-                                onCommit={(v) => updateOutreach(o.id, { nextFollowUp: v })}
+                                value={m.due}
+                                onCommit={(v) => updateMaterial(m.id, { due: v })}
                                 placeholder="MM/DD"
                                 className="h-8"
                               />
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-1">
-                                <OutreachDetailsDialog
-                                  outreach={o}
-                                  projects={o.projectIds.map((pid) => projectsById.get(pid)).filter(Boolean) as Project[]}
-                                  allProjects={store.projects}
-                                  onUpdate={(patch) => updateOutreach(o.id, patch)}
-                                  onLinkProject={(pid) => linkOutreachToProject(o.id, pid)}
+                                <MaterialDetailsDialog
+                                  workspaceId={workspace.id}
+                                  task={m}
+                                  project={
+                                    m.targetProject !== "通用"
+                                      ? (projectsById.get(m.targetProject as ID) as Project)
+                                      : undefined
+                                  }
+                                  onUpdate={(patch) => updateMaterial(m.id, patch)}
                                 />
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-destructive h-8 w-8"
+                                  onClick={() => deleteMaterial(m.id)}
+                                  title="Delete"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ) : (
+              <EmptyState
+                title="No material tasks"
+                desc="Track CV/RS/SOP, letters, transcript, and other deliverables."
+                action={
+                  <Button onClick={() => addMaterial()} className="gap-2">
+                    <Plus className="h-4 w-4" /> Add Task
+                  </Button>
+                }
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="decisions" className="space-y-8 mt-8">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <SectionTitle
+                title={`Decision & Review (${store.decisions.length})`}
+                right={
+                  <DecisionCreateDialog
+                    projects={store.projects}
+                    onCreate={(pid) => {
+                      ensureDecisionForProject(pid);
+                      setActiveTab("decisions");
+                    }}
+                  />
+                }
+              />
+            </div>
+
+            {store.decisions.length ? (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {store.decisions
+                  .slice()
+                  .sort((a, b) => {
+                    const pa = projectsById.get(a.projectInternalId);
+                    const pb = projectsById.get(b.projectInternalId);
+                    return parseDateOrInf(pa?.ddl || "") - parseDateOrInf(pb?.ddl || "");
+                  })
+                  .map((d) => {
+                    const p = projectsById.get(d.projectInternalId);
+                    if (!p) return null;
+                    return (
+                      <Card key={d.id} className="overflow-hidden cursor-pointer hover:shadow-md transition-shadow" onClick={() => setViewingDecision(d)}>
+                        <CardHeader className="pb-4">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="flex-1 min-w-0">
+                              <CardTitle className="text-base truncate">
+                                {p.projectId} · {p.name || "(untitled)"}
+                              </CardTitle>
+                              <div className="text-xs text-muted-foreground truncate">
+                                {p.institution} · {p.region}
+                              </div>
+                            </div>
+                            <div className="flex flex-col gap-1 items-end">
+                              <Pill>{d.conclusion}</Pill>
+                              <Pill>{d.priority}</Pill>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="pt-0">
+                          <div className="text-xs text-muted-foreground">
+                            Click to view details and edit
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+              </div>
+            ) : (
+              <EmptyState
+                title="No decision cards"
+                desc="Create a decision card per project to record rationale and post-mortem notes."
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {mergeSource && (
+          <MergeImportDialog
+            local={store}
+            incoming={mergeSource.store}
+            fileName={mergeSource.fileName}
+            onApply={(merged) => {
+              recordAction("Merge JSON", { toast: true });
+              setStore(merged);
+              setMergeSource(null);
+            }}
+            onClose={() => setMergeSource(null)}
+          />
+        )}
+
+        {csvSource && (
+          <CsvImportDialog
+            fileName={csvSource.fileName}
+            text={csvSource.text}
+            existing={store.projects}
+            onImport={importProjectRows}
+            onClose={() => setCsvSource(null)}
+          />
+        )}
+
+        {archiving && (
+          <ArchiveSeasonDialog
+            workspace={workspace}
+            projects={store.projects}
+            onConfirm={archiveSeason}
+            onClose={() => setArchiving(false)}
+          />
+        )}
+
+        {passphrasePrompt}
+
+        {reportProjectIds && (
+          <ProjectReportDialog store={store} initialSelected={reportProjectIds} onClose={() => setReportProjectIds(null)} />
+        )}
+
+        {campaignIds && (
+          <CampaignDialog
+            workspaceId={workspace.id}
+            outreach={store.outreach.filter((o) => campaignIds.includes(o.id))}
+            projects={store.projects}
+            materials={store.materials}
+            templates={store.templates}
+            onSent={recordCampaignEmail}
+            onClose={() => {
+              setCampaignIds(null);
+              setSelectedOutreach(new Set());
+            }}
+          />
+        )}
+
+        {showScheduled && (
+          <ScheduledEmailsDialog workspaceId={workspace.id} outreach={store.outreach} onClose={() => setShowScheduled(false)} />
+        )}
+
+        {showTemplates && (
+          <TemplatesDialog
+            templates={store.templates}
+            outreach={store.outreach}
+            projects={store.projects}
+            onAdd={addTemplate}
+            onUpdate={updateTemplate}
+            onDelete={deleteTemplate}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {migrationReport && (
+          <MigrationReportDialog report={migrationReport} onClose={() => setMigrationReport(null)} />
+        )}
+
+        {showFileOps && fileOps.length > 0 && (
+          <PendingFileOpsDialog
+            ops={fileOps}
+            onRetry={retryFileOps}
+            onDrop={dropFileOp}
+            onClose={() => setShowFileOps(false)}
+          />
+        )}
+
+        {tabConflicts.length > 0 && (
+          <div className="fixed bottom-6 left-6 z-50 w-[380px] max-h-[50vh] overflow-y-auto space-y-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm shadow-lg">
+            <div className="font-medium text-amber-900">Edited in another tab at the same time</div>
+            {tabConflicts.map((c) => (
+              <div key={c.key} className="rounded-md border bg-card p-2 space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  {c.label} · {c.field}
+                </div>
+                <div className="text-xs">
+                  This tab: <span className="font-medium">{formatAuditValue(c.mine)}</span>
+                </div>
+                <div className="text-xs">
+                  Other tab: <span className="font-medium">{formatAuditValue(c.theirs)}</span>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => resolveTabConflict(c, "mine")}>
+                    Keep this tab's
+                  </Button>
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => resolveTabConflict(c, "theirs")}>
+                    Use other tab's
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {offlineBackup && (
+          <div className="fixed bottom-6 left-6 z-50 max-w-md space-y-2 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm shadow-lg">
+            <p>
+              Changes made in this browser while offline were never synced with this server, so the server's data was
+              kept. Your changes were saved as backup <span className="font-mono text-xs">{offlineBackup}</span>.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setOfflineBackup(null)}>
+                Dismiss
+              </Button>
+              <Button size="sm" variant="outline" disabled={workspace.archived} onClick={restoreOfflineBackup}>
+                Restore my changes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {undoToast && (
+          <div className="fixed bottom-6 right-6 z-50 flex items-center gap-4 rounded-lg border bg-card px-4 py-3 text-sm shadow-lg">
+            <span>{undoToast}</span>
+            <Button size="sm" variant="outline" onClick={() => stepHistory("undo")}>
+              <Undo2 className="h-4 w-4 mr-1" /> Undo
+            </Button>
+          </div>
+        )}
+
+        {viewingDecision && (
+          <DecisionDetailsDialog
+            workspaceId={workspace.id}
+            decision={store.decisions.find((d) => d.id === viewingDecision.id) || viewingDecision}
+            project={projectsById.get(viewingDecision.projectInternalId)!}
+            onUpdate={(patch) => updateDecision(viewingDecision.id, patch)}
+            onClose={() => setViewingDecision(null)}
+          />
+        )}
+
+        <footer className="pt-6 mt-6 border-t">
+          <p className="text-xs text-muted-foreground text-center">
+            Data is stored by the local server under your storage folder and cached in the browser for offline use. Use Data → Export JSON for backups.
+          </p>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function MigrationReportDialog({
+  report,
+  onClose,
+}: {
+  report: MigrationReport;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data upgraded</DialogTitle>
+          <DialogDescription>
+            Migrated from schema v{report.fromVersion} to v{report.toVersion}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {report.steps.map((step) => (
+            <div key={step.version} className="rounded-lg border p-3">
+              <div className="text-sm font-medium">
+                v{step.version} · {step.description}
+              </div>
+              {step.notes.length ? (
+                <ul className="mt-1 list-disc pl-5 text-xs text-muted-foreground space-y-0.5">
+                  {step.notes.map((n, idx) => (
+                    <li key={idx}>{n}</li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="mt-1 text-xs text-muted-foreground">No changes needed.</div>
+              )}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>OK</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PendingFileOpsDialog({
+  ops,
+  onRetry,
+  onDrop,
+  onClose,
+}: {
+  ops: PendingFileOp[];
+  onRetry: (id?: ID) => void;
+  onDrop: (id: ID) => void;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pending sync</DialogTitle>
+          <DialogDescription>
+            These file operations have not reached the server yet. They run in order, and are retried every minute
+            while the server is unreachable. Dropping one leaves the files as they are now.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {ops.map((op) => (
+            <div key={op.id} className="rounded-lg border p-3 space-y-1">
+              <div className="text-sm font-medium break-all">{describeFileOp(op)}</div>
+              <div className="text-xs text-muted-foreground">
+                Queued {new Date(op.createdAt).toLocaleString()}
+                {op.attempts ? ` · ${op.attempts} attempt${op.attempts === 1 ? "" : "s"}` : ""}
+              </div>
+              {op.error && (
+                <div className={`text-xs ${op.offline ? "text-muted-foreground" : "text-red-600"}`}>
+                  {op.offline ? "Waiting for the server: " : "Failed: "}
+                  {op.error}
+                </div>
+              )}
+              <div className="flex gap-2 justify-end">
+                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onRetry(op.id)}>
+                  Retry
+                </Button>
+                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onDrop(op.id)}>
+                  Drop
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onRetry()}>
+            Retry all
+          </Button>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const MERGE_STATUS_STYLE: Record<MergeStatus, string> = {
+  new: "bg-green-100 text-green-800",
+  changed: "bg-blue-100 text-blue-800",
+  conflicting: "bg-red-100 text-red-800",
+  identical: "bg-muted text-muted-foreground",
+};
+
+const COLLECTION_LABELS: Record<Collection, string> = {
+  projects: "Projects",
+  outreach: "PI Outreach",
+  materials: "Materials",
+  decisions: "Decisions",
+  templates: "Email Templates",
+};
+
+function formatMergeValue(v: unknown): string {
+  if (isBlankValue(v)) return "—";
+  if (Array.isArray(v)) return v.join(", ");
+  return String(v);
+}
+
+function MergeImportDialog({
+  local,
+  incoming,
+  fileName,
+  onApply,
+  onClose,
+}: {
+  local: Store;
+  incoming: Store;
+  fileName: string;
+  onApply: (merged: Store) => void;
+  onClose: () => void;
+}) {
+  const items = useMemo(() => buildMergePlan(local, incoming), [local, incoming]);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() => defaultMergeChoices(items));
+  const [showIdentical, setShowIdentical] = useState(false);
+
+  const counts = useMemo(() => {
+    const c: Record<MergeStatus, number> = { new: 0, changed: 0, conflicting: 0, identical: 0 };
+    items.forEach((i) => c[i.status]++);
+    return c;
+  }, [items]);
+
+  const setChoice = (key: string, patch: Partial<MergeChoice>) =>
+    setChoices((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+
+  const pickAll = (item: MergeItem, side: "local" | "incoming") =>
+    setChoice(item.key, { fields: Object.fromEntries(item.fields.map((f) => [f.field, side])) });
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge import · {fileName}</DialogTitle>
+          <DialogDescription>
+            Records are matched by Project ID, Outreach ID and Task ID. Pick which side wins for each differing field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          {(Object.keys(counts) as MergeStatus[]).map((st) => (
+            <span key={st} className={`rounded-full px-2 py-0.5 text-xs font-medium ${MERGE_STATUS_STYLE[st]}`}>
+              {st} {counts[st]}
+            </span>
+          ))}
+          <div className="ml-auto flex items-center gap-2">
+            <Checkbox id="merge-show-identical" checked={showIdentical} onCheckedChange={(v) => setShowIdentical(Boolean(v))} />
+            <Label htmlFor="merge-show-identical" className="text-xs cursor-pointer">
+              Show identical
+            </Label>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {COLLECTIONS.map((collection) => {
+            const list = items.filter((i) => i.collection === collection && (showIdentical || i.status !== "identical"));
+            if (!list.length) return null;
+            return (
+              <div key={collection} className="space-y-2">
+                <div className="text-sm font-semibold">{COLLECTION_LABELS[collection]}</div>
+                {list.map((item) => {
+                  const choice = choices[item.key];
+                  return (
+                    <div key={item.key} className="rounded-lg border p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        {item.status === "new" ? (
+                          <Checkbox
+                            checked={choice.include}
+                            onCheckedChange={(v) => setChoice(item.key, { include: Boolean(v) })}
+                            title="Include this record"
+                          />
+                        ) : null}
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${MERGE_STATUS_STYLE[item.status]}`}>
+                          {item.status}
+                        </span>
+                        <span className="text-sm font-medium truncate flex-1">{item.label}</span>
+                        {item.fields.length ? (
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => pickAll(item, "local")}>
+                              All local
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => pickAll(item, "incoming")}>
+                              All incoming
+                            </Button>
+                          </div>
+                        ) : null}
+                      </div>
+
+                      {item.fields.length ? (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-[140px]">Field</TableHead>
+                              <TableHead>Local</TableHead>
+                              <TableHead>Incoming</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {item.fields.map((f) => {
+                              const side = choice.fields[f.field];
+                              const cell = (which: "local" | "incoming", value: unknown) => (
+                                <TableCell
+                                  className={`text-xs cursor-pointer align-top whitespace-pre-wrap ${
+                                    side === which ? "bg-primary/10 font-medium" : "text-muted-foreground"
+                                  }`}
+                                  onClick={() => setChoice(item.key, { fields: { ...choice.fields, [f.field]: which } })}
+                                >
+                                  <div className="line-clamp-4">{formatMergeValue(value)}</div>
+                                </TableCell>
+                              );
+                              return (
+                                <TableRow key={f.field}>
+                                  <TableCell className="text-xs font-medium align-top">
+                                    {f.field}
+                                    {f.conflict ? <span className="ml-1 text-red-600">●</span> : null}
+                                  </TableCell>
+                                  {cell("local", f.local)}
+                                  {cell("incoming", f.incoming)}
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+          {items.every((i) => i.status === "identical") ? (
+            <div className="text-sm text-muted-foreground">Everything in this file already matches your data.</div>
+          ) : null}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onApply(applyMergePlan(local, items, choices))}>Merge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CsvImportDialog({
+  fileName,
+  text,
+  existing,
+  onImport,
+  onClose,
+}: {
+  fileName: string;
+  text: string;
+  existing: Project[];
+  onImport: (rows: CsvRowResult[]) => void;
+  onClose: () => void;
+}) {
+  const [step, setStep] = useState<"map" | "review">("map");
+  const [options, setOptions] = useState<CsvOptions>(() => ({
+    delimiter: detectDelimiter(text),
+    hasHeader: true,
+    listSeparator: ";",
+    dateOrder: "MDY",
+    updateExisting: true,
+  }));
+
+  const table = useMemo(() => parseDelimited(text, options.delimiter), [text, options.delimiter]);
+  const columnCount = Math.max(0, ...table.map((r) => r.length));
+  const headers = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, i) =>
+        options.hasHeader ? (table[0]?.[i] || "").trim() || `Column ${i + 1}` : `Column ${i + 1}`
+      ),
+    [table, columnCount, options.hasHeader]
+  );
+  const dataRows = useMemo(() => (options.hasHeader ? table.slice(1) : table), [table, options.hasHeader]);
+
+  const [mapping, setMapping] = useState<(keyof Project | null)[]>([]);
+  useEffect(() => {
+    setMapping(options.hasHeader ? guessCsvMapping(headers) : headers.map(() => null));
+  }, [headers, options.hasHeader]);
+
+  const results = useMemo(
+    () => (step === "review" ? validateCsvRows(dataRows, mapping, options, existing) : []),
+    [step, dataRows, mapping, options, existing]
+  );
+  const valid = results.filter((r) => !r.errors.length);
+
+  const setOpt = (patch: Partial<CsvOptions>) => setOptions((o) => ({ ...o, ...patch }));
+  const mappedKeys = mapping.filter(Boolean);
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import projects · {fileName}</DialogTitle>
+          <DialogDescription>
+            {step === "map"
+              ? `Step 1 of 2 · Map ${columnCount} column(s) to project fields (${dataRows.length} row(s) found).`
+              : `Step 2 of 2 · ${valid.length} of ${results.length} row(s) ready to import.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "map" ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Delimiter</Label>
+                <SelectBox
+                  value={options.delimiter === "\t" ? "tab" : options.delimiter}
+                  onValueChange={(v) => setOpt({ delimiter: v === "tab" ? "\t" : v })}
+                  options={[
+                    { value: ",", label: "Comma (CSV)" },
+                    { value: "tab", label: "Tab (TSV)" },
+                    { value: ";", label: "Semicolon" },
+                  ]}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">List separator</Label>
+                <SelectBox
+                  value={options.listSeparator}
+                  onValueChange={(v) => setOpt({ listSeparator: v })}
+                  options={[
+                    { value: ";", label: "; (semicolon)" },
+                    { value: ",", label: ", (comma)" },
+                    { value: "|", label: "| (pipe)" },
+                    { value: "/", label: "/ (slash)" },
+                  ]}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Date order</Label>
+                <SelectBox
+                  value={options.dateOrder}
+                  onValueChange={(v) => setOpt({ dateOrder: v as CsvOptions["dateOrder"] })}
+                  options={[
+                    { value: "MDY", label: "MM/DD/YYYY" },
+                    { value: "DMY", label: "DD/MM/YYYY" },
+                  ]}
+                />
+              </div>
+              <div className="space-y-2 pt-5">
+                <div className="flex items-center gap-2">
+                  <Checkbox id="csv-header" checked={options.hasHeader} onCheckedChange={(v) => setOpt({ hasHeader: Boolean(v) })} />
+                  <Label htmlFor="csv-header" className="text-xs cursor-pointer">
+                    First row is header
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="csv-update"
+                    checked={options.updateExisting}
+                    onCheckedChange={(v) => setOpt({ updateExisting: Boolean(v) })}
+                  />
+                  <Label htmlFor="csv-update" className="text-xs cursor-pointer">
+                    Update matching Project IDs
+                  </Label>
+                </div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[200px]">Column</TableHead>
+                  <TableHead>Sample</TableHead>
+                  <TableHead className="w-[220px]">Maps to</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {headers.map((h, col) => (
+                  <TableRow key={col}>
+                    <TableCell className="text-sm font-medium">{h}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      <div className="line-clamp-2">{dataRows.slice(0, 3).map((r) => r[col] || "—").join(" · ")}</div>
+                    </TableCell>
+                    <TableCell>
+                      <SelectBox
+                        value={mapping[col] || "_ignore_"}
+                        onValueChange={(v) =>
+                          setMapping((m) => m.map((x, i) => (i === col ? (v === "_ignore_" ? null : (v as keyof Project)) : x)))
+                        }
+                        options={[
+                          { value: "_ignore_", label: "(ignore)" },
+                          ...CSV_PROJECT_FIELDS.map((f) => ({
+                            value: f.key,
+                            label: f.label,
+                            disabled: mapping[col] !== f.key && mappedKeys.includes(f.key),
+                          })),
+                        ]}
+                        className="h-8"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">Row</TableHead>
+                <TableHead className="w-[130px]">Project ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-[110px]">DDL</TableHead>
+                <TableHead className="w-[260px]">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((r) => (
+                <TableRow key={r.rowNumber} className={r.errors.length ? "bg-red-50" : undefined}>
+                  <TableCell className="text-xs">{r.rowNumber}</TableCell>
+                  <TableCell className="text-xs">{r.values.projectId || "(auto)"}</TableCell>
+                  <TableCell className="text-xs">{r.values.name || "—"}</TableCell>
+                  <TableCell className="text-xs">{r.values.ddl || "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {r.errors.length ? (
+                      <ul className="list-disc pl-4 text-red-700 space-y-0.5">
+                        {r.errors.map((e, idx) => (
+                          <li key={idx}>{e}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <Badge variant={r.existingId ? "secondary" : "default"} className="text-xs">
+                        {r.existingId ? "Update" : "New"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "map" ? (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep("review")} disabled={!mappedKeys.length || !dataRows.length}>
+                Validate rows
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={() => onImport(valid)} disabled={!valid.length}>
+                Import {valid.length} row(s)
+                {results.length > valid.length ? `, skip ${results.length - valid.length}` : ""}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ArchiveSeasonDialog({
+  workspace,
+  projects,
+  onConfirm,
+  onClose,
+}: {
+  workspace: Workspace;
+  projects: Project[];
+  onConfirm: (nextSeason: string | null, projectIds: ID[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [startNext, setStartNext] = useState(true);
+  const [nextName, setNextName] = useState(() =>
+    /\b20\d{2}\b/.test(workspace.name) ? shiftYearsInText(workspace.name) : `${new Date().getFullYear() + 1} Season`
+  );
+  const [selected, setSelected] = useState<Set<ID>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (id: ID, on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const confirmArchive = async () => {
+    setBusy(true);
+    try {
+      await onConfirm(startNext ? nextName.trim() : null, [...selected]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Archive season · {workspace.name}</DialogTitle>
+          <DialogDescription>
+            The archived workspace stays browsable but becomes read-only. Recurring programs can be carried into a new
+            season with their deadlines shifted by one year; the email templates come along.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox id="archive-start-next" checked={startNext} onCheckedChange={(v) => setStartNext(Boolean(v))} />
+            <Label htmlFor="archive-start-next" className="text-sm cursor-pointer">
+              Start a new season
+            </Label>
+          </div>
+
+          {startNext ? (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">New season name</Label>
+                <Input value={nextName} onChange={(e) => setNextName(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Carry over recurring programs ({selected.size} selected)</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setSelected(selected.size === projects.length ? new Set() : new Set(projects.map((p) => p.id)))
+                    }
+                  >
+                    {selected.size === projects.length ? "Select none" : "Select all"}
+                  </Button>
+                </div>
+                <div className="max-h-[280px] overflow-y-auto rounded-md border divide-y">
+                  {projects.map((p) => (
+                    <label key={p.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                      <Checkbox checked={selected.has(p.id)} onCheckedChange={(v) => toggle(p.id, Boolean(v))} />
+                      <span className="flex-1">
+                        {p.name || p.projectId}
+                        <span className="text-xs text-muted-foreground"> · {p.institution || "—"}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {p.ddl ? `${p.ddl} → ${shiftDateByYear(p.ddl)}` : "No DDL"}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Carried projects restart as Prospecting without outreach or material links.
+                </p>
+              </div>
+            </>
+          ) : null}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={confirmArchive} disabled={busy || (startNext && !nextName.trim())}>
+            {busy ? "Archiving..." : startNext ? "Archive & start new season" : "Archive"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProjectReportDialog({
+  store,
+  initialSelected,
+  onClose,
+}: {
+  store: Store;
+  initialSelected: ID[];
+  onClose: () => void;
+}) {
+  const [selected, setSelected] = useState<Set<ID>>(() => new Set(initialSelected));
+  const projects = store.projects;
+
+  const toggle = (id: ID, on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const reportName = () => {
+    const only = selected.size === 1 ? projects.find((p) => selected.has(p.id)) : null;
+    const label = only ? (only.projectId || only.name).replace(/[^\w一-龥-]+/g, "_") : "projects";
+    return `report_${label}_${todayISO()}`;
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project report</DialogTitle>
+          <DialogDescription>
+            Metadata, scores, eligibility, linked outreach, the material checklist and the decision write-up. Selected
+            projects are combined into one document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Projects ({selected.size} selected)</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelected(selected.size === projects.length ? new Set() : new Set(projects.map((p) => p.id)))}
+            >
+              {selected.size === projects.length ? "Select none" : "Select all"}
+            </Button>
+          </div>
+          <div className="max-h-[320px] overflow-y-auto rounded-md border divide-y">
+            {projects.map((p) => (
+              <label key={p.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                <Checkbox checked={selected.has(p.id)} onCheckedChange={(v) => toggle(p.id, Boolean(v))} />
+                <span className="flex-1">
+                  {p.name || p.projectId}
+                  <span className="text-xs text-muted-foreground"> · {p.institution || "—"}</span>
+                </span>
+                <span className="text-xs text-muted-foreground">{p.status}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!selected.size}
+            onClick={() => downloadText(`${reportName()}.md`, reportMarkdown(buildProjectReport(store, [...selected])))}
+          >
+            <Download className="h-4 w-4 mr-2" /> Markdown
+          </Button>
+          <Button disabled={!selected.size} onClick={() => printReport(reportName(), buildProjectReport(store, [...selected]))}>
+            <Printer className="h-4 w-4 mr-2" /> Print / Save as PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DecisionCreateDialog({
+  projects,
+  onCreate,
+}: {
+  projects: Project[];
+  onCreate: (pid: ID) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [pid, setPid] = useState<ID | "">("");
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Plus className="h-4 w-4" /> New Decision Card
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create a decision card</DialogTitle>
+          <DialogDescription>Pick a project and we will create a linked decision template.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Project</Label>
+          <SelectBox
+            value={pid}
+            onValueChange={(v) => setPid(v as any)}
+            options={projects.map((p) => ({
+              value: p.id,
+              label: `${p.projectId} · ${p.name || "(untitled)"}`,
+            }))}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => {
+              if (!pid) return;
+              onCreate(pid);
+              setOpen(false);
+              setPid("");
+            }}
+            disabled={!pid}
+          >
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// -----------------------------
+// Dialogs & Editors
+// -----------------------------
+
+function formatAuditValue(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—";
+  if (Array.isArray(v)) return v.length ? v.join(", ") : "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+// Relation fields are kept in sync from both sides by normalizeStore, so
+// reverting them alone would be undone immediately; they are shown but not revertible.
+// calendarLinks belong to the Google Calendar sync and are left to it, and
+// sentEmails records mail that has gone out, which a revert cannot take back.
+const AUDIT_READONLY_FIELDS = new Set(["outreachIds", "materialTaskIds", "projectIds", "projectInternalId", "calendarLinks", "sentEmails"]);
+
+function RecordHistory<T extends { id: ID }>({
+  workspaceId,
+  collection,
+  record,
+  onRevert,
+}: {
+  workspaceId: string;
+  collection: Collection;
+  record: T;
+  onRevert: (patch: Partial<T>) => void;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordJson = JSON.stringify(record);
+
+  // Refetch shortly after the record changes, once the edit has reached the server.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.getRecordHistory(workspaceId, collection, record.id);
+        if (!cancelled) {
+          setEntries(groupAuditEntries(data));
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("History is kept by the local server, which is not reachable right now.");
+      }
+    }, entries ? 800 : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [workspaceId, collection, record.id, recordJson]);
+
+  if (error) return <div className="text-sm text-muted-foreground py-6">{error}</div>;
+  if (!entries) return <div className="text-sm text-muted-foreground py-6">Loading history…</div>;
+  if (!entries.length) return <div className="text-sm text-muted-foreground py-6">No recorded changes yet.</div>;
+
+  const current = record as unknown as Record<string, unknown>;
+
+  return (
+    <div className="space-y-3">
+      {entries
+        .map((entry, index) => ({ entry, index }))
+        .reverse()
+        .map(({ entry, index }) => (
+          <div key={`${entry.at}-${index}`} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs text-muted-foreground">
+                {new Date(entry.at).toLocaleString()} ·{" "}
+                {entry.op === "insert" ? "Created" : entry.op === "delete" ? "Deleted" : `${entry.changes.length} field(s) changed`}
+              </div>
+              {entry.op === "update" && index > 0 ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={() => {
+                    const patch = revertPatchTo(current, entries, index);
+                    AUDIT_READONLY_FIELDS.forEach((f) => delete patch[f]);
+                    if (Object.keys(patch).length) onRevert(patch as Partial<T>);
+                  }}
+                  title="Restore every field to how it was just before this change"
+                >
+                  Revert record to before this
+                </Button>
+              ) : null}
+            </div>
+            {entry.op === "update" ? (
+              <div className="space-y-1">
+                {entry.changes.map((c) => (
+                  <div key={c.field} className="flex items-start gap-2 text-xs">
+                    <span className="w-[130px] shrink-0 font-medium">{c.field}</span>
+                    <span className="flex-1 break-words">
+                      <span className="text-red-700 line-through">{formatAuditValue(c.old)}</span>
+                      {" → "}
+                      <span className="text-green-700">{formatAuditValue(c.new)}</span>
+                    </span>
+                    {!AUDIT_READONLY_FIELDS.has(c.field) &&
+                    JSON.stringify(current[c.field]) !== JSON.stringify(c.old) ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onRevert({ [c.field]: c.old } as Partial<T>)}
+                      >
+                        Revert
+                      </Button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function ProjectDetailsDialog({
+  workspaceId,
+  project,
+  outreach,
+  materials,
+  allOutreach,
+  allMaterials,
+  templates,
+  onUpdate,
+  onAddOutreach,
+  onAddMaterial,
+  onLinkOutreach,
+  onLinkMaterial,
+  onUnlinkOutreach,
+  onUnlinkMaterial,
+  onOpenDecision,
+  onOpenReport,
+  projectsById,
+  updateOutreach,
+  updateMaterial,
+}: {
+  workspaceId: string;
+  project: Project;
+  outreach: Outreach[];
+  materials: MaterialTask[];
+  allOutreach: Outreach[];
+  allMaterials: MaterialTask[];
+  templates: EmailTemplate[];
+  onUpdate: (patch: Partial<Project>) => void;
+  onAddOutreach: () => void;
+  onAddMaterial: () => void;
+  onLinkOutreach: (outreachId: ID) => void;
+  onLinkMaterial: (materialId: ID) => void;
+  onUnlinkOutreach: (outreachId: ID) => void;
+  onUnlinkMaterial: (materialId: ID) => void;
+  onOpenDecision: () => void;
+  onOpenReport: () => void;
+  projectsById: Map<ID, Project>;
+  updateOutreach: (id: ID, patch: Partial<Outreach>) => void;
+  updateMaterial: (id: ID, patch: Partial<MaterialTask>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [kwInput, setKwInput] = useState("");
+  const [fundInput, setFundInput] = useState("");
+  const [matInput, setMatInput] = useState("");
+  const [outreachSearch, setOutreachSearch] = useState("");
+  const [materialSearch, setMaterialSearch] = useState("");
+  const [viewingOutreach, setViewingOutreach] = useState<Outreach | null>(null);
+  const [viewingMaterial, setViewingMaterial] = useState<MaterialTask | null>(null);
 
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="text-destructive h-8 w-8"
-                                  onClick={() => deleteOutreach(o.id)}
-                                  title="Delete"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                    </TableBody>
-                  </Table>
+  const addToList = (field: "keywords" | "funding" | "materials", value: string) => {
+    const v = value.trim();
+    if (!v) return;
+    const list = new Set((project as any)[field] as string[]);
+    list.add(v);
+    onUpdate({ [field]: Array.from(list) } as any);
+  };
+
+  const removeFromList = (field: "keywords" | "funding" | "materials", value: string) => {
+    const list = new Set((project as any)[field] as string[]);
+    list.delete(value);
+    onUpdate({ [field]: Array.from(list) } as any);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Details" className="h-8 w-8">
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
+          </svg>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project Details · {project.projectId}</DialogTitle>
+          <DialogDescription>Edit everything in one place; link outreach and materials.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details" className="space-y-4">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details" className="space-y-4">
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Name</Label>
+                  <Input value={project.name} onChange={(e) => onUpdate({ name: e.target.value })} placeholder="Project name" className="h-11" />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Institution</Label>
+                    <Input value={project.institution} onChange={(e) => onUpdate({ institution: e.target.value })} className="h-11" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Region</Label>
+                    <Input value={project.region} onChange={(e) => onUpdate({ region: e.target.value })} className="h-11" />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Type</Label>
+                    <Input value={project.type} onChange={(e) => onUpdate({ type: e.target.value })} placeholder="Summer Program / Visiting" className="h-11" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Round</Label>
+                    <Input value={project.round} onChange={(e) => onUpdate({ round: e.target.value })} placeholder="Round 1 / Rolling" className="h-11" />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">DDL</Label>
+                    <SmartDateInput
+                      value={project.ddl}
+                      onCommit={(v) => onUpdate({ ddl: v })}
+                      placeholder="MM/DD/YYYY"
+                      className="h-11"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Next Action Date</Label>
+                    <SmartDateInput
+                      value={project.nextActionDate}
+                      onCommit={(v) => onUpdate({ nextActionDate: v })}
+                      placeholder="MM/DD/YYYY"
+                      className="h-11"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Official Link</Label>
+                  <Input value={project.officialLink} onChange={(e) => onUpdate({ officialLink: e.target.value })} placeholder="https://..." />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>PI / Lab</Label>
+                  <Input value={project.piLab} onChange={(e) => onUpdate({ piLab: e.target.value })} placeholder="PI name — Lab" />
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <ScoreInput label="Fit (0–10)" value={project.fit} onChange={(v) => onUpdate({ fit: clamp01_10(v) })} />
+                  <ScoreInput label="Risk (0–10)" value={project.risk} onChange={(v) => onUpdate({ risk: clamp01_10(v) })} />
+                  <ScoreInput label="ROI (0–10)" value={project.roi} onChange={(v) => onUpdate({ roi: clamp01_10(v) })} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Eligibility</Label>
+                  <Textarea value={project.eligibility} onChange={(e) => onUpdate({ eligibility: e.target.value })} rows={3} />
                 </div>
               </div>
-            ) : (
-              <EmptyState
-                title="No outreach records"
-                desc="Track PI emails, replies, and follow-up dates."
-                action={
-                  <Button onClick={() => addOutreach()} className="gap-2">
-                    <Plus className="h-4 w-4" /> Add Outreach
-                  </Button>
-                }
-              />
-            )}
-          </TabsContent>
 
-          <TabsContent value="materials" className="space-y-8 mt-8">
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-              <SectionTitle
-                title={`Materials (${store.materials.length})`}
-                right={
-                  <Button onClick={() => addMaterial()} className="gap-2 w-full sm:w-auto shadow-sm hover:shadow-md transition-shadow">
-                    <Plus className="h-4 w-4" /> Add Task
-                  </Button>
-                }
-              />
-            </div>
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Needs Outreach</Label>
+                    <SelectBox
+                      value={project.needsOutreach}
+                      onValueChange={(v) => onUpdate({ needsOutreach: v as any })}
+                      options={[
+                        { value: "Yes", label: "Yes" },
+                        { value: "No", label: "No" },
+                        { value: "Optional", label: "Optional" },
+                      ]}
+                    />
+                  </div>
 
-            {store.materials.length ? (
-              <div className="border rounded-lg overflow-hidden bg-card">
-                <div className="overflow-x-auto scrollbar-hide">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="min-w-[110px]">Task ID</TableHead>
-                        <TableHead className="min-w-[220px]">Type</TableHead>
-                        <TableHead className="min-w-[200px]">Target</TableHead>
-                        <TableHead className="min-w-[140px]">Status</TableHead>
-                        <TableHead className="min-w-[150px]">Due</TableHead>
-                        <TableHead className="w-[100px]">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {store.materials
-                        .slice()
-                        .sort((a, b) => parseDateOrInf(a.due) - parseDateOrInf(b.due))
-                        .map((m) => (
-                          <TableRow key={m.id}>
-                            <TableCell className="font-medium">
-                              <Input
-                                value={m.taskId}
-                                onChange={(e) => updateMaterial(m.id, { taskId: e.target.value })}
-                                className="h-8"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <SelectBox
-                                value={m.type}
-                                onValueChange={(v) => updateMaterial(m.id, { type: v as any })}
-                                options={(
-                                  [
-                                    "CV",
-                                    "Research Statement",
-                                    "SOP",
-                                    "Recommendation Letter",
-                                    "Transcript",
-                                    "Writing Sample",
-                                    "Language",
-                                    "Portfolio",
-                                    "Other",
-                                  ] as MaterialTask["type"][]
-                                ).map((t) => ({ value: t, label: t }))}
-                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
-                              />
-                              <div className="mt-2">
-                                <Input
-                                  value={m.version}
-                                  onChange={(e) => updateMaterial(m.id, { version: e.target.value })}
-                                  placeholder="v1 / v2 / final"
-                                  className="h-8"
-                                />
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <SelectBox
-                                value={m.targetProject}
-                                onValueChange={(v) => updateMaterial(m.id, { targetProject: v as any })}
-                                options={[
-                                  { value: "通用", label: "通用" },
-                                  ...store.projects.map((p) => ({
-                                    value: p.id,
-                                    label: `${p.projectId} · ${p.name || "(untitled)"}`,
-                                  })),
-                                ]}
-                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
-                              />
-                              <div className="mt-2 text-xs text-muted-foreground">
-                                {m.targetProject === "通用"
-                                  ? "Reusable"
-                                  : `For: ${projectsById.get(m.targetProject as ID)?.projectId || "—"}`}
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <SelectBox
-                                value={m.status}
-                                onValueChange={(v) => updateMaterial(m.id, { status: v as any })}
-                                options={(
-                                  ["未开始", "草稿", "已修改", "定稿", "已提交"] as MaterialStatus[]
-                                ).map((s) => ({ value: s, label: s }))}
-                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <SmartDateInput
-                                value={m.due}
-                                onCommit={(v) => updateMaterial(m.id, { due: v })}
-                                placeholder="MM/DD"
-                                className="h-8"
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <div className="flex items-center gap-1">
-                                <MaterialDetailsDialog
-                                  task={m}
-                                  project={
-                                    m.targetProject !== "通用"
-                                      ? (projectsById.get(m.targetProject as ID) as Project)
-                                      : undefined
-                                  }
-                                  onUpdate={(patch) => updateMaterial(m.id, patch)}
-                                />
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="text-destructive h-8 w-8"
-                                  onClick={() => deleteMaterial(m.id)}
-                                  title="Delete"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                    </TableBody>
-                  </Table>
+                  <div className="space-y-2">
+                    <Label>Portal Status</Label>
+                    <SelectBox
+                      value={project.portalStatus}
+                      onValueChange={(v) => onUpdate({ portalStatus: v as any })}
+                      options={[
+                        { value: "Not Open", label: "Not Open" },
+                        { value: "Open", label: "Open" },
+                        { value: "Closed", label: "Closed" },
+                      ]}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <SelectBox
+                      value={project.status}
+                      onValueChange={(v) => onUpdate({ status: v as any })}
+                      options={STATUS_LIST.map((s) => ({ value: s, label: s }))}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Priority</Label>
+                    <SelectBox
+                      value={project.priority}
+                      onValueChange={(v) => onUpdate({ priority: v as any })}
+                      options={PRIORITIES.map((p) => ({ value: p, label: p }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Decision</Label>
+                  <SelectBox value={project.decision} onValueChange={(v) => onUpdate({ decision: v as any })} options={DECISION_OPTIONS} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Project Period</Label>
+                  <Input value={project.period} onChange={(e) => onUpdate({ period: e.target.value })} placeholder="YYYY-MM-DD ~ YYYY-MM-DD" />
                 </div>
-              </div>
-            ) : (
-              <EmptyState
-                title="No material tasks"
-                desc="Track CV/RS/SOP, letters, transcript, and other deliverables."
-                action={
-                  <Button onClick={() => addMaterial()} className="gap-2">
-                    <Plus className="h-4 w-4" /> Add Task
-                  </Button>
-                }
-              />
-            )}
-          </TabsContent>
 
-          <TabsContent value="decisions" className="space-y-8 mt-8">
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-              <SectionTitle
-                title={`Decision & Review (${store.decisions.length})`}
-                right={
-                  <DecisionCreateDialog
-                    projects={store.projects}
-                    onCreate={(pid) => {
-                      ensureDecisionForProject(pid);
-                      setActiveTab("decisions");
-                    }}
-                  />
-                }
-              />
+                <div className="space-y-2">
+                  <Label>Next Action</Label>
+                  <Textarea value={project.nextAction} onChange={(e) => onUpdate({ nextAction: e.target.value })} rows={3} />
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label>Keywords</Label>
+                  <div className="flex gap-2">
+                    <Input value={kwInput} onChange={(e) => setKwInput(e.target.value)} placeholder="Add keyword" />
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        addToList("keywords", kwInput);
+                        setKwInput("");
+                      }}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 flex-wrap">
+                    {(project.keywords || []).map((k, idx) => (
+                      <Badge key={idx} className="rounded-full" variant="secondary">
+                        {k}
+                        <button
+                          className="ml-2 text-xs opacity-70 hover:opacity-100"
+                          onClick={() => removeFromList("keywords", k)}
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Funding</Label>
+                  <div className="flex gap-2">
+                    <Input value={fundInput} onChange={(e) => setFundInput(e.target.value)} placeholder="stipend / travel / housing" />
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        addToList("funding", fundInput);
+                        setFundInput("");
+                      }}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 flex-wrap">
+                    {(project.funding || []).map((k, idx) => (
+                      <Badge key={idx} className="rounded-full" variant="secondary">
+                        {k}
+                        <button
+                          className="ml-2 text-xs opacity-70 hover:opacity-100"
+                          onClick={() => removeFromList("funding", k)}
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Materials Needed</Label>
+                  <div className="flex gap-2">
+                    <Input value={matInput} onChange={(e) => setMatInput(e.target.value)} placeholder="CV / RS / Transcript / Letters" />
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        addToList("materials", matInput);
+                        setMatInput("");
+                      }}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 flex-wrap">
+                    {(project.materials || []).map((k, idx) => (
+                      <Badge key={idx} className="rounded-full" variant="secondary">
+                        {k}
+                        <button
+                          className="ml-2 text-xs opacity-70 hover:opacity-100"
+                          onClick={() => removeFromList("materials", k)}
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
             </div>
 
-            {store.decisions.length ? (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {store.decisions
-                  .slice()
-                  .sort((a, b) => {
-                    const pa = projectsById.get(a.projectInternalId);
-                    const pb = projectsById.get(b.projectInternalId);
-                    return parseDateOrInf(pa?.ddl || "") - parseDateOrInf(pb?.ddl || "");
-                  })
-                  .map((d) => {
-                    const p = projectsById.get(d.projectInternalId);
-                    if (!p) return null;
-                    return (
-                      <Card key={d.id} className="overflow-hidden cursor-pointer hover:shadow-md transition-shadow" onClick={() => setViewingDecision(d)}>
-                        <CardHeader className="pb-4">
-                          <div className="flex items-start justify-between gap-3">
+            <Separator className="my-2" />
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {/* Linked Outreach Card */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm">Linked Outreach ({outreach.length})</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {outreach.length > 0 ? (
+                    <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                      {outreach.map((o) => (
+                        <div
+                          key={o.id}
+                          className="group relative rounded-lg border p-3 hover:bg-accent/50 transition-colors cursor-pointer"
+                          onClick={() => setViewingOutreach(o)}
+                        >
+                          <div className="flex items-start justify-between gap-2">
                             <div className="flex-1 min-w-0">
-                              <CardTitle className="text-base truncate">
-                                {p.projectId} · {p.name || "(untitled)"}
-                              </CardTitle>
-                              <div className="text-xs text-muted-foreground truncate">
-                                {p.institution} · {p.region}
+                              <div className="text-sm font-medium truncate flex items-center gap-1">
+                                {o.outreachId} · {o.piName}
+                                <Search className="h-3 w-3 opacity-0 group-hover:opacity-50 transition-opacity" />
+                              </div>
+                              <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                                <div>{o.institution || "—"}</div>
+                                {o.nextFollowUp && (
+                                  <div className="flex items-center gap-1">
+                                    <Calendar className="h-3 w-3" />
+                                    Next: {o.nextFollowUp}
+                                  </div>
+                                )}
+                                <div className="flex items-center gap-2 mt-1">
+                                  <Badge variant="outline" className="text-xs">
+                                    {o.stage}
+                                  </Badge>
+                                  <Badge variant={o.replied === "Replied" ? "default" : "secondary"} className="text-xs">
+                                    {o.replied}
+                                  </Badge>
+                                </div>
                               </div>
                             </div>
-                            <div className="flex flex-col gap-1 items-end">
-                              <Pill>{d.conclusion}</Pill>
-                              <Pill>{d.priority}</Pill>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setViewingOutreach(o);
+                                }}
+                                title="View Details"
+                              >
+                                <Search className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (confirm(`Unlink ${o.outreachId} from this project?`)) {
+                                    onUnlinkOutreach(o.id);
+                                  }
+                                }}
+                                title="Unlink"
+                              >
+                                <Unlink className="h-3.5 w-3.5" />
+                              </Button>
                             </div>
                           </div>
-                        </CardHeader>
-                        <CardContent className="pt-0">
-                          <div className="text-xs text-muted-foreground">
-                            Click to view details and edit
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground py-4 text-center">No linked outreach.</div>
+                  )}
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-medium text-muted-foreground">Link Existing Outreach</div>
+                    <div className="relative">
+                      <Search className="h-3.5 w-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        value={outreachSearch}
+                        onChange={(e) => setOutreachSearch(e.target.value)}
+                        placeholder="Search outreach..."
+                        className="pl-8 h-8 text-xs"
+                      />
+                    </div>
+                    <SelectBox
+                      value=""
+                      onValueChange={(id) => {
+                        if (id && !outreach.some((o) => o.id === id)) {
+                          onLinkOutreach(id);
+                          setOutreachSearch("");
+                        }
+                      }}
+                      options={allOutreach
+                        .filter((o) => {
+                          if (outreach.some((linked) => linked.id === o.id)) return false;
+                          const search = outreachSearch.toLowerCase();
+                          return (
+                            !search ||
+                            o.outreachId.toLowerCase().includes(search) ||
+                            o.piName.toLowerCase().includes(search) ||
+                            o.institution.toLowerCase().includes(search)
+                          );
+                        })
+                        .map((o) => ({
+                          value: o.id,
+                          label: `${o.outreachId} · ${o.piName}${o.institution ? ` (${o.institution})` : ""}`,
+                        }))}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+
+                  <Button variant="outline" className="gap-2 w-full" onClick={onAddOutreach}>
+                    <Plus className="h-4 w-4" /> Create New Outreach
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Linked Materials Card */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm">Linked Materials ({materials.length})</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {materials.length > 0 ? (
+                    <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                      {materials.map((m) => (
+                        <div
+                          key={m.id}
+                          className="group relative rounded-lg border p-3 hover:bg-accent/50 transition-colors cursor-pointer"
+                          onClick={() => setViewingMaterial(m)}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex-1 min-w-0">
+                              <div className="text-sm font-medium truncate flex items-center gap-1">
+                                {m.taskId} · {m.type}
+                                <Search className="h-3 w-3 opacity-0 group-hover:opacity-50 transition-opacity" />
+                              </div>
+                              <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                                <div className="flex items-center gap-2">
+                                  {m.due && (
+                                    <div className="flex items-center gap-1">
+                                      <Calendar className="h-3 w-3" />
+                                      Due: {m.due}
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex items-center gap-2 mt-1">
+                                  <Badge variant="outline" className="text-xs">
+                                    {m.status}
+                                  </Badge>
+                                  {m.version && (
+                                    <Badge variant="secondary" className="text-xs">
+                                      {m.version}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setViewingMaterial(m);
+                                }}
+                                title="View Details"
+                              >
+                                <Search className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (confirm(`Unlink ${m.taskId} from this project?`)) {
+                                    onUnlinkMaterial(m.id);
+                                  }
+                                }}
+                                title="Unlink"
+                              >
+                                <Unlink className="h-3.5 w-3.5" />
+                              </Button>
+                            </div>
                           </div>
-                        </CardContent>
-                      </Card>
-                    );
-                  })}
-              </div>
-            ) : (
-              <EmptyState
-                title="No decision cards"
-                desc="Create a decision card per project to record rationale and post-mortem notes."
-              />
-            )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground py-4 text-center">No linked material tasks.</div>
+                  )}
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-medium text-muted-foreground">Link Existing Material</div>
+                    <div className="relative">
+                      <Search className="h-3.5 w-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        value={materialSearch}
+                        onChange={(e) => setMaterialSearch(e.target.value)}
+                        placeholder="Search materials..."
+                        className="pl-8 h-8 text-xs"
+                      />
+                    </div>
+                    <SelectBox
+                      value=""
+                      onValueChange={(id) => {
+                        if (id && !materials.some((m) => m.id === id)) {
+                          onLinkMaterial(id);
+                          setMaterialSearch("");
+                        }
+                      }}
+                      options={allMaterials
+                        .filter((m) => {
+                          if (materials.some((linked) => linked.id === m.id)) return false;
+                          const search = materialSearch.toLowerCase();
+                          return (
+                            !search ||
+                            m.taskId.toLowerCase().includes(search) ||
+                            m.type.toLowerCase().includes(search)
+                          );
+                        })
+                        .map((m) => ({
+                          value: m.id,
+                          label: `${m.taskId} · ${m.type}`,
+                        }))}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+
+                  <Button variant="outline" className="gap-2 w-full" onClick={onAddMaterial}>
+                    <Plus className="h-4 w-4" /> Create New Material Task
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Separator className="my-2" />
+
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea value={project.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={4} />
+            </div>
+          </TabsContent>
+          <TabsContent value="history">
+            <RecordHistory workspaceId={workspaceId} collection="projects" record={project} onRevert={onUpdate} />
           </TabsContent>
         </Tabs>
 
-        {viewingDecision && (
-          <DecisionDetailsDialog
-            decision={viewingDecision}
-            project={projectsById.get(viewingDecision.projectInternalId)!}
-            onUpdate={(patch) => updateDecision(viewingDecision.id, patch)}
-            onClose={() => setViewingDecision(null)}
-          />
-        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onOpenDecision}>
+            Open Decision Card
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setOpen(false);
+              onOpenReport();
+            }}
+          >
+            <Printer className="h-4 w-4 mr-2" /> Report
+          </Button>
+          <Button onClick={() => setOpen(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
 
-        <footer className="pt-6 mt-6 border-t">
-          <p className="text-xs text-muted-foreground text-center">
-            Data is stored locally in your browser (localStorage). Use Data → Export JSON for backups.
-          </p>
-        </footer>
-      </div>
+      {/* Embedded Outreach Details Dialog */}
+      {viewingOutreach && (
+        <OutreachDetailsDialog
+          workspaceId={workspaceId}
+          outreach={allOutreach.find((o) => o.id === viewingOutreach.id) || viewingOutreach}
+          projects={viewingOutreach.projectIds.map((pid) => projectsById.get(pid)).filter(Boolean) as Project[]}
+          allProjects={Array.from(projectsById.values())}
+          materials={allMaterials}
+          templates={templates}
+          onUpdate={(patch) => updateOutreach(viewingOutreach.id, patch)}
+          onLinkProject={(pid) => {
+            // Link the project to the outreach (this is handled by the parent)
+            // The outreach is already linked to the current project
+            void pid; // Suppress unused variable warning
+          }}
+          controlledOpen={true}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) setViewingOutreach(null);
+          }}
+        />
+      )}
+
+      {/* Embedded Material Details Dialog */}
+      {viewingMaterial && (
+        <MaterialDetailsDialog
+          workspaceId={workspaceId}
+          task={allMaterials.find((m) => m.id === viewingMaterial.id) || viewingMaterial}
+          project={project}
+          onUpdate={(patch) => updateMaterial(viewingMaterial.id, patch)}
+          controlledOpen={true}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) setViewingMaterial(null);
+          }}
+        />
+      )}
+    </Dialog>
+  );
+}
+
+function ScoreInput({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        max={10}
+        step={0.1}
+        value={String(value ?? 0)}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-8"
+      />
     </div>
   );
 }
 
-function DecisionCreateDialog({
+const EMAIL_ADDRESS_RE = /[^\s<>()",;:@]+@[^\s<>()",;:@]+\.[^\s<>()",;:@]+/;
+
+// First-contact email prefilled from the record; the contact field may hold a
+// form link or "Name <address>", so only an address found in it is used.
+function outreachDraft(outreach: Outreach, projects: Project[]): { to: string; subject: string; body: string } {
+  const directions = (outreach.directions || []).filter(Boolean);
+  const topic = directions.length ? directions.join(", ") : "your research";
+  const project = projects.find((p) => p.name);
+  const greeting = outreach.piName ? `Dear Prof. ${outreach.piName},` : "Dear Professor,";
+  const body = [
+    greeting,
+    "",
+    `I am writing to ask about summer research opportunities in your group${outreach.institution ? ` at ${outreach.institution}` : ""}. ` +
+      `I am particularly interested in ${topic}` +
+      (project ? `, and I am applying to ${project.name}.` : "."),
+    "",
+    "I have attached my CV for your reference and would be grateful for the chance to discuss whether there might be a place for me this summer.",
+    "",
+    "Best regards,",
+    "",
+  ].join("\n");
+  return {
+    to: outreach.contact.match(EMAIL_ADDRESS_RE)?.[0] || "",
+    subject: `Summer research inquiry${directions.length ? `: ${directions[0]}` : ""}`,
+    body,
+  };
+}
+
+// "http://host/files/Project/CV.pdf" -> "Project/CV.pdf"; null for links that are
+// not files kept by the server (Drive links, portals).
+function materialFilePath(link: string): string | null {
+  const m = link.match(/\/files\/([^/?#]+)\/([^/?#]+)$/);
+  if (!m) return null;
+  try {
+    return `${decodeURIComponent(m[1])}/${decodeURIComponent(m[2])}`;
+  } catch {
+    return null;
+  }
+}
+
+// Files on the server need a file token, so the tab is opened right away (while the
+// click still allows it) and sent to the file once the token is in hand.
+function openMaterialLink(workspaceId: string, link: string) {
+  if (!materialFilePath(link)) {
+    window.open(link, "_blank");
+    return;
+  }
+  const tab = window.open("", "_blank");
+  api
+    .authorizedFileUrl(workspaceId, link)
+    .then((url) => {
+      if (tab) tab.location.href = url;
+    })
+    .catch((e) => {
+      tab?.close();
+      alert(`Failed to open the file: ${api.describeError(e)}`);
+    });
+}
+
+function TemplatesDialog({
+  templates,
+  outreach,
   projects,
-  onCreate,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose,
 }: {
+  templates: EmailTemplate[];
+  outreach: Outreach[];
   projects: Project[];
-  onCreate: (pid: ID) => void;
+  onAdd: (t: EmailTemplate) => void;
+  onUpdate: (id: ID, patch: Partial<EmailTemplate>) => void;
+  onDelete: (id: ID) => void;
+  onClose: () => void;
 }) {
-  const [open, setOpen] = useState(false);
-  const [pid, setPid] = useState<ID | "">("");
+  const [selectedId, setSelectedId] = useState<ID | null>(templates[0]?.id ?? null);
+  const [previewId, setPreviewId] = useState<ID>(outreach[0]?.id ?? "");
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const selected = templates.find((t) => t.id === selectedId) || null;
+  const previewOutreach = outreach.find((o) => o.id === previewId);
+  const previewProject = previewOutreach ? projects.find((p) => previewOutreach.projectIds.includes(p.id)) : undefined;
+  const preview = selected && previewOutreach ? renderTemplate(selected, templateContext(previewOutreach, previewProject)) : null;
+
+  const create = (t: Omit<EmailTemplate, "id" | "updatedAt">) => {
+    const next = { ...t, id: uid("t"), updatedAt: new Date().toISOString() };
+    onAdd(next);
+    setSelectedId(next.id);
+  };
+
+  // Inserts at the cursor so variables can be placed mid-sentence.
+  const insertVariable = (name: string) => {
+    if (!selected) return;
+    const el = bodyRef.current;
+    const token = `{{${name}}}`;
+    const start = el?.selectionStart ?? selected.body.length;
+    const end = el?.selectionEnd ?? selected.body.length;
+    onUpdate(selected.id, { body: selected.body.slice(0, start) + token + selected.body.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button variant="outline" className="gap-2">
-          <Plus className="h-4 w-4" /> New Decision Card
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create a decision card</DialogTitle>
-          <DialogDescription>Pick a project and we will create a linked decision template.</DialogDescription>
+          <DialogTitle>Email templates</DialogTitle>
+          <DialogDescription>
+            Write {"{{variable}}"} placeholders and they are filled from the outreach record when you draft an email. A
+            record sent from a template keeps the template's version as its Email Version.
+          </DialogDescription>
         </DialogHeader>
-        <div className="space-y-2">
-          <Label>Project</Label>
-          <SelectBox
-            value={pid}
-            onValueChange={(v) => setPid(v as any)}
-            options={projects.map((p) => ({
-              value: p.id,
-              label: `${p.projectId} · ${p.name || "(untitled)"}`,
-            }))}
-          />
+
+        <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+          <div className="space-y-2">
+            <div className="max-h-[420px] overflow-y-auto rounded-md border divide-y">
+              {templates.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-3 py-2 text-sm ${t.id === selectedId ? "bg-muted font-medium" : "hover:bg-muted/50"}`}
+                >
+                  {t.name || "(untitled)"}
+                  <span className="text-xs text-muted-foreground"> · {t.version}</span>
+                </button>
+              ))}
+              {!templates.length && <div className="px-3 py-2 text-xs text-muted-foreground">No templates yet.</div>}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => create({ name: "", version: "v1", subject: "", body: "" })}
+            >
+              <Plus className="h-4 w-4" /> New template
+            </Button>
+          </div>
+
+          {selected ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[1fr_140px] gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input id="template-name" value={selected.name} onChange={(e) => onUpdate(selected.id, { name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-version">Version</Label>
+                  <Input
+                    id="template-version"
+                    value={selected.version}
+                    onChange={(e) => onUpdate(selected.id, { version: e.target.value })}
+                    placeholder="v1-short"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-subject">Subject</Label>
+                <Input
+                  id="template-subject"
+                  value={selected.subject}
+                  onChange={(e) => onUpdate(selected.id, { subject: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Message</Label>
+                <Textarea
+                  id="template-body"
+                  ref={bodyRef}
+                  value={selected.body}
+                  onChange={(e) => onUpdate(selected.id, { body: e.target.value })}
+                  rows={10}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {TEMPLATE_VARIABLES.map((v) => (
+                    <Badge
+                      key={v.name}
+                      variant="outline"
+                      className="cursor-pointer font-mono text-[11px]"
+                      title={`${v.description} (inserts at the cursor)`}
+                      onClick={() => insertVariable(v.name)}
+                    >
+                      {`{{${v.name}}}`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" size="sm" className="text-destructive" onClick={() => onDelete(selected.id)}>
+                  <Trash2 className="h-4 w-4 mr-2" /> Delete
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Keep this version as it is and continue editing a copy"
+                  onClick={() =>
+                    create({
+                      name: selected.name,
+                      version: nextTemplateVersion(
+                        selected.version,
+                        templates.filter((t) => t.name === selected.name).map((t) => t.version)
+                      ),
+                      subject: selected.subject,
+                      body: selected.body,
+                    })
+                  }
+                >
+                  Save as new version
+                </Button>
+              </div>
+
+              <Separator />
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>Preview</Label>
+                  {outreach.length > 0 && (
+                    <SelectBox
+                      value={previewId}
+                      onValueChange={setPreviewId}
+                      className="h-8 w-[260px]"
+                      options={outreach.map((o) => ({ value: o.id, label: `${o.outreachId} · ${o.piName || "(unnamed)"}` }))}
+                    />
+                  )}
+                </div>
+                {preview ? (
+                  <>
+                    {(preview.missing.length > 0 || preview.unknown.length > 0) && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-900 space-y-1">
+                        {preview.missing.length > 0 && (
+                          <div>No value on this record for: {preview.missing.map((n) => `{{${n}}}`).join(", ")}</div>
+                        )}
+                        {preview.unknown.length > 0 && (
+                          <div>Not a template variable: {preview.unknown.map((n) => `{{${n}}}`).join(", ")}</div>
+                        )}
+                      </div>
+                    )}
+                    <div className="rounded-lg border p-3 text-sm space-y-2">
+                      <div className="font-medium">{preview.subject || "(no subject)"}</div>
+                      <pre className="whitespace-pre-wrap font-sans text-xs">{preview.body}</pre>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-muted-foreground">Add an outreach record to preview this template.</div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">Select a template or create a new one.</div>
+          )}
         </div>
+
         <DialogFooter>
-          <Button
-            onClick={() => {
-              if (!pid) return;
-              onCreate(pid);
-              setOpen(false);
-              setPid("");
-            }}
-            disabled={!pid}
-          >
-            Create
-          </Button>
+          <Button onClick={onClose}>Close</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
 }
 
-// -----------------------------
-// Dialogs & Editors
-// -----------------------------
-
-function ProjectDetailsDialog({
-  project,
+function CampaignDialog({
+  workspaceId,
   outreach,
+  projects,
   materials,
-  allOutreach,
-  allMaterials,
-  onUpdate,
-  onAddOutreach,
-  onAddMaterial,
-  onLinkOutreach,
-  onLinkMaterial,
-  onUnlinkOutreach,
-  onUnlinkMaterial,
-  onOpenDecision,
-  projectsById,
-  updateOutreach,
-  updateMaterial,
+  templates,
+  onSent,
+  onClose,
 }: {
-  project: Project;
+  workspaceId: string;
   outreach: Outreach[];
+  projects: Project[];
   materials: MaterialTask[];
-  allOutreach: Outreach[];
-  allMaterials: MaterialTask[];
-  onUpdate: (patch: Partial<Project>) => void;
-  onAddOutreach: () => void;
-  onAddMaterial: () => void;
-  onLinkOutreach: (outreachId: ID) => void;
-  onLinkMaterial: (materialId: ID) => void;
-  onUnlinkOutreach: (outreachId: ID) => void;
-  onUnlinkMaterial: (materialId: ID) => void;
-  onOpenDecision: () => void;
-  projectsById: Map<ID, Project>;
-  updateOutreach: (id: ID, patch: Partial<Outreach>) => void;
-  updateMaterial: (id: ID, patch: Partial<MaterialTask>) => void;
+  templates: EmailTemplate[];
+  onSent: (outreachId: ID, copy: SentEmail) => void;
+  onClose: () => void;
 }) {
-  const [open, setOpen] = useState(false);
-  const [kwInput, setKwInput] = useState("");
-  const [fundInput, setFundInput] = useState("");
-  const [matInput, setMatInput] = useState("");
-  const [outreachSearch, setOutreachSearch] = useState("");
-  const [materialSearch, setMaterialSearch] = useState("");
-  const [viewingOutreach, setViewingOutreach] = useState<Outreach | null>(null);
-  const [viewingMaterial, setViewingMaterial] = useState<MaterialTask | null>(null);
+  const [step, setStep] = useState<"setup" | "review" | "send">("setup");
+  const [templateId, setTemplateId] = useState<ID>(templates[0]?.id ?? "");
+  const [intervalS, setIntervalS] = useState(30);
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<CampaignDraft[]>([]);
+  const [index, setIndex] = useState(0);
+  const [mode, setMode] = useState<"now" | "scheduled">("now");
+  const [running, setRunning] = useState(false);
+  const stopRef = useRef(false);
+  const serverOffline = useServerHealth().status === "offline";
+
+  const template = templates.find((t) => t.id === templateId) || null;
+  const outreachById = useMemo(() => new Map(outreach.map((o) => [o.id, o])), [outreach]);
+  const current = drafts[index];
+  const included = drafts.filter((d) => d.include);
+  const done = included.filter((d) => d.status === "sent" || d.status === "scheduled").length;
+  const failed = included.filter((d) => d.status === "failed").length;
+  const unknown = included.filter((d) => d.status === "unknown").length;
+  const remaining = included.length - done - unknown;
+
+  // General materials go to everyone; project-specific files belong in a single email.
+  const files = useMemo(
+    () =>
+      materials
+        .filter((m) => m.targetProject === "通用")
+        .map((m) => ({ material: m, path: m.link ? materialFilePath(m.link) : null }))
+        .filter((f): f is { material: MaterialTask; path: string } => Boolean(f.path)),
+    [materials]
+  );
 
-  const addToList = (field: "keywords" | "funding" | "materials", value: string) => {
-    const v = value.trim();
-    if (!v) return;
-    const list = new Set((project as any)[field] as string[]);
-    list.add(v);
-    onUpdate({ [field]: Array.from(list) } as any);
+  const patchDraft = (outreachId: ID, patch: Partial<CampaignDraft>) =>
+    setDrafts((list) => list.map((d) => (d.outreachId === outreachId ? { ...d, ...patch } : d)));
+
+  const label = (id: ID) => {
+    const o = outreachById.get(id);
+    return o ? o.piName || o.outreachId : "(deleted record)";
   };
 
-  const removeFromList = (field: "keywords" | "funding" | "materials", value: string) => {
-    const list = new Set((project as any)[field] as string[]);
-    list.delete(value);
-    onUpdate({ [field]: Array.from(list) } as any);
+  const pause = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const until = Date.now() + ms;
+      const tick = () => (stopRef.current || Date.now() >= until ? resolve() : setTimeout(tick, 250));
+      tick();
+    });
+
+  const messageOf = (draft: CampaignDraft) => ({
+    to: draft.to.trim(),
+    cc: draft.cc.trim() || undefined,
+    subject: draft.subject.trim(),
+    body: draft.body,
+    attachments: attachments.length ? attachments : undefined,
+  });
+  const unsent = () =>
+    drafts.filter(
+      (d) => d.include && d.status !== "sent" && d.status !== "scheduled" && d.status !== "unknown" && outreachById.has(d.outreachId)
+    );
+
+  // A timeout leaves the outcome open; anything else that did not reach the server
+  // (or came back as an error) certainly did not send.
+  const failDraft = (draft: CampaignDraft, error: unknown, checkIn: string) =>
+    api.isApiError(error) && error.code === "ETIMEOUT"
+      ? patchDraft(draft.outreachId, { status: "unknown", error: `${api.describeError(error)}. It may have gone out; check ${checkIn}.` })
+      : patchDraft(draft.outreachId, { status: "failed", error: api.describeError(error) });
+
+  // Sends the included drafts that have not gone out yet, in order. An unreachable
+  // or unresponsive server stops the batch; any other failure is recorded and the
+  // batch moves on.
+  const sendAll = async () => {
+    if (!template) return;
+    const queue = unsent();
+    if (!queue.length) return;
+    const minutes = Math.ceil(((queue.length - 1) * intervalS) / 60);
+    if (!confirm(`Send ${queue.length} email${queue.length === 1 ? "" : "s"}, one every ${intervalS} seconds${minutes ? ` (about ${minutes} min)` : ""}?`)) return;
+    stopRef.current = false;
+    setMode("now");
+    setRunning(true);
+    setStep("send");
+    for (let i = 0; i < queue.length; i++) {
+      if (i > 0) await pause(intervalS * 1000);
+      if (stopRef.current) break;
+      const draft = queue[i];
+      patchDraft(draft.outreachId, { status: "sending", error: "" });
+      const message = messageOf(draft);
+      try {
+        const result = await api.sendEmail(workspaceId, message);
+        onSent(draft.outreachId, {
+          ...message,
+          template: { id: template.id, name: template.name, version: template.version },
+          sentAt: new Date().toISOString(),
+          messageId: result.messageId,
+          threadId: result.threadId,
+        });
+        patchDraft(draft.outreachId, { status: "sent" });
+      } catch (error) {
+        failDraft(draft, error, "your Gmail Sent folder");
+        if (api.isApiError(error) && error.status === 0) break;
+      }
+    }
+    setRunning(false);
+  };
+
+  // Hands every email to the server's outbox for the next weekday morning in its
+  // recipient's time zone, spaced by the chosen pause among recipients who share a
+  // zone; the server sends and records them from there.
+  const scheduleAll = async () => {
+    if (!template) return;
+    const queue = unsent();
+    if (!queue.length) return;
+    if (
+      !confirm(
+        `Schedule ${queue.length} email${queue.length === 1 ? "" : "s"} for the next weekday ${SEND_HOUR}:00 in each recipient's time zone? ` +
+          "The server sends them even if this app is closed."
+      )
+    )
+      return;
+    stopRef.current = false;
+    setMode("scheduled");
+    setRunning(true);
+    setStep("send");
+    const perZone = new Map<string, number>();
+    for (const draft of queue) {
+      if (stopRef.current) break;
+      const o = outreachById.get(draft.outreachId);
+      const timeZone = recipientTimeZone(o);
+      const slot = perZone.get(timeZone) || 0;
+      perZone.set(timeZone, slot + 1);
+      patchDraft(draft.outreachId, { status: "sending", error: "" });
+      try {
+        const entry = await api.scheduleEmail(workspaceId, {
+          outreachId: draft.outreachId,
+          sendAt: new Date(nextWeekdayMorning(timeZone).getTime() + slot * intervalS * 1000).toISOString(),
+          timeZone: o?.timeZone && isValidTimeZone(o.timeZone) ? o.timeZone : null,
+          message: messageOf(draft),
+          template: { id: template.id, name: template.name, version: template.version },
+        });
+        patchDraft(draft.outreachId, { status: "scheduled", sendAt: entry.sendAt });
+      } catch (error) {
+        failDraft(draft, error, "Outreach → Scheduled");
+        if (api.isApiError(error) && error.status === 0) break;
+      }
+    }
+    refreshScheduledEmails(workspaceId);
+    setRunning(false);
+  };
+
+  const close = () => {
+    if (running) {
+      if (!confirm("Stop sending? Emails that already went out stay sent.")) return;
+      stopRef.current = true;
+    }
+    onClose();
+  };
+
+  const statusStyle: Record<CampaignStatus, string> = {
+    pending: "text-muted-foreground",
+    sending: "text-blue-700",
+    sent: "text-emerald-700",
+    scheduled: "text-emerald-700",
+    failed: "text-red-600",
+    unknown: "text-amber-700",
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button variant="outline" size="icon" title="Details" className="h-8 w-8">
-          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
-          </svg>
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+    <Dialog open={true} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Project Details · {project.projectId}</DialogTitle>
-          <DialogDescription>Edit everything in one place; link outreach and materials.</DialogDescription>
+          <DialogTitle>Email campaign · {outreach.length} record{outreach.length === 1 ? "" : "s"}</DialogTitle>
+          <DialogDescription>
+            {step === "setup" && "Pick a template. Every email is rendered from its own record and can be edited before anything is sent."}
+            {step === "review" && "Check each email. Unticked recipients are skipped."}
+            {step === "send" &&
+              (mode === "now"
+                ? `Sending one email every ${intervalS} seconds. Keep this window open until it finishes.`
+                : "Adding the emails to the server's outbox. Manage them under Outreach → Scheduled.")}
+          </DialogDescription>
         </DialogHeader>
 
-        <div className="grid gap-6 md:grid-cols-2">
+        {step === "setup" && (
           <div className="space-y-4">
+            {templates.length ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-template">Template</Label>
+                  <SelectBox
+                    id="campaign-template"
+                    value={templateId}
+                    onValueChange={setTemplateId}
+                    options={templates.map((t) => ({ value: t.id, label: templateLabel(t) }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-interval">Pause between emails</Label>
+                  <SelectBox
+                    id="campaign-interval"
+                    value={String(intervalS)}
+                    onValueChange={(v) => setIntervalS(Number(v))}
+                    options={CAMPAIGN_INTERVALS_S.map((n) => ({ value: String(n), label: `${n} seconds` }))}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No templates yet. Create one under Outreach → Templates first.</div>
+            )}
             <div className="space-y-2">
-              <Label className="text-sm font-medium">Name</Label>
-              <Input value={project.name} onChange={(e) => onUpdate({ name: e.target.value })} placeholder="Project name" className="h-11" />
+              <Label>Attach to every email</Label>
+              {files.length ? (
+                <div className="space-y-1">
+                  {files.map(({ material, path }) => (
+                    <div key={material.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`campaign-file-${material.id}`}
+                        checked={attachments.includes(path)}
+                        onCheckedChange={(v) => setAttachments((list) => (v ? [...list, path] : list.filter((x) => x !== path)))}
+                      />
+                      <Label htmlFor={`campaign-file-${material.id}`} className="text-sm font-normal cursor-pointer">
+                        {path} <span className="text-xs text-muted-foreground">· {material.type}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">No uploaded files among the general (通用) materials.</div>
+              )}
             </div>
+          </div>
+        )}
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <Label className="text-sm font-medium">Institution</Label>
-                <Input value={project.institution} onChange={(e) => onUpdate({ institution: e.target.value })} className="h-11" />
-              </div>
-              <div className="space-y-2">
-                <Label className="text-sm font-medium">Region</Label>
-                <Input value={project.region} onChange={(e) => onUpdate({ region: e.target.value })} className="h-11" />
-              </div>
+        {step === "review" && current && (
+          <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+            <div className="max-h-[460px] overflow-y-auto rounded-md border divide-y">
+              {drafts.map((d, i) => {
+                const issues = campaignIssues(d, outreachById.get(d.outreachId));
+                return (
+                  <div
+                    key={d.outreachId}
+                    className={`flex items-start gap-2 px-3 py-2 text-sm cursor-pointer ${i === index ? "bg-muted" : "hover:bg-muted/50"}`}
+                    onClick={() => setIndex(i)}
+                  >
+                    <Checkbox
+                      checked={d.include}
+                      onClick={(e) => e.stopPropagation()}
+                      onCheckedChange={(v) => patchDraft(d.outreachId, { include: Boolean(v) })}
+                    />
+                    <div className="min-w-0">
+                      <div className={`truncate ${d.include ? "" : "text-muted-foreground line-through"}`}>{label(d.outreachId)}</div>
+                      {issues.length > 0 && <div className="text-xs text-amber-700">{issues.length} to check</div>}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <Label className="text-sm font-medium">Type</Label>
-                <Input value={project.type} onChange={(e) => onUpdate({ type: e.target.value })} placeholder="Summer Program / Visiting" className="h-11" />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">
+                  {index + 1} / {drafts.length} · {label(current.outreachId)}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="campaign-include"
+                    checked={current.include}
+                    onCheckedChange={(v) => patchDraft(current.outreachId, { include: Boolean(v) })}
+                  />
+                  <Label htmlFor="campaign-include" className="text-sm font-normal cursor-pointer">
+                    Send to this recipient
+                  </Label>
+                </div>
               </div>
-              <div className="space-y-2">
-                <Label className="text-sm font-medium">Round</Label>
-                <Input value={project.round} onChange={(e) => onUpdate({ round: e.target.value })} placeholder="Round 1 / Rolling" className="h-11" />
+              {campaignIssues(current, outreachById.get(current.outreachId)).length > 0 && (
+                <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                  {campaignIssues(current, outreachById.get(current.outreachId)).join(" · ")}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-to">To</Label>
+                  <Input id="campaign-to" value={current.to} onChange={(e) => patchDraft(current.outreachId, { to: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-cc">Cc</Label>
+                  <Input
+                    id="campaign-cc"
+                    value={current.cc}
+                    onChange={(e) => patchDraft(current.outreachId, { cc: e.target.value })}
+                    placeholder="Comma-separated"
+                  />
+                </div>
               </div>
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
               <div className="space-y-2">
-                <Label className="text-sm font-medium">DDL</Label>
-                <SmartDateInput
-                  value={project.ddl}
-                  onCommit={(v) => onUpdate({ ddl: v })}
-                  placeholder="MM/DD/YYYY"
-                  className="h-11"
+                <Label htmlFor="campaign-subject">Subject</Label>
+                <Input
+                  id="campaign-subject"
+                  value={current.subject}
+                  onChange={(e) => patchDraft(current.outreachId, { subject: e.target.value })}
                 />
               </div>
               <div className="space-y-2">
-                <Label className="text-sm font-medium">Next Action Date</Label>
-                <SmartDateInput
-                  value={project.nextActionDate}
-                  onCommit={(v) => onUpdate({ nextActionDate: v })}
-                  placeholder="MM/DD/YYYY"
-                  className="h-11"
+                <Label htmlFor="campaign-body">Message</Label>
+                <Textarea
+                  id="campaign-body"
+                  value={current.body}
+                  onChange={(e) => patchDraft(current.outreachId, { body: e.target.value })}
+                  rows={12}
                 />
               </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" size="sm" disabled={index === 0} onClick={() => setIndex(index - 1)}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={index === drafts.length - 1} onClick={() => setIndex(index + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "send" && (
+          <div className="space-y-3">
+            <div className="text-sm">
+              {done} of {included.length} {mode === "now" ? "sent" : "scheduled"}
+              {failed ? ` · ${failed} failed` : ""}
+              {unknown ? ` · ${unknown} unknown` : ""}
+              {running ? "" : stopRef.current ? " · stopped" : " · finished"}
             </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-all"
+                style={{ width: `${included.length ? (done / included.length) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="max-h-[420px] overflow-y-auto rounded-md border divide-y">
+              {included.map((d) => (
+                <div key={d.outreachId} className="px-3 py-2 text-sm flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="truncate">
+                      {label(d.outreachId)} <span className="text-xs text-muted-foreground">· {d.to}</span>
+                    </div>
+                    {d.error && <div className={`text-xs ${statusStyle[d.status]}`}>{d.error}</div>}
+                  </div>
+                  <div className={`text-xs shrink-0 text-right ${statusStyle[d.status]}`}>
+                    {d.status === "pending"
+                      ? "Waiting"
+                      : d.status === "sending"
+                        ? "Sending…"
+                        : d.status === "sent"
+                          ? "Sent"
+                          : d.status === "scheduled"
+                            ? formatInZone(d.sendAt, recipientTimeZone(outreachById.get(d.outreachId)))
+                            : d.status === "unknown"
+                              ? `Unknown — check ${mode === "now" ? "Sent" : "Scheduled"}`
+                              : "Failed"}
+                    {d.status === "unknown" && !running && (
+                      <button
+                        type="button"
+                        className="block ml-auto underline text-muted-foreground hover:text-foreground"
+                        onClick={() => patchDraft(d.outreachId, { status: "failed" })}
+                      >
+                        It was not {mode === "now" ? "sent" : "scheduled"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "setup" && (
+            <>
+              <Button variant="outline" onClick={close}>
+                Cancel
+              </Button>
+              <Button
+                disabled={!template}
+                onClick={() => {
+                  setDrafts(campaignDrafts(template!, outreach, projects));
+                  setIndex(0);
+                  setStep("review");
+                }}
+              >
+                Review {outreach.length} email{outreach.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("setup")}>
+                Back
+              </Button>
+              <Button
+                variant="outline"
+                onClick={scheduleAll}
+                disabled={!included.length || serverOffline}
+                title={serverOffline ? "The server is not reachable" : `Next weekday ${SEND_HOUR}:00 in each recipient's time zone`}
+              >
+                Schedule for their morning
+              </Button>
+              <Button
+                onClick={sendAll}
+                disabled={!included.length || serverOffline}
+                title={serverOffline ? "The server is not reachable" : undefined}
+              >
+                Send {included.length} email{included.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "send" &&
+            (running ? (
+              <Button variant="outline" onClick={() => (stopRef.current = true)}>
+                Stop after this email
+              </Button>
+            ) : (
+              <>
+                {remaining > 0 && (
+                  <Button variant="outline" onClick={mode === "now" ? sendAll : scheduleAll} disabled={serverOffline}>
+                    {mode === "now" ? "Send" : "Schedule"} the remaining {remaining}
+                  </Button>
+                )}
+                <Button onClick={onClose}>Close</Button>
+              </>
+            ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
-            <div className="space-y-2">
-              <Label>Official Link</Label>
-              <Input value={project.officialLink} onChange={(e) => onUpdate({ officialLink: e.target.value })} placeholder="https://..." />
-            </div>
+const SCHEDULED_STATUS_STYLES: Record<api.ScheduledEmailStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
 
-            <div className="space-y-2">
-              <Label>PI / Lab</Label>
-              <Input value={project.piLab} onChange={(e) => onUpdate({ piLab: e.target.value })} placeholder="PI name — Lab" />
-            </div>
+function ScheduledEmailItem({
+  workspaceId,
+  entry,
+  outreach,
+}: {
+  workspaceId: string;
+  entry: api.ScheduledEmail;
+  outreach: Outreach | undefined;
+}) {
+  const [editing, setEditing] = useState<"message" | "time" | null>(null);
+  const [message, setMessage] = useState(entry.message);
+  const [sendAt, setSendAt] = useState(() => toDateTimeInput(entry.sendAt));
+  const [busy, setBusy] = useState(false);
+  const timeZone = entry.timeZone || recipientTimeZone(outreach);
+  const editable = entry.status === "pending" || entry.status === "failed";
+
+  const run = async (what: string, action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setEditing(null);
+      await refreshScheduledEmails(workspaceId);
+    } catch (error) {
+      alert(`Failed to ${what}. ${api.describeError(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
 
-            <div className="grid grid-cols-3 gap-2">
-              <ScoreInput label="Fit (0–10)" value={project.fit} onChange={(v) => onUpdate({ fit: clamp01_10(v) })} />
-              <ScoreInput label="Risk (0–10)" value={project.risk} onChange={(v) => onUpdate({ risk: clamp01_10(v) })} />
-              <ScoreInput label="ROI (0–10)" value={project.roi} onChange={(v) => onUpdate({ roi: clamp01_10(v) })} />
-            </div>
+  const reschedule = (at: string) => run("reschedule", () => api.updateScheduledEmail(workspaceId, entry.id, { sendAt: at }));
 
-            <div className="space-y-2">
-              <Label>Eligibility</Label>
-              <Textarea value={project.eligibility} onChange={(e) => onUpdate({ eligibility: e.target.value })} rows={3} />
-            </div>
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-medium truncate">
+            {outreach ? outreach.piName || outreach.outreachId : "(deleted record)"}
+            <span className="text-xs text-muted-foreground font-normal"> · {entry.message.to}</span>
           </div>
+          <div className="text-sm truncate">{entry.message.subject || "(no subject)"}</div>
+          <div className="text-xs text-muted-foreground">
+            {entry.status === "sent" && entry.sentAt
+              ? `Sent ${new Date(entry.sentAt).toLocaleString()}`
+              : `${formatInZone(entry.sendAt, timeZone)} their time · ${formatInZone(entry.sendAt, LOCAL_TIME_ZONE)} here`}
+            {entry.template ? ` · ${templateLabel(entry.template)}` : ""}
+            {entry.message.threadId ? " · reply in thread" : ""}
+          </div>
+          {entry.error && <div className="text-xs text-red-600">{entry.error}</div>}
+        </div>
+        <Badge className={`shrink-0 ${SCHEDULED_STATUS_STYLES[entry.status]}`}>{entry.status}</Badge>
+      </div>
 
-          <div className="space-y-3">
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label>Needs Outreach</Label>
-                <SelectBox
-                  value={project.needsOutreach}
-                  onValueChange={(v) => onUpdate({ needsOutreach: v as any })}
-                  options={[
-                    { value: "Yes", label: "Yes" },
-                    { value: "No", label: "No" },
-                    { value: "Optional", label: "Optional" },
-                  ]}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label>Portal Status</Label>
-                <SelectBox
-                  value={project.portalStatus}
-                  onValueChange={(v) => onUpdate({ portalStatus: v as any })}
-                  options={[
-                    { value: "Not Open", label: "Not Open" },
-                    { value: "Open", label: "Open" },
-                    { value: "Closed", label: "Closed" },
-                  ]}
-                />
-              </div>
-            </div>
+      {editable && (
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button size="sm" variant="outline" className="h-7 text-xs" disabled={busy} onClick={() => setEditing(editing === "message" ? null : "message")}>
+            Edit
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" disabled={busy} onClick={() => setEditing(editing === "time" ? null : "time")}>
+            Reschedule
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" disabled={busy} onClick={() => reschedule(new Date().toISOString())}>
+            Send now
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs text-destructive"
+            disabled={busy}
+            onClick={() => confirm("Cancel this scheduled email?") && run("cancel", () => api.cancelScheduledEmail(workspaceId, entry.id))}
+          >
+            Cancel
+          </Button>
+        </div>
+      )}
 
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label>Status</Label>
-                <SelectBox
-                  value={project.status}
-                  onValueChange={(v) => onUpdate({ status: v as any })}
-                  options={STATUS_LIST.map((s) => ({ value: s, label: s }))}
-                />
-              </div>
+      {editable && editing === "time" && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <Input type="datetime-local" value={sendAt} onChange={(e) => setSendAt(e.target.value)} className="h-8 w-auto" />
+          <Button size="sm" variant="outline" onClick={() => setSendAt(toDateTimeInput(nextWeekdayMorning(timeZone)))}>
+            Next weekday {SEND_HOUR}:00 their time
+          </Button>
+          <Button size="sm" disabled={busy || !fromDateTimeInput(sendAt)} onClick={() => reschedule(fromDateTimeInput(sendAt)!)}>
+            Save
+          </Button>
+          {fromDateTimeInput(sendAt) && (
+            <span className="text-xs text-muted-foreground">{formatInZone(fromDateTimeInput(sendAt)!, timeZone)} their time</span>
+          )}
+        </div>
+      )}
 
-              <div className="space-y-2">
-                <Label>Priority</Label>
-                <SelectBox
-                  value={project.priority}
-                  onValueChange={(v) => onUpdate({ priority: v as any })}
-                  options={PRIORITIES.map((p) => ({ value: p, label: p }))}
-                />
-              </div>
-            </div>
+      {editable && editing === "message" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input value={message.to} onChange={(e) => setMessage({ ...message, to: e.target.value })} placeholder="To" className="h-8" />
+            <Input value={message.cc} onChange={(e) => setMessage({ ...message, cc: e.target.value })} placeholder="Cc" className="h-8" />
+          </div>
+          <Input value={message.subject} onChange={(e) => setMessage({ ...message, subject: e.target.value })} placeholder="Subject" className="h-8" />
+          <Textarea value={message.body} onChange={(e) => setMessage({ ...message, body: e.target.value })} rows={8} />
+          <div className="flex gap-2 justify-end">
+            <Button size="sm" variant="outline" onClick={() => setMessage(entry.message)}>
+              Revert
+            </Button>
+            <Button
+              size="sm"
+              disabled={busy}
+              onClick={() =>
+                run("save the email", () =>
+                  api.updateScheduledEmail(workspaceId, entry.id, {
+                    message: { to: message.to, cc: message.cc, subject: message.subject, body: message.body },
+                  })
+                )
+              }
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
 
-            <div className="space-y-2">
-              <Label>Decision</Label>
-              <SelectBox value={project.decision} onValueChange={(v) => onUpdate({ decision: v as any })} options={DECISION_OPTIONS} />
-            </div>
+function ScheduledEmailsDialog({
+  workspaceId,
+  outreach,
+  onClose,
+}: {
+  workspaceId: string;
+  outreach: Outreach[];
+  onClose: () => void;
+}) {
+  const { entries, error } = useScheduledEmails(workspaceId);
+  const outreachById = useMemo(() => new Map(outreach.map((o) => [o.id, o] as const)), [outreach]);
+  const queued = entries.filter((e) => e.status !== "sent");
+  const sent = entries.filter((e) => e.status === "sent").reverse();
 
-            <div className="space-y-2">
-              <Label>Project Period</Label>
-              <Input value={project.period} onChange={(e) => onUpdate({ period: e.target.value })} placeholder="YYYY-MM-DD ~ YYYY-MM-DD" />
-            </div>
+  useEffect(() => {
+    refreshScheduledEmails(workspaceId);
+  }, [workspaceId]);
 
-            <div className="space-y-2">
-              <Label>Next Action</Label>
-              <Textarea value={project.nextAction} onChange={(e) => onUpdate({ nextAction: e.target.value })} rows={3} />
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scheduled emails</DialogTitle>
+          <DialogDescription>
+            The server sends these at their time, even while this app is closed, and records them on the outreach
+            records. A failed email stays here until it is edited, rescheduled or cancelled.
+          </DialogDescription>
+        </DialogHeader>
+        {error && <div className="text-sm text-red-600">Could not load the queue. {error}</div>}
+        <div className="space-y-2">
+          {queued.map((e) => (
+            <ScheduledEmailItem key={e.id} workspaceId={workspaceId} entry={e} outreach={outreachById.get(e.outreachId)} />
+          ))}
+          {!queued.length && <div className="text-sm text-muted-foreground">Nothing is waiting to be sent.</div>}
+        </div>
+        {sent.length > 0 && (
+          <details className="space-y-2">
+            <summary className="cursor-pointer text-sm font-medium">Sent in the last 30 days ({sent.length})</summary>
+            <div className="space-y-2 mt-2">
+              {sent.map((e) => (
+                <ScheduledEmailItem key={e.id} workspaceId={workspaceId} entry={e} outreach={outreachById.get(e.outreachId)} />
+              ))}
             </div>
+          </details>
+        )}
+        <DialogFooter>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
-            <Separator />
+function OutreachEmailPanel({
+  workspaceId,
+  outreach,
+  projects,
+  materials,
+  templates,
+  onUpdate,
+}: {
+  workspaceId: string;
+  outreach: Outreach;
+  projects: Project[];
+  materials: MaterialTask[];
+  templates: EmailTemplate[];
+  onUpdate: (patch: Partial<Outreach>) => void;
+}) {
+  const sent = outreach.sentEmails || [];
+  const lastSent = sent[sent.length - 1];
+  const [draft, setDraft] = useState(() => ({ ...outreachDraft(outreach, projects), cc: "", bcc: "" }));
+  const [templateId, setTemplateId] = useState("");
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [reply, setReply] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState("");
+  const [sendAt, setSendAt] = useState(""); // datetime-local value, this browser's zone
+  const serverOffline = useServerHealth().status === "offline";
+  const timeZone = recipientTimeZone(outreach);
+
+  // Files of the materials for the linked projects, and the general ones.
+  const files = useMemo(() => {
+    const projectIds = new Set(projects.map((p) => p.id));
+    return materials
+      .filter((m) => m.targetProject === "通用" || projectIds.has(m.targetProject))
+      .map((m) => ({ material: m, path: m.link ? materialFilePath(m.link) : null }))
+      .filter((f): f is { material: MaterialTask; path: string } => Boolean(f.path));
+  }, [materials, projects]);
+
+  const ready = EMAIL_ADDRESS_RE.test(draft.to) && (draft.subject.trim() || reply) && draft.body.trim();
+  const template = templates.find((t) => t.id === templateId) || null;
+  // Placeholders still in the draft: a variable this record has no value for, or a typo.
+  const unfilled = useMemo(
+    () => Array.from(new Set(Array.from(`${draft.subject}\n${draft.body}`.matchAll(TEMPLATE_VARIABLE_RE), (m) => m[0]))),
+    [draft.subject, draft.body]
+  );
 
-            <div className="space-y-2">
-              <Label>Keywords</Label>
-              <div className="flex gap-2">
-                <Input value={kwInput} onChange={(e) => setKwInput(e.target.value)} placeholder="Add keyword" />
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    addToList("keywords", kwInput);
-                    setKwInput("");
-                  }}
-                >
-                  Add
-                </Button>
-              </div>
-              <div className="flex gap-2 flex-wrap">
-                {(project.keywords || []).map((k, idx) => (
-                  <Badge key={idx} className="rounded-full" variant="secondary">
-                    {k}
-                    <button
-                      className="ml-2 text-xs opacity-70 hover:opacity-100"
-                      onClick={() => removeFromList("keywords", k)}
-                      title="Remove"
-                    >
-                      ×
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </div>
+  // "" is the built-in draft.
+  const draftFrom = (id: string) => {
+    const t = templates.find((x) => x.id === id);
+    if (!t) return outreachDraft(outreach, projects);
+    const rendered = renderTemplate(t, templateContext(outreach, projects[0]));
+    return { to: outreachDraft(outreach, projects).to, subject: rendered.subject, body: rendered.body };
+  };
 
-            <div className="space-y-2">
-              <Label>Funding</Label>
-              <div className="flex gap-2">
-                <Input value={fundInput} onChange={(e) => setFundInput(e.target.value)} placeholder="stipend / travel / housing" />
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    addToList("funding", fundInput);
-                    setFundInput("");
-                  }}
-                >
-                  Add
-                </Button>
-              </div>
-              <div className="flex gap-2 flex-wrap">
-                {(project.funding || []).map((k, idx) => (
-                  <Badge key={idx} className="rounded-full" variant="secondary">
-                    {k}
-                    <button
-                      className="ml-2 text-xs opacity-70 hover:opacity-100"
-                      onClick={() => removeFromList("funding", k)}
-                      title="Remove"
-                    >
-                      ×
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </div>
+  const chooseTemplate = (id: string) => {
+    setTemplateId(id);
+    setDraft({ ...draftFrom(id), to: draft.to, cc: draft.cc, bcc: draft.bcc });
+  };
 
-            <div className="space-y-2">
-              <Label>Materials Needed</Label>
-              <div className="flex gap-2">
-                <Input value={matInput} onChange={(e) => setMatInput(e.target.value)} placeholder="CV / RS / Transcript / Letters" />
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    addToList("materials", matInput);
-                    setMatInput("");
-                  }}
-                >
-                  Add
-                </Button>
-              </div>
-              <div className="flex gap-2 flex-wrap">
-                {(project.materials || []).map((k, idx) => (
-                  <Badge key={idx} className="rounded-full" variant="secondary">
-                    {k}
-                    <button
-                      className="ml-2 text-xs opacity-70 hover:opacity-100"
-                      onClick={() => removeFromList("materials", k)}
-                      title="Remove"
-                    >
-                      ×
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </div>
-          </div>
-        </div>
+  const toggleReply = (on: boolean) => {
+    setReply(on);
+    if (on && lastSent && !/^re:/i.test(draft.subject)) setDraft({ ...draft, subject: `Re: ${lastSent.subject}` });
+  };
 
-        <Separator className="my-2" />
+  const messageOf = () => ({
+    to: draft.to.trim(),
+    cc: draft.cc.trim() || undefined,
+    bcc: draft.bcc.trim() || undefined,
+    subject: draft.subject.trim(),
+    body: draft.body,
+    attachments: attachments.length ? attachments : undefined,
+  });
+  const unfilledWarning = unfilled.length ? `\n\nStill unfilled: ${unfilled.join(", ")}` : "";
 
-        <div className="grid gap-4 md:grid-cols-2">
-          {/* Linked Outreach Card */}
-          <Card>
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-sm">Linked Outreach ({outreach.length})</CardTitle>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {outreach.length > 0 ? (
-                <div className="space-y-2 max-h-[300px] overflow-y-auto">
-                  {outreach.map((o) => (
-                    <div
-                      key={o.id}
-                      className="group relative rounded-lg border p-3 hover:bg-accent/50 transition-colors cursor-pointer"
-                      onClick={() => setViewingOutreach(o)}
-                    >
-                      <div className="flex items-start justify-between gap-2">
-                        <div className="flex-1 min-w-0">
-                          <div className="text-sm font-medium truncate flex items-center gap-1">
-                            {o.outreachId} · {o.piName}
-                            <Search className="h-3 w-3 opacity-0 group-hover:opacity-50 transition-opacity" />
-                          </div>
-                          <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
-                            <div>{o.institution || "—"}</div>
-                            {o.nextFollowUp && (
-                              <div className="flex items-center gap-1">
-                                <Calendar className="h-3 w-3" />
-                                Next: {o.nextFollowUp}
-                              </div>
-                            )}
-                            <div className="flex items-center gap-2 mt-1">
-                              <Badge variant="outline" className="text-xs">
-                                {o.stage}
-                              </Badge>
-                              <Badge variant={o.replied === "Replied" ? "default" : "secondary"} className="text-xs">
-                                {o.replied}
-                              </Badge>
-                            </div>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setViewingOutreach(o);
-                            }}
-                            title="View Details"
-                          >
-                            <Search className="h-3.5 w-3.5" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              if (confirm(`Unlink ${o.outreachId} from this project?`)) {
-                                onUnlinkOutreach(o.id);
-                              }
-                            }}
-                            title="Unlink"
-                          >
-                            <Unlink className="h-3.5 w-3.5" />
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-sm text-muted-foreground py-4 text-center">No linked outreach.</div>
-              )}
+  const send = async () => {
+    if (!ready || !confirm(`Send this email to ${draft.to.trim()}?${unfilledWarning}`)) return;
+    setSending(true);
+    setNotice("");
+    try {
+      const message = messageOf();
+      const result = await api.sendEmail(workspaceId, { ...message, threadId: reply ? outreach.threadId : undefined });
+      const copy: SentEmail = {
+        ...message,
+        subject: message.subject || `Re: ${lastSent?.subject || ""}`.trim(),
+        template: template ? { id: template.id, name: template.name, version: template.version } : undefined,
+        sentAt: new Date().toISOString(),
+        messageId: result.messageId,
+        threadId: result.threadId,
+      };
+      onUpdate({
+        ...(template ? { emailVersion: template.version } : {}),
+        threadId: result.threadId,
+        // A reply to a sent first email is the follow-up; a later one leaves the stage alone.
+        stage: reply ? (outreach.stage === "Sent" ? "Follow-up" : outreach.stage) : "Sent",
+        firstContact: outreach.firstContact || todayISO(),
+        sentEmails: [...sent, copy],
+      });
+      setNotice(reply ? "Sent in the same thread." : "Sent. Check Replies now follows this thread.");
+    } catch (error) {
+      alert(`Failed to send email. ${api.describeError(error)}`);
+    } finally {
+      setSending(false);
+    }
+  };
 
-              <Separator />
+  // The server sends it at sendAt and updates this record then, as send() does now.
+  const schedule = async () => {
+    const at = fromDateTimeInput(sendAt);
+    if (!ready || !at) return;
+    if (unfilled.length && !confirm(`Schedule this email anyway?${unfilledWarning}`)) return;
+    setSending(true);
+    setNotice("");
+    try {
+      const message = messageOf();
+      await api.scheduleEmail(workspaceId, {
+        outreachId: outreach.id,
+        sendAt: at,
+        timeZone: outreach.timeZone && isValidTimeZone(outreach.timeZone) ? outreach.timeZone : null,
+        message: {
+          ...message,
+          // Filled in now, since the record keeps this subject in its copy.
+          subject: message.subject || (reply && lastSent ? `Re: ${lastSent.subject}` : ""),
+          threadId: reply ? outreach.threadId : undefined,
+        },
+        template: template ? { id: template.id, name: template.name, version: template.version } : null,
+      });
+      refreshScheduledEmails(workspaceId);
+      setSendAt("");
+      setNotice(`Scheduled for ${formatInZone(at, timeZone)}. Manage it under Outreach → Scheduled.`);
+    } catch (error) {
+      alert(`Failed to schedule email. ${api.describeError(error)}`);
+    } finally {
+      setSending(false);
+    }
+  };
 
-              <div className="space-y-2">
-                <div className="text-xs font-medium text-muted-foreground">Link Existing Outreach</div>
-                <div className="relative">
-                  <Search className="h-3.5 w-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    value={outreachSearch}
-                    onChange={(e) => setOutreachSearch(e.target.value)}
-                    placeholder="Search outreach..."
-                    className="pl-8 h-8 text-xs"
-                  />
-                </div>
-                <SelectBox
-                  value=""
-                  onValueChange={(id) => {
-                    if (id && !outreach.some((o) => o.id === id)) {
-                      onLinkOutreach(id);
-                      setOutreachSearch("");
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor={`email-template-${outreach.id}`}>Template</Label>
+          <SelectBox
+            id={`email-template-${outreach.id}`}
+            value={templateId || "_builtin_"}
+            onValueChange={(v) => chooseTemplate(v === "_builtin_" ? "" : v)}
+            options={[
+              { value: "_builtin_", label: "Built-in draft" },
+              ...templates.map((t) => ({ value: t.id, label: templateLabel(t) })),
+            ]}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`email-to-${outreach.id}`}>To</Label>
+          <Input
+            id={`email-to-${outreach.id}`}
+            value={draft.to}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+            placeholder="pi@university.edu"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor={`email-cc-${outreach.id}`}>Cc</Label>
+            <Input
+              id={`email-cc-${outreach.id}`}
+              value={draft.cc}
+              onChange={(e) => setDraft({ ...draft, cc: e.target.value })}
+              placeholder="Comma-separated"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`email-bcc-${outreach.id}`}>Bcc</Label>
+            <Input
+              id={`email-bcc-${outreach.id}`}
+              value={draft.bcc}
+              onChange={(e) => setDraft({ ...draft, bcc: e.target.value })}
+              placeholder="Comma-separated"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`email-subject-${outreach.id}`}>Subject</Label>
+          <Input
+            id={`email-subject-${outreach.id}`}
+            value={draft.subject}
+            onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            placeholder={reply ? "Re: (the thread's subject)" : undefined}
+          />
+        </div>
+        {outreach.threadId && (
+          <div className="flex items-center gap-2">
+            <Checkbox id={`email-reply-${outreach.id}`} checked={reply} onCheckedChange={(v) => toggleReply(Boolean(v))} />
+            <Label htmlFor={`email-reply-${outreach.id}`} className="text-sm font-normal cursor-pointer">
+              Reply in the existing thread (follow-up)
+            </Label>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`email-body-${outreach.id}`}>Message</Label>
+          <Textarea
+            id={`email-body-${outreach.id}`}
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            rows={12}
+          />
+          {unfilled.length > 0 && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+              Unfilled placeholders: {unfilled.join(", ")}. Fill in the record's fields or edit the message.
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label>Attachments</Label>
+          {files.length ? (
+            <div className="space-y-1">
+              {files.map(({ material, path }) => (
+                <div key={material.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`email-file-${outreach.id}-${material.id}`}
+                    checked={attachments.includes(path)}
+                    onCheckedChange={(v) =>
+                      setAttachments((list) => (v ? [...list, path] : list.filter((x) => x !== path)))
                     }
-                  }}
-                  options={allOutreach
-                    .filter((o) => {
-                      if (outreach.some((linked) => linked.id === o.id)) return false;
-                      const search = outreachSearch.toLowerCase();
-                      return (
-                        !search ||
-                        o.outreachId.toLowerCase().includes(search) ||
-                        o.piName.toLowerCase().includes(search) ||
-                        o.institution.toLowerCase().includes(search)
-                      );
-                    })
-                    .map((o) => ({
-                      value: o.id,
-                      label: `${o.outreachId} · ${o.piName}${o.institution ? ` (${o.institution})` : ""}`,
-                    }))}
-                  className="h-8 text-xs"
-                />
-              </div>
-
-              <Button variant="outline" className="gap-2 w-full" onClick={onAddOutreach}>
-                <Plus className="h-4 w-4" /> Create New Outreach
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Linked Materials Card */}
-          <Card>
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-sm">Linked Materials ({materials.length})</CardTitle>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {materials.length > 0 ? (
-                <div className="space-y-2 max-h-[300px] overflow-y-auto">
-                  {materials.map((m) => (
-                    <div
-                      key={m.id}
-                      className="group relative rounded-lg border p-3 hover:bg-accent/50 transition-colors cursor-pointer"
-                      onClick={() => setViewingMaterial(m)}
-                    >
-                      <div className="flex items-start justify-between gap-2">
-                        <div className="flex-1 min-w-0">
-                          <div className="text-sm font-medium truncate flex items-center gap-1">
-                            {m.taskId} · {m.type}
-                            <Search className="h-3 w-3 opacity-0 group-hover:opacity-50 transition-opacity" />
-                          </div>
-                          <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
-                            <div className="flex items-center gap-2">
-                              {m.due && (
-                                <div className="flex items-center gap-1">
-                                  <Calendar className="h-3 w-3" />
-                                  Due: {m.due}
-                                </div>
-                              )}
-                            </div>
-                            <div className="flex items-center gap-2 mt-1">
-                              <Badge variant="outline" className="text-xs">
-                                {m.status}
-                              </Badge>
-                              {m.version && (
-                                <Badge variant="secondary" className="text-xs">
-                                  {m.version}
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setViewingMaterial(m);
-                            }}
-                            title="View Details"
-                          >
-                            <Search className="h-3.5 w-3.5" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              if (confirm(`Unlink ${m.taskId} from this project?`)) {
-                                onUnlinkMaterial(m.id);
-                              }
-                            }}
-                            title="Unlink"
-                          >
-                            <Unlink className="h-3.5 w-3.5" />
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-sm text-muted-foreground py-4 text-center">No linked material tasks.</div>
-              )}
-
-              <Separator />
-
-              <div className="space-y-2">
-                <div className="text-xs font-medium text-muted-foreground">Link Existing Material</div>
-                <div className="relative">
-                  <Search className="h-3.5 w-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    value={materialSearch}
-                    onChange={(e) => setMaterialSearch(e.target.value)}
-                    placeholder="Search materials..."
-                    className="pl-8 h-8 text-xs"
                   />
+                  <Label htmlFor={`email-file-${outreach.id}-${material.id}`} className="text-sm font-normal cursor-pointer">
+                    {path} <span className="text-xs text-muted-foreground">· {material.type}</span>
+                  </Label>
                 </div>
-                <SelectBox
-                  value=""
-                  onValueChange={(id) => {
-                    if (id && !materials.some((m) => m.id === id)) {
-                      onLinkMaterial(id);
-                      setMaterialSearch("");
-                    }
-                  }}
-                  options={allMaterials
-                    .filter((m) => {
-                      if (materials.some((linked) => linked.id === m.id)) return false;
-                      const search = materialSearch.toLowerCase();
-                      return (
-                        !search ||
-                        m.taskId.toLowerCase().includes(search) ||
-                        m.type.toLowerCase().includes(search)
-                      );
-                    })
-                    .map((m) => ({
-                      value: m.id,
-                      label: `${m.taskId} · ${m.type}`,
-                    }))}
-                  className="h-8 text-xs"
-                />
-              </div>
-
-              <Button variant="outline" className="gap-2 w-full" onClick={onAddMaterial}>
-                <Plus className="h-4 w-4" /> Create New Material Task
-              </Button>
-            </CardContent>
-          </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              No uploaded material files for the linked projects.
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sent through Gmail from the Google account the server is signed in to, as plain text with an HTML version
+          (blank lines separate paragraphs). The first send opens Google's consent screen on the server's machine.
+        </p>
+        {notice && <div className="text-sm text-emerald-700">{notice}</div>}
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="outline"
+            onClick={() => setDraft({ ...draftFrom(templateId), cc: draft.cc, bcc: draft.bcc })}
+            disabled={sending}
+          >
+            Reset Draft
+          </Button>
+          <Button
+            onClick={send}
+            disabled={!ready || sending || serverOffline}
+            title={serverOffline ? "The server is not reachable" : ready ? undefined : "Needs an address, a subject and a message"}
+          >
+            {sending ? "Sending…" : "Send"}
+          </Button>
+        </div>
+        <div className="space-y-2 rounded-lg border p-3">
+          <Label htmlFor={`email-send-at-${outreach.id}`}>Send later</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id={`email-send-at-${outreach.id}`}
+              type="datetime-local"
+              value={sendAt}
+              onChange={(e) => setSendAt(e.target.value)}
+              className="w-auto"
+            />
+            <Button variant="outline" onClick={() => setSendAt(toDateTimeInput(nextWeekdayMorning(timeZone)))}>
+              Next weekday {SEND_HOUR}:00 their time
+            </Button>
+            <Button
+              onClick={schedule}
+              disabled={!ready || !fromDateTimeInput(sendAt) || sending || serverOffline}
+              title={serverOffline ? "The server is not reachable" : undefined}
+            >
+              Schedule
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {fromDateTimeInput(sendAt) && `${formatInZone(fromDateTimeInput(sendAt)!, timeZone)} for the PI. `}
+            {outreach.timeZone && isValidTimeZone(outreach.timeZone)
+              ? "The server sends it at that time, even if this app is closed."
+              : `No time zone on this record, so yours (${LOCAL_TIME_ZONE}) is used; set it under Details.`}
+          </p>
         </div>
+      </div>
 
-        <Separator className="my-2" />
-
+      {sent.length > 0 && (
         <div className="space-y-2">
-          <Label>Notes</Label>
-          <Textarea value={project.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={4} />
+          <Separator />
+          <Label>Sent</Label>
+          {[...sent].reverse().map((m) => (
+            <details key={m.messageId || m.sentAt} className="rounded-lg border p-2 text-sm">
+              <summary className="cursor-pointer">
+                <span className="font-medium">{m.subject}</span>
+                <span className="text-xs text-muted-foreground">
+                  {" "}
+                  · to {m.to} · {new Date(m.sentAt).toLocaleString()}
+                  {m.template ? ` · ${templateLabel(m.template)}` : ""}
+                </span>
+              </summary>
+              {(m.cc || m.bcc) && (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {m.cc ? `Cc ${m.cc}` : ""}
+                  {m.cc && m.bcc ? " · " : ""}
+                  {m.bcc ? `Bcc ${m.bcc}` : ""}
+                </div>
+              )}
+              {m.attachments?.length ? (
+                <div className="mt-1 text-xs text-muted-foreground">Attached: {m.attachments.join(", ")}</div>
+              ) : null}
+              <pre className="mt-2 whitespace-pre-wrap font-sans text-xs">{m.body}</pre>
+            </details>
+          ))}
         </div>
-
-        <DialogFooter className="gap-2">
-          <Button variant="outline" onClick={onOpenDecision}>
-            Open Decision Card
-          </Button>
-          <Button onClick={() => setOpen(false)}>Done</Button>
-        </DialogFooter>
-      </DialogContent>
-
-      {/* Embedded Outreach Details Dialog */}
-      {viewingOutreach && (
-        <OutreachDetailsDialog
-          outreach={viewingOutreach}
-          projects={viewingOutreach.projectIds.map((pid) => projectsById.get(pid)).filter(Boolean) as Project[]}
-          allProjects={Array.from(projectsById.values())}
-          onUpdate={(patch) => updateOutreach(viewingOutreach.id, patch)}
-          onLinkProject={(pid) => {
-            // Link the project to the outreach (this is handled by the parent)
-            // The outreach is already linked to the current project
-            void pid; // Suppress unused variable warning
-          }}
-          controlledOpen={true}
-          onOpenChange={(isOpen) => {
-            if (!isOpen) setViewingOutreach(null);
-          }}
-        />
-      )}
-
-      {/* Embedded Material Details Dialog */}
-      {viewingMaterial && (
-        <MaterialDetailsDialog
-          task={viewingMaterial}
-          project={project}
-          onUpdate={(patch) => updateMaterial(viewingMaterial.id, patch)}
-          controlledOpen={true}
-          onOpenChange={(isOpen) => {
-            if (!isOpen) setViewingMaterial(null);
-          }}
-        />
       )}
-    </Dialog>
-  );
-}
-
-function ScoreInput({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
-  return (
-    <div className="space-y-2">
-      <Label className="text-xs">{label}</Label>
-      <Input
-        type="number"
-        min={0}
-        max={10}
-        step={0.1}
-        value={String(value ?? 0)}
-        onChange={(e) => onChange(Number(e.target.value))}
-        className="h-8"
-      />
     </div>
   );
 }
 
 function OutreachDetailsDialog({
+  workspaceId,
   outreach,
   projects,
   allProjects,
+  materials,
+  templates,
   onUpdate,
   onLinkProject,
   controlledOpen,
   onOpenChange,
 }: {
+  workspaceId: string;
   outreach: Outreach;
   projects: Project[];
   allProjects: Project[];
+  materials: MaterialTask[];
+  templates: EmailTemplate[];
   onUpdate: (patch: Partial<Outreach>) => void;
   onLinkProject: (pid: ID) => void;
   controlledOpen?: boolean;
@@ -3099,6 +8810,7 @@ function OutreachDetailsDialog({
 }) {
   const [internalOpen, setInternalOpen] = useState(false);
   const [dirInput, setDirInput] = useState("");
+  const serverOffline = useServerHealth().status === "offline";
   
   const open = controlledOpen !== undefined ? controlledOpen : internalOpen;
   const setOpen = controlledOpen !== undefined 
@@ -3131,174 +8843,219 @@ function OutreachDetailsDialog({
           <DialogDescription>Track emails, replies, and follow-ups.</DialogDescription>
         </DialogHeader>
 
-        <div className="grid gap-4 md:grid-cols-2">
-          <div className="space-y-3">
-            <div className="space-y-2">
-              <Label>PI Name</Label>
-              <Input value={outreach.piName} onChange={(e) => onUpdate({ piName: e.target.value })} />
-            </div>
-            <div className="space-y-2">
-              <Label>Institution</Label>
-              <Input value={outreach.institution} onChange={(e) => onUpdate({ institution: e.target.value })} />
-            </div>
-            <div className="space-y-2">
-              <Label>Contact</Label>
-              <Input value={outreach.contact} onChange={(e) => onUpdate({ contact: e.target.value })} placeholder="Email / form link" />
-            </div>
+        <Tabs defaultValue="details" className="space-y-4">
+          <TabsList className="grid grid-cols-3 w-full">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="email">Email</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details" className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label>PI Name</Label>
+                  <Input value={outreach.piName} onChange={(e) => onUpdate({ piName: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Institution</Label>
+                  <Input value={outreach.institution} onChange={(e) => onUpdate({ institution: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Contact</Label>
+                  <Input value={outreach.contact} onChange={(e) => onUpdate({ contact: e.target.value })} placeholder="Email / form link" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`outreach-tz-${outreach.id}`}>Time Zone</Label>
+                  <Input
+                    id={`outreach-tz-${outreach.id}`}
+                    value={outreach.timeZone || ""}
+                    onChange={(e) => onUpdate({ timeZone: e.target.value.trim() || undefined })}
+                    list={`outreach-tz-list-${outreach.id}`}
+                    placeholder={`${LOCAL_TIME_ZONE} (yours)`}
+                  />
+                  <datalist id={`outreach-tz-list-${outreach.id}`}>
+                    {COMMON_TIME_ZONES.map((tz) => (
+                      <option key={tz} value={tz} />
+                    ))}
+                  </datalist>
+                  {outreach.timeZone ? (
+                    isValidTimeZone(outreach.timeZone) ? (
+                      <div className="text-xs text-muted-foreground">Their time now: {formatInZone(new Date(), outreach.timeZone)}</div>
+                    ) : (
+                      <div className="text-xs text-red-600">Unknown time zone. Use a name like America/New_York.</div>
+                    )
+                  ) : null}
+                </div>
 
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label>First Contact</Label>
-                <SmartDateInput
-                  value={outreach.firstContact}
-                  onCommit={(v) => onUpdate({ firstContact: v })}
-                  placeholder="MM/DD/YYYY"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Email Version</Label>
-                <Input value={outreach.emailVersion} onChange={(e) => onUpdate({ emailVersion: e.target.value })} placeholder="v1-short / v2-tailored" />
-              </div>
-            </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>First Contact</Label>
+                    <SmartDateInput
+                      value={outreach.firstContact}
+                      onCommit={(v) => onUpdate({ firstContact: v })}
+                      placeholder="MM/DD/YYYY"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Email Version</Label>
+                    <Input value={outreach.emailVersion} onChange={(e) => onUpdate({ emailVersion: e.target.value })} placeholder="v1-short / v2-tailored" />
+                  </div>
+                </div>
 
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label>Reply Status</Label>
-                <div className="flex gap-2">
-                  <SelectBox
-                    value={outreach.replied}
-                    onValueChange={(v) => onUpdate({ replied: v as any })}
-                    options={[
-                      { value: "No reply", label: "No reply" },
-                      { value: "Replied", label: "Replied" },
-                      { value: "Auto-reply", label: "Auto-reply" },
-                    ]}
-                  />
-                  <Button
-                    variant="outline"
-                    onClick={async () => {
-                      if (outreach.threadId) {
-                        try {
-                          const response = await fetch(`http://localhost:3001/check-replies/${outreach.threadId}`);
-                          const data = await response.json();
-                          if (data.replies.length > 0) {
-                            alert(`Found ${data.replies.length} reply(s)`);
-                            onUpdate({ replied: 'Replied', replyDate: new Date().toISOString().split('T')[0] });
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Reply Status</Label>
+                    <div className="flex gap-2">
+                      <SelectBox
+                        value={outreach.replied}
+                        onValueChange={(v) => onUpdate({ replied: v as any })}
+                        options={[
+                          { value: "No reply", label: "No reply" },
+                          { value: "Replied", label: "Replied" },
+                          { value: "Auto-reply", label: "Auto-reply" },
+                        ]}
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={serverOffline}
+                        title={serverOffline ? "The server is not reachable" : undefined}
+                        onClick={async () => {
+                          if (outreach.threadId) {
+                            try {
+                              const data = await api.checkReplies(outreach.threadId);
+                              if (data.replies.length > 0) {
+                                alert(`Found ${data.replies.length} reply(s)`);
+                                onUpdate({ replied: 'Replied', replyDate: new Date().toISOString().split('T')[0] });
+                              } else {
+                                alert('No new replies');
+                              }
+                            } catch (error) {
+                              alert(`Failed to check replies. ${api.describeError(error)}`);
+                            }
                           } else {
-                            alert('No new replies');
+                            alert('No thread ID available');
                           }
-                        } catch (error) {
-                          alert('Failed to check replies');
-                        }
-                      } else {
-                        alert('No thread ID available');
-                      }
-                    }}
-                  >
-                    Check Replies
-                  </Button>
+                        }}
+                      >
+                        Check Replies
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reply Date</Label>
+                    <SmartDateInput
+                      value={outreach.replyDate}
+                      onCommit={(v) => onUpdate({ replyDate: v })}
+                      placeholder="MM/DD/YYYY"
+                    />
+                  </div>
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label>Reply Date</Label>
-                <SmartDateInput
-                  value={outreach.replyDate}
-                  onCommit={(v) => onUpdate({ replyDate: v })}
-                  placeholder="MM/DD/YYYY"
-                />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Reply Summary</Label>
-              <Textarea value={outreach.replySummary} onChange={(e) => onUpdate({ replySummary: e.target.value })} rows={4} />
-            </div>
-          </div>
 
-          <div className="space-y-3">
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label>Stage</Label>
-                <SelectBox
-                  value={outreach.stage}
-                  onValueChange={(v) => onUpdate({ stage: v as any })}
-                  options={(
-                    ["Drafting", "Sent", "Follow-up", "Meeting", "Closed"] as OutreachStage[]
-                  ).map((s) => ({ value: s, label: s }))}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Next Follow-up</Label>
-                <SmartDateInput
-                  value={outreach.nextFollowUp}
-                  onCommit={(v) => onUpdate({ nextFollowUp: v })}
-                  placeholder="MM/DD/YYYY"
-                />
+                <div className="space-y-2">
+                  <Label>Reply Summary</Label>
+                  <Textarea value={outreach.replySummary} onChange={(e) => onUpdate({ replySummary: e.target.value })} rows={4} />
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-2">
-              <Label>Next Action</Label>
-              <Textarea value={outreach.nextAction} onChange={(e) => onUpdate({ nextAction: e.target.value })} rows={3} />
-            </div>
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Stage</Label>
+                    <SelectBox
+                      value={outreach.stage}
+                      onValueChange={(v) => onUpdate({ stage: v as any })}
+                      options={(
+                        ["Drafting", "Sent", "Follow-up", "Meeting", "Closed"] as OutreachStage[]
+                      ).map((s) => ({ value: s, label: s }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Next Follow-up</Label>
+                    <SmartDateInput
+                      value={outreach.nextFollowUp}
+                      onCommit={(v) => onUpdate({ nextFollowUp: v })}
+                      placeholder="MM/DD/YYYY"
+                    />
+                  </div>
+                </div>
 
-            <Separator />
+                <div className="space-y-2">
+                  <Label>Next Action</Label>
+                  <Textarea value={outreach.nextAction} onChange={(e) => onUpdate({ nextAction: e.target.value })} rows={3} />
+                </div>
 
-            <div className="space-y-2">
-              <Label>Research Directions</Label>
-              <div className="flex gap-2">
-                <Input value={dirInput} onChange={(e) => setDirInput(e.target.value)} placeholder="Add direction" />
-                <Button variant="outline" onClick={addDirection}>
-                  Add
-                </Button>
-              </div>
-              <div className="flex gap-2 flex-wrap">
-                {(outreach.directions || []).map((d, idx) => (
-                  <Badge key={idx} variant="secondary" className="rounded-full">
-                    {d}
-                    <button className="ml-2 text-xs opacity-70 hover:opacity-100" onClick={() => removeDirection(d)}>
-                      ×
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </div>
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label>Research Directions</Label>
+                  <div className="flex gap-2">
+                    <Input value={dirInput} onChange={(e) => setDirInput(e.target.value)} placeholder="Add direction" />
+                    <Button variant="outline" onClick={addDirection}>
+                      Add
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 flex-wrap">
+                    {(outreach.directions || []).map((d, idx) => (
+                      <Badge key={idx} variant="secondary" className="rounded-full">
+                        {d}
+                        <button className="ml-2 text-xs opacity-70 hover:opacity-100" onClick={() => removeDirection(d)}>
+                          ×
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
 
-            <Separator />
+                <Separator />
 
-            <div className="space-y-2">
-              <Label>Linked Projects</Label>
-              {projects.length ? (
                 <div className="space-y-2">
-                  {projects.map((p) => (
-                    <div key={p.id} className="rounded-lg border p-2">
-                      <div className="text-sm font-medium">
-                        {p.projectId} · {p.name || "(untitled)"}
-                      </div>
-                      <div className="text-xs text-muted-foreground">{p.institution}</div>
+                  <Label>Linked Projects</Label>
+                  {projects.length ? (
+                    <div className="space-y-2">
+                      {projects.map((p) => (
+                        <div key={p.id} className="rounded-lg border p-2">
+                          <div className="text-sm font-medium">
+                            {p.projectId} · {p.name || "(untitled)"}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{p.institution}</div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-sm text-muted-foreground">No projects linked yet.</div>
-              )}
+                  ) : (
+                    <div className="text-sm text-muted-foreground">No projects linked yet.</div>
+                  )}
 
-              <SelectBox
-                value=""
-                onValueChange={(pid) => onLinkProject(pid)}
-                options={allProjects.map((p) => ({
-                  value: p.id,
-                  label: `${p.projectId} · ${p.name || "(untitled)"}`,
-                }))}
-              />
-            </div>
+                  <SelectBox
+                    value=""
+                    onValueChange={(pid) => onLinkProject(pid)}
+                    options={allProjects.map((p) => ({
+                      value: p.id,
+                      label: `${p.projectId} · ${p.name || "(untitled)"}`,
+                    }))}
+                  />
+                </div>
 
-            <div className="space-y-2">
-              <Label>Notes</Label>
-              <Textarea value={outreach.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={3} />
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea value={outreach.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={3} />
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          </TabsContent>
+          <TabsContent value="email">
+            <OutreachEmailPanel
+              workspaceId={workspaceId}
+              outreach={outreach}
+              projects={projects}
+              materials={materials}
+              templates={templates}
+              onUpdate={onUpdate}
+            />
+          </TabsContent>
+          <TabsContent value="history">
+            <RecordHistory workspaceId={workspaceId} collection="outreach" record={outreach} onRevert={onUpdate} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <Button onClick={() => setOpen(false)}>Done</Button>
@@ -3309,12 +9066,14 @@ function OutreachDetailsDialog({
 }
 
 function MaterialDetailsDialog({
+  workspaceId,
   task,
   project,
   onUpdate,
   controlledOpen,
   onOpenChange,
 }: {
+  workspaceId: string;
   task: MaterialTask;
   project?: Project;
   onUpdate: (patch: Partial<MaterialTask>) => void;
@@ -3322,6 +9081,7 @@ function MaterialDetailsDialog({
   onOpenChange?: (open: boolean) => void;
 }) {
   const [internalOpen, setInternalOpen] = useState(false);
+  const fileBlocker = fileServerBlocker(useServerHealth());
   
   const open = controlledOpen !== undefined ? controlledOpen : internalOpen;
   const setOpen = controlledOpen !== undefined 
@@ -3347,99 +9107,104 @@ function MaterialDetailsDialog({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-3">
-          <div className="grid md:grid-cols-2 gap-2">
-            <div className="space-y-2">
-              <Label>Due Date</Label>
-              <SmartDateInput
-                value={task.due}
-                onCommit={(v) => onUpdate({ due: v })}
-                placeholder="MM/DD/YYYY"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label>Dependency</Label>
-              <Input value={task.dependency} onChange={(e) => onUpdate({ dependency: e.target.value })} placeholder="E.g., confirm recommender" />
-            </div>
-          </div>
+        <Tabs defaultValue="details" className="space-y-4">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-3">
+              <div className="grid md:grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>Due Date</Label>
+                  <SmartDateInput
+                    value={task.due}
+                    onCommit={(v) => onUpdate({ due: v })}
+                    placeholder="MM/DD/YYYY"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Dependency</Label>
+                  <Input value={task.dependency} onChange={(e) => onUpdate({ dependency: e.target.value })} placeholder="E.g., confirm recommender" />
+                </div>
+              </div>
 
-          <div className="space-y-4 border rounded-md p-4 bg-muted/10">
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <Upload className="h-4 w-4" />
-                File Management
-              </Label>
+              <div className="space-y-4 border rounded-md p-4 bg-muted/10">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Upload className="h-4 w-4" />
+                    File Management
+                  </Label>
               
-              <div className="flex gap-2">
-                <Input 
-                  value={task.link} 
-                  onChange={(e) => onUpdate({ link: e.target.value })} 
-                  placeholder="File URL or External Link" 
-                  className="flex-1"
-                />
-                {task.link && (
-                  <Button
-                    variant="secondary"
-                    size="icon"
-                    onClick={() => window.open(task.link, '_blank')}
-                    title="Open Link"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                    </svg>
-                  </Button>
-                )}
-              </div>
+                  <div className="flex gap-2">
+                    <Input 
+                      value={task.link} 
+                      onChange={(e) => onUpdate({ link: e.target.value })} 
+                      placeholder="File URL or External Link" 
+                      className="flex-1"
+                    />
+                    {task.link && (
+                      <Button
+                        variant="secondary"
+                        size="icon"
+                        onClick={() => openMaterialLink(workspaceId, task.link)}
+                        title="Open Link"
+                      >
+                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                        </svg>
+                      </Button>
+                    )}
+                  </div>
 
-              <div className="flex items-center gap-3 mt-2">
-                <input
-                  type="file"
-                  id={`file-upload-${task.id}`}
-                  style={{ display: 'none' }}
-                  onChange={async (e) => {
-                    const file = e.target.files?.[0];
-                    if (file) {
-                      const formData = new FormData();
-                      formData.append('file', file);
-                      // Add metadata for folder structure
-                      // Use project name for folder naming as requested
-                      formData.append('projectName', project ? project.name : 'General');
-                      formData.append('type', task.type);
-
-                      try {
-                        const response = await fetch('http://localhost:3001/upload', {
-                          method: 'POST',
-                          body: formData,
-                        });
-                        if (!response.ok) throw new Error('Upload failed');
-                        const data = await response.json();
-                        onUpdate({ link: data.link });
-                      } catch (error) {
-                        alert('Upload failed. Ensure server is running on port 3001.');
-                      }
-                    }
-                    e.target.value = '';
-                  }}
-                />
-                <Button
-                  variant="outline"
-                  className="w-full"
-                  onClick={() => document.getElementById(`file-upload-${task.id}`)?.click()}
-                >
-                  <Upload className="h-4 w-4 mr-2" />
-                  Upload & Organize File
-                </Button>
+                  <div className="flex items-center gap-3 mt-2">
+                    <input
+                      type="file"
+                      id={`file-upload-${task.id}`}
+                      style={{ display: 'none' }}
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          try {
+                            // Use project name for folder naming as requested
+                            const data = await api.uploadMaterialFile(workspaceId, file, {
+                              projectName: project ? project.name : 'General',
+                              type: task.type,
+                            });
+                            onUpdate({ link: data.link });
+                          } catch (error) {
+                            alert(`Upload failed. ${api.describeError(error)}`);
+                          }
+                        }
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={Boolean(fileBlocker)}
+                      title={fileBlocker || undefined}
+                      onClick={() => document.getElementById(`file-upload-${task.id}`)?.click()}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload & Organize File
+                    </Button>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    * Uploads to configured folder/{project ? project.name : 'General'}/{task.type}.ext
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Notes</Label>
+                <Textarea value={task.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={6} />
               </div>
-              <p className="text-[10px] text-muted-foreground">
-                * Uploads to configured folder/{project ? project.name : 'General'}/{task.type}.ext
-              </p>
             </div>
-          </div>
-          <div className="space-y-2">
-            <Label>Notes</Label>
-            <Textarea value={task.notes} onChange={(e) => onUpdate({ notes: e.target.value })} rows={6} />
-          </div>
-        </div>
+          </TabsContent>
+          <TabsContent value="history">
+            <RecordHistory workspaceId={workspaceId} collection="materials" record={task} onRevert={onUpdate} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <Button onClick={() => setOpen(false)}>Done</Button>
@@ -3589,11 +9354,13 @@ function DecisionEditor({
 }
 
 function DecisionDetailsDialog({
+  workspaceId,
   decision,
   project,
   onUpdate,
   onClose,
 }: {
+  workspaceId: string;
   decision: Decision;
   project: Project;
   onUpdate: (patch: Partial<Decision>) => void;
@@ -3607,6 +9374,21 @@ function DecisionDetailsDialog({
     setLocalDecision(decision);
   }, [decision.id]);
 
+  // Take changes made elsewhere (e.g. another tab) for fields not being edited here.
+  const lastDecisionRef = React.useRef(decision);
+  React.useEffect(() => {
+    const prev = lastDecisionRef.current;
+    lastDecisionRef.current = decision;
+    if (prev.id !== decision.id) return;
+    setLocalDecision((local) => {
+      const next: any = { ...local };
+      (Object.keys(decision) as (keyof Decision)[]).forEach((k) => {
+        if (decision[k] !== prev[k] && local[k] === prev[k]) next[k] = decision[k];
+      });
+      return next;
+    });
+  }, [decision]);
+
   const handleLocalUpdate = (patch: Partial<Decision>) => {
     setLocalDecision((prev) => ({ ...prev, ...patch }));
   };
@@ -3625,41 +9407,60 @@ function DecisionDetailsDialog({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label className="text-sm font-medium">Conclusion</Label>
-              <SelectBox
-                value={localDecision.conclusion || "_none_"}
-                onValueChange={(v) => {
-                  const val = v === "_none_" ? "" : v;
-                  handleLocalUpdate({ conclusion: val as any });
-                  commitUpdate({ conclusion: val as any });
-                }}
-                options={[{ value: "_none_", label: "(empty)" }, ...DECISION_OPTIONS]}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label className="text-sm font-medium">Priority</Label>
-              <SelectBox
-                value={localDecision.priority || "_none_"}
-                onValueChange={(v) => {
-                  const val = v === "_none_" ? "" : v;
-                  handleLocalUpdate({ priority: val as any });
-                  commitUpdate({ priority: val as any });
-                }}
-                options={[{ value: "_none_", label: "(empty)" }, ...PRIORITIES.map((pr) => ({ value: pr, label: pr }))]}
+        <Tabs defaultValue="details" className="space-y-4">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Conclusion</Label>
+                  <SelectBox
+                    value={localDecision.conclusion || "_none_"}
+                    onValueChange={(v) => {
+                      const val = v === "_none_" ? "" : v;
+                      handleLocalUpdate({ conclusion: val as any });
+                      commitUpdate({ conclusion: val as any });
+                    }}
+                    options={[{ value: "_none_", label: "(empty)" }, ...DECISION_OPTIONS]}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Priority</Label>
+                  <SelectBox
+                    value={localDecision.priority || "_none_"}
+                    onValueChange={(v) => {
+                      const val = v === "_none_" ? "" : v;
+                      handleLocalUpdate({ priority: val as any });
+                      commitUpdate({ priority: val as any });
+                    }}
+                    options={[{ value: "_none_", label: "(empty)" }, ...PRIORITIES.map((pr) => ({ value: pr, label: pr }))]}
+                  />
+                </div>
+              </div>
+
+              <DecisionEditor 
+                d={localDecision} 
+                p={project} 
+                onLocalUpdate={handleLocalUpdate}
+                onCommit={commitUpdate}
               />
             </div>
-          </div>
-
-          <DecisionEditor 
-            d={localDecision} 
-            p={project} 
-            onLocalUpdate={handleLocalUpdate}
-            onCommit={commitUpdate}
-          />
-        </div>
+          </TabsContent>
+          <TabsContent value="history">
+            <RecordHistory
+              workspaceId={workspaceId}
+              collection="decisions"
+              record={localDecision}
+              onRevert={(patch) => {
+                handleLocalUpdate(patch);
+                commitUpdate(patch);
+              }}
+            />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -3688,6 +9489,171 @@ export function __tests__() {
   const t6 = Array.isArray(norm.projects) && Array.isArray(norm.outreach) && Array.isArray(norm.materials) && Array.isArray(norm.decisions);
   results.push({ name: "normalizeStore shape", ok: t6 });
 
+  let t8 = false;
+  try {
+    migrateStore({ ...raw, meta: { ...raw.meta, version: SCHEMA_VERSION + 1 } });
+  } catch {
+    t8 = true;
+  }
+  results.push({ name: "migrateStore refuses newer schema", ok: t8 });
+
+  const legacy = migrateStore({ projects: [] });
+  const t9 = legacy.store.meta.version === SCHEMA_VERSION && legacy.report?.fromVersion === 0 && legacy.store.outreach.length === 0;
+  results.push({ name: "migrateStore upgrades unversioned data", ok: t9 });
+
+  const selfMerge = buildMergePlan(raw, raw);
+  const t10 = selfMerge.length > 0 && selfMerge.every((i) => i.status === "identical");
+  results.push({ name: "buildMergePlan matches identical records", ok: t10 });
+
+  const t11 =
+    parseFlexibleDate("2026-02-22", "MDY") === "02/22/2026" &&
+    parseFlexibleDate("22/02/2026", "MDY") === "02/22/2026" &&
+    parseFlexibleDate("03/04/26", "DMY") === "04/03/2026" &&
+    parseFlexibleDate("Feb 22, 2026", "MDY") === "02/22/2026" &&
+    parseFlexibleDate("not a date", "MDY") === null;
+  results.push({ name: "parseFlexibleDate formats", ok: t11 });
+
+  const parsedCsv = parseDelimited('a,"b,c"\n"d ""e"" x",f\n', ",");
+  const t12 = JSON.stringify(parsedCsv) === JSON.stringify([["a", "b,c"], ['d "e" x', "f"]]);
+  results.push({ name: "parseDelimited quoting", ok: t12 });
+
+  const carried = carryOverProjects([{ ...raw.projects[0], ddl: "02/29/2028", period: "Jun–Aug 2028" }]).projects[0];
+  const t13 = carried.ddl === "02/28/2029" && carried.period === "Jun–Aug 2029" && carried.outreachIds.length === 0;
+  results.push({ name: "carryOverProjects shifts a year", ok: t13 });
+
+  const audit: AuditEntry[] = [
+    { at: "2026-01-01T00:00:00Z", collection: "outreach", id: "o", op: "update", changes: [{ field: "stage", old: "Drafting", new: "Sent" }] },
+    { at: "2026-01-01T00:00:10Z", collection: "outreach", id: "o", op: "update", changes: [{ field: "stage", old: "Sent", new: "Closed" }] },
+    { at: "2026-03-01T00:00:00Z", collection: "outreach", id: "o", op: "update", changes: [{ field: "notes", old: "", new: "x" }] },
+  ];
+  const grouped = groupAuditEntries(audit);
+  const t14 =
+    grouped.length === 2 &&
+    grouped[0].changes[0].old === "Drafting" &&
+    grouped[0].changes[0].new === "Closed" &&
+    JSON.stringify(revertPatchTo({ id: "o", stage: "Closed", notes: "x" }, grouped, 0)) === JSON.stringify({ stage: "Drafting", notes: "" });
+  results.push({ name: "audit history groups and reverts", ok: t14 });
+
+  const tabBase = normalizeStore(raw);
+  const pid = tabBase.projects[0].id;
+  const fromOther = tabMessageFor(tabBase, patchStoreRecord(tabBase, "projects", pid, { name: "Theirs", round: "R2" }));
+  const edited = patchStoreRecord(tabBase, "projects", pid, { name: "Mine" });
+  const tabResult = applyTabMessage(edited, fromOther);
+  const t15 =
+    tabResult.store.projects[0].name === "Mine" &&
+    tabResult.store.projects[0].round === "R2" &&
+    tabResult.conflicts.length === 1 &&
+    tabResult.conflicts[0].theirs === "Theirs";
+  results.push({ name: "tab sync applies clean fields and flags conflicts", ok: t15 });
+
+  const reportBase = normalizeStore({ ...raw, projects: raw.projects.map((p: any, i: number) => (i === 0 ? { ...p, name: "A | B", notes: "" } : p)) });
+  const reportMd = reportMarkdown(buildProjectReport(reportBase, reportBase.projects.slice(0, 2).map((p) => p.id)));
+  const t16 =
+    reportMd.startsWith(`# ${reportBase.projects[0].projectId} · A | B\n`) &&
+    reportMd.includes("| Fit | Risk | ROI |") &&
+    reportMd.split("\n---\n").length === 2;
+  results.push({ name: "project report renders markdown", ok: t16 });
+
+  let fileOps = enqueueFileOp([], { kind: "rename-folder", projectId: "p", from: "A", to: "B" });
+  fileOps = enqueueFileOp(fileOps, { kind: "move-file", materialId: "m", from: "B/CV.pdf", to: "General/CV.pdf" });
+  fileOps = enqueueFileOp(fileOps, { kind: "rename-folder", projectId: "p", from: "B", to: "C" });
+  const folded = fileOps;
+  fileOps = enqueueFileOp(fileOps, { kind: "move-file", materialId: "m", from: "General/CV.pdf", to: "B/CV.pdf" });
+  const t17 =
+    folded.length === 2 &&
+    folded[0].kind === "rename-folder" &&
+    folded[0].from === "A" &&
+    folded[0].to === "C" &&
+    fileOps.length === 1 &&
+    fileOps[0].kind === "rename-folder";
+  results.push({ name: "file op queue folds repeated renames and moves", ok: t17 });
+
+  const healthy: api.ServerHealth = {
+    version: "0.0.0",
+    uptime: 1,
+    storage: { reachable: true, writable: true, freeBytes: 1e10, totalBytes: 1e11, lowDisk: false, error: null },
+    google: { configured: false, signedIn: false },
+  };
+  const unwritable = { ...healthy, storage: { ...healthy.storage, writable: false, error: "EACCES" } };
+  const t18 =
+    serverStatusFor(healthy) === "online" &&
+    serverStatusFor(unwritable) === "degraded" &&
+    serverStatusFor(null) === "offline" &&
+    fileServerBlocker({ status: "online", health: healthy, error: null }) === null &&
+    fileServerBlocker({ status: "degraded", health: unwritable, error: null })?.includes("EACCES") === true;
+  results.push({ name: "server health maps to status", ok: t18 });
+
+  const draft = outreachDraft(
+    { ...norm.outreach[0], piName: "Smith", contact: "Jane Smith <smith@mit.edu>", directions: ["Robotics"] },
+    []
+  );
+  const t19 =
+    draft.to === "smith@mit.edu" &&
+    draft.subject === "Summer research inquiry: Robotics" &&
+    draft.body.startsWith("Dear Prof. Smith,\n") &&
+    outreachDraft({ ...norm.outreach[0], contact: "https://forms.example.com/apply" }, []).to === "";
+  results.push({ name: "outreach draft prefills from the record", ok: t19 });
+
+  const t20 =
+    materialFilePath("http://localhost:3001/files/%E6%9A%91%E7%A0%94/CV.pdf") === "暑研/CV.pdf" &&
+    materialFilePath("https://drive.google.com/file/d/abc/view") === null;
+  results.push({ name: "material links map to attachment paths", ok: t20 });
+
+  const rendered = renderTemplate(
+    { subject: "Hi {{ piName }}", body: "{{project.name}} / {{institution}} / {{piNmae}}" },
+    templateContext({ ...raw.outreach[0], piName: "Li", institution: "" }, raw.projects[0])
+  );
+  const t21 =
+    rendered.subject === "Hi Li" &&
+    rendered.body === `${raw.projects[0].name} / {{institution}} / {{piNmae}}` &&
+    rendered.missing.join() === "institution" &&
+    rendered.unknown.join() === "piNmae" &&
+    nextTemplateVersion("v1-short", ["v2-short"]) === "v3-short" &&
+    nextTemplateVersion("final", []) === "final-2";
+  results.push({ name: "renderTemplate fills and flags variables", ok: t21 });
+
+  const [withAddress, withoutAddress] = campaignDrafts(
+    { ...starterTemplate(), subject: "{{piName}}", body: "{{contact}}" },
+    [
+      { ...raw.outreach[0], piName: "Li", contact: "Li <li@u.edu>", threadId: undefined },
+      { ...raw.outreach[0], id: "o2", piName: "", contact: "https://form", threadId: "t" },
+    ],
+    raw.projects
+  );
+  const t22 =
+    withAddress.to === "li@u.edu" &&
+    withAddress.include &&
+    campaignIssues(withAddress, undefined).length === 0 &&
+    !withoutAddress.include &&
+    campaignIssues(withoutAddress, { ...raw.outreach[0], threadId: "t" }).join(" | ") ===
+      "No email address | Unfilled {{piName}} | Already emailed; this starts a new thread";
+  results.push({ name: "campaign drafts render per record and flag issues", ok: t22 });
+
+  const friday = Date.parse("2030-01-04T20:00:00Z"); // 15:00 in New York, Saturday 04:00 in Shanghai
+  const t23 =
+    nextWeekdayMorning("America/New_York", friday).toISOString() === "2030-01-07T14:00:00.000Z" &&
+    nextWeekdayMorning("Asia/Shanghai", friday).toISOString() === "2030-01-07T01:00:00.000Z" &&
+    nextWeekdayMorning("Europe/London", Date.parse("2030-01-07T08:00:00Z")).toISOString() === "2030-01-07T09:00:00.000Z" &&
+    // US clocks move forward on Sunday 03/10/2030
+    nextWeekdayMorning("America/New_York", Date.parse("2030-03-08T15:00:00Z")).toISOString() === "2030-03-11T13:00:00.000Z";
+  results.push({ name: "next weekday 9:00 in the recipient's time zone", ok: t23 });
+
+  const [p0, p1] = tabBase.projects;
+  const offline = patchStoreRecord(patchStoreRecord(tabBase, "projects", p0.id, { name: "Offline" }), "projects", p1.id, { notes: "x" });
+  const serverNow = normalizeStore({ ...tabBase, projects: [{ ...p0, round: "R9" }] }); // p1 deleted meanwhile
+  const rebased = rebaseStoreOps(diffStores(tabBase, offline), serverNow);
+  const reconnected = applyTabMessage(serverNow, { from: TAB_ID, ops: rebased, previous: {} }, true).store;
+  const t24 =
+    rebased.length === 1 &&
+    reconnected.projects.length === 1 &&
+    reconnected.projects[0].name === "Offline" &&
+    reconnected.projects[0].round === "R9";
+  results.push({ name: "offline edits rebase onto the server's store", ok: t24 });
+
+  const heldOps = withoutConflictedFields(diffStores(tabBase, patchStoreRecord(edited, "projects", pid, { round: "R3" })), tabResult.conflicts);
+  const t25 = heldOps.length === 1 && heldOps[0].kind === "update" && JSON.stringify(heldOps[0].patch) === JSON.stringify({ round: "R3" });
+  results.push({ name: "conflicted fields are held back from the server", ok: t25 });
+
   const norm2 = normalizeStore({ ...raw, projects: raw.projects.map((p: any) => ({ ...p, outreachIds: ["missing"], materialTaskIds: ["missing2"] })) });
   const t7 = norm2.projects.every((p) => (p.outreachIds || []).every((id) => norm2.outreach.some((o) => o.id === id)));
   results.push({ name: "normalizeStore prunes dangling links", ok: t7 });
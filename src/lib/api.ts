@@ -0,0 +1,446 @@
+// Typed client for the local server (server/server.js). Every route has a function
+// here; all of them go through request(), which adds the base URL, the pairing token
+// and the workspace header, applies a timeout, retries idempotent calls with backoff
+// and turns every failure into an ApiError.
+
+export const DEFAULT_SERVER_URL = "http://localhost:3001"
+
+// ---- Errors
+
+export type ApiError = Error & {
+  name: "ApiError"
+  status: number // 0 when no response arrived
+  code: string // ENETWORK, ETIMEOUT, EAUTH, EHTTP, or the code the server sent
+  body: Record<string, any> | null
+}
+
+function apiError(message: string, status: number, code: string, body: Record<string, any> | null = null): ApiError {
+  return Object.assign(new Error(message), { name: "ApiError" as const, status, code, body })
+}
+
+export function isApiError(e: unknown): e is ApiError {
+  return e instanceof Error && e.name === "ApiError"
+}
+
+// One line suitable for an alert or an inline error.
+export function describeError(e: unknown): string {
+  if (isApiError(e) && e.code === "ENETWORK") return `The server at ${settings.baseUrl} is not reachable. Is it running?`
+  return e instanceof Error ? e.message : String(e)
+}
+
+// ---- Settings
+
+type ApiSettings = {
+  baseUrl: string
+  token: () => string | null
+  onAuthRequired: () => void // the server said this browser is not paired
+}
+
+const settings: ApiSettings = {
+  baseUrl: DEFAULT_SERVER_URL,
+  token: () => null,
+  onAuthRequired: () => undefined,
+}
+
+export function configureApi(patch: Partial<ApiSettings>) {
+  Object.assign(settings, patch)
+  if (patch.baseUrl !== undefined) settings.baseUrl = normalizeServerUrl(patch.baseUrl)
+}
+
+export function serverUrl(path = ""): string {
+  return `${settings.baseUrl}${path}`
+}
+
+// "localhost:3002/" -> "http://localhost:3002". Throws for anything that is not an http(s) URL.
+export function normalizeServerUrl(input: string): string {
+  const raw = input.trim()
+  const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `http://${raw}`)
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error("The server URL must start with http:// or https://")
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`
+}
+
+// ---- Requests
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+
+export type RequestOptions = {
+  method?: Method
+  body?: unknown // sent as JSON, or as is for FormData
+  workspace?: string
+  headers?: Record<string, string>
+  timeoutMs?: number
+  retries?: number // defaults to 2 for GET and PUT, 0 for everything else
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000
+const GOOGLE_TIMEOUT_MS = 3 * 60 * 1000 // first use opens the Google consent screen
+const UPLOAD_TIMEOUT_MS = 2 * 60 * 1000
+const RETRY_BASE_MS = 400
+const RETRY_STATUSES = [408, 429, 502, 503, 504]
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function sendOnce(path: string, options: RequestOptions): Promise<Response> {
+  const headers = new Headers(options.headers)
+  const token = settings.token()
+  if (token) headers.set("Authorization", `Bearer ${token}`)
+  if (options.workspace) headers.set("X-Workspace", options.workspace)
+  let body: BodyInit | undefined
+  if (options.body instanceof FormData) body = options.body
+  else if (options.body !== undefined) {
+    headers.set("Content-Type", "application/json")
+    body = JSON.stringify(options.body)
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetch(serverUrl(path), { method: options.method || "GET", headers, body, signal: controller.signal })
+  } catch (e) {
+    if (controller.signal.aborted) throw apiError(`The server did not respond within ${Math.round(timeoutMs / 1000)}s`, 0, "ETIMEOUT")
+    throw apiError(e instanceof Error ? e.message : String(e), 0, "ENETWORK")
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function errorFor(res: Response): Promise<ApiError> {
+  const text = await res.text().catch(() => "")
+  let body: Record<string, any> | null = null
+  try {
+    body = JSON.parse(text)
+  } catch {
+    body = null
+  }
+  const message = (body && typeof body.error === "string" && body.error) || text.trim() || `Server responded ${res.status}`
+  return apiError(message, res.status, (body && typeof body.code === "string" && body.code) || "EHTTP", body)
+}
+
+// Resolves with the response for 2xx, throws an ApiError for everything else.
+export async function send(path: string, options: RequestOptions = {}): Promise<Response> {
+  const method = options.method || "GET"
+  const retries = options.retries ?? (method === "GET" || method === "PUT" ? 2 : 0)
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError
+    try {
+      const res = await sendOnce(path, options)
+      if (res.ok) return res
+      error = await errorFor(res)
+    } catch (e) {
+      if (!isApiError(e)) throw e
+      error = e
+    }
+    if (error.code === "EAUTH") settings.onAuthRequired()
+    const retryable = error.status === 0 || RETRY_STATUSES.includes(error.status)
+    if (!retryable || attempt >= retries) throw error
+    await sleep(RETRY_BASE_MS * 2 ** attempt * (0.75 + Math.random() / 2))
+  }
+}
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const res = await send(path, options)
+  return (await res.json()) as T
+}
+
+const seg = encodeURIComponent
+
+// ---- Types shared with the server
+
+export type Collection = "projects" | "outreach" | "materials" | "decisions" | "templates"
+
+export type Workspace = {
+  id: string
+  name: string
+  folder: string
+  archived: boolean
+  createdAt: string | null
+}
+
+export type BackupRetention = { keepLast: number; hourlyForHours: number; dailyForDays: number }
+
+export type ServerConfig = {
+  storageRoot: string
+  workspaceRoot: string
+  backupRetention: BackupRetention
+  calendar: { alarmMinutes: number[] }
+  backupEncryption: { required: boolean; hasPassphrase: boolean }
+  allowedOrigins: string[]
+  workspaces: Workspace[]
+  activeWorkspace: string
+}
+
+export type ConfigUpdate = {
+  storageRoot?: string
+  backupRetention?: BackupRetention
+  calendar?: { alarmMinutes: number[] }
+  backupEncryption?: { required: boolean; passphrase?: string } // omit passphrase to keep the current one
+}
+
+export type BackupInfo = {
+  name: string
+  size: number
+  createdAt: string
+  encrypted: boolean
+  counts: Record<Collection, number> | null
+  error?: string
+}
+
+export type BackupDiff = Record<
+  Collection,
+  {
+    added: { id: string; label: string }[]
+    removed: { id: string; label: string }[]
+    changed: { id: string; label: string; fields: string[] }[]
+  }
+>
+
+export type AuditChange = { field: string; old: unknown; new: unknown }
+
+export type AuditEntry = {
+  at: string
+  collection: Collection
+  id: string
+  op: "insert" | "update" | "delete"
+  changes: AuditChange[]
+}
+
+export type RecordPatch = { collection: Collection; id: string; patch: Record<string, unknown> }
+
+export type CalendarSyncResult = {
+  calendarId: string
+  patches: RecordPatch[]
+  summary: { created: number; updated: number; deleted: number; pulled: number; errors: { record: string; error: string }[] }
+}
+
+export type FollowupReminder = {
+  outreachId: string
+  piName: string
+  daysSinceContact: number
+  needsFollowup: boolean
+  message: string
+}
+
+export type EmailMessage = {
+  to: string | string[] // "a@x.edu, Name <b@y.edu>" or a list of such entries
+  cc?: string | string[]
+  bcc?: string | string[]
+  subject: string // may be empty when replying; the server uses "Re: <thread subject>"
+  body: string // plain text; the server adds the HTML alternative unless html is given
+  html?: string
+  attachments?: string[] // material files, relative to the workspace folder
+  threadId?: string // reply in this Gmail thread
+}
+
+export type ScheduledEmailStatus = "pending" | "sending" | "sent" | "failed"
+
+// An email in the server's outbox. The server normalizes the message: addresses are
+// strings, and absent cc/bcc/threadId are "".
+export type ScheduledEmail = {
+  id: string
+  outreachId: string
+  sendAt: string // ISO timestamp
+  timeZone: string | null // the recipient's, for display
+  message: { to: string; cc: string; bcc: string; subject: string; body: string; attachments: string[]; threadId: string }
+  template: { id: string; name: string; version: string } | null
+  status: ScheduledEmailStatus
+  attempts: number
+  error: string | null
+  createdAt: string
+  sentAt?: string
+  messageId?: string
+  threadId?: string
+}
+
+export type ScheduleRequest = {
+  outreachId: string
+  sendAt: string
+  timeZone?: string | null
+  message: EmailMessage
+  template?: ScheduledEmail["template"]
+}
+
+export type ServerHealth = {
+  version: string
+  uptime: number // seconds
+  storage: {
+    reachable: boolean
+    writable: boolean
+    freeBytes: number | null
+    totalBytes: number | null
+    lowDisk: boolean
+    error: string | null
+  }
+  google: { configured: boolean; signedIn: boolean } // credentials.json / token.json present
+}
+
+type Success = { success: true }
+
+// ---- Health
+
+// No retries: the caller polls, and a missed poll is itself the answer.
+export const getHealth = () => request<ServerHealth>("/health", { retries: 0, timeoutMs: 5000 })
+
+// ---- Auth
+
+export const getAuthStatus = () => request<{ authenticated: boolean }>("/auth/status")
+
+export const requestPairingCode = () => request<Success>("/auth/pairing-code", { method: "POST" })
+
+export const pairWithServer = (code: string) => request<{ token: string }>("/auth/pair", { method: "POST", body: { code } })
+
+export const getFeedToken = () => request<{ token: string }>("/auth/feed-token")
+
+// File links are stored without credentials. Opening one in a new tab, which cannot
+// send the pairing token, adds a signed file token; it is reused until shortly
+// before it expires.
+let fileToken: { token: string; expiresAt: number } | null = null
+
+export async function authorizedFileUrl(workspace: string, link: string): Promise<string> {
+  if (!fileToken || fileToken.expiresAt - Date.now() < 5 * 60 * 1000) {
+    fileToken = await request<{ token: string; expiresAt: number }>("/auth/file-token")
+  }
+  const url = new URL(link)
+  url.searchParams.set("workspace", workspace)
+  url.searchParams.set("token", fileToken.token)
+  return url.toString()
+}
+
+// ---- Config and workspaces
+
+export const getConfig = () => request<ServerConfig>("/config")
+
+export const saveConfig = (update: ConfigUpdate) =>
+  request<{ success: true; config: Omit<ServerConfig, "workspaceRoot"> }>("/config", { method: "POST", body: update })
+
+export const listWorkspaces = () => request<{ active: string; workspaces: Workspace[] }>("/workspaces")
+
+export const createWorkspace = (name: string) => request<Workspace>("/workspaces", { method: "POST", body: { name } })
+
+export const activateWorkspace = (id: string) => request<Workspace>(`/workspaces/${seg(id)}/activate`, { method: "POST", body: {} })
+
+export const setWorkspaceArchived = (id: string, archived: boolean) =>
+  request<Workspace>(`/workspaces/${seg(id)}/archive`, { method: "POST", body: { archived } })
+
+// ---- Store (the store shape is the client's, so callers name it)
+
+export const getStore = <S>(workspace: string) => request<S>("/store", { workspace })
+
+export const putStore = <S>(workspace: string, store: S) => request<S>("/store", { method: "PUT", workspace, body: store })
+
+export const getRecord = <R>(workspace: string, collection: Collection, id: string) =>
+  request<R>(`/store/${collection}/${seg(id)}`, { workspace })
+
+export const insertRecord = <R extends { id: string }>(workspace: string, collection: Collection, record: R) =>
+  request<R>(`/store/${collection}`, { method: "POST", workspace, body: record })
+
+export const updateRecord = <R>(workspace: string, collection: Collection, id: string, patch: Record<string, unknown>) =>
+  request<R>(`/store/${collection}/${seg(id)}`, { method: "PATCH", workspace, body: patch })
+
+export const deleteRecord = (workspace: string, collection: Collection, id: string) =>
+  request<Success>(`/store/${collection}/${seg(id)}`, { method: "DELETE", workspace })
+
+export const getRecordHistory = (workspace: string, collection: Collection, id: string) =>
+  request<AuditEntry[]>(`/store/${collection}/${seg(id)}/history`, { workspace })
+
+// ---- Backups
+// Encrypted backups the server's own passphrase does not open need the passphrase
+// they were written with; without it these fail with status 401 and body.encrypted.
+
+const passphraseHeaders = (passphrase?: string | null): Record<string, string> =>
+  passphrase ? { "X-Backup-Passphrase": encodeURIComponent(passphrase) } : {}
+
+export const listBackups = (workspace: string, passphrase?: string | null) =>
+  request<BackupInfo[]>("/backups", { workspace, headers: passphraseHeaders(passphrase) })
+
+export const getBackup = (workspace: string, name: string, passphrase?: string | null) =>
+  request<unknown>(`/backups/${seg(name)}`, { workspace, headers: passphraseHeaders(passphrase) })
+
+export const getBackupDiff = (workspace: string, name: string, passphrase?: string | null) =>
+  request<BackupDiff>(`/backups/${seg(name)}/diff`, { workspace, headers: passphraseHeaders(passphrase) })
+
+export const saveBackup = <S>(workspace: string, data: S) =>
+  request<{ success: true; filename: string; pruned: string[] }>("/save-backup", { method: "POST", workspace, body: { data } })
+
+// ---- Calendar
+
+export function calendarFeedUrl(workspace: string, feedToken?: string): string {
+  return serverUrl(`/calendar.ics?workspace=${seg(workspace)}${feedToken ? `&token=${seg(feedToken)}` : ""}`)
+}
+
+export const getCalendar = async (workspace: string) => (await send(`/calendar.ics?workspace=${seg(workspace)}`)).blob()
+
+export const syncGoogleCalendar = (workspace: string) =>
+  request<CalendarSyncResult>("/google-calendar/sync", { method: "POST", workspace, timeoutMs: GOOGLE_TIMEOUT_MS })
+
+// ---- Files (paths are relative to the workspace folder)
+
+export function fileUrl(folder: string, filename: string): string {
+  return serverUrl(`/files/${seg(folder)}/${seg(filename)}`)
+}
+
+export const openFolder = (path?: string) => request<Success>("/open-folder", { method: "POST", body: { path } })
+
+export const openProjectFolder = (workspace: string, projectName: string) =>
+  request<Success>("/open-folder", { method: "POST", workspace, body: { projectName } })
+
+export const createProjectFolder = (workspace: string, projectName: string) =>
+  request<{ success: true; path: string }>("/create-project-folder", { method: "POST", workspace, body: { projectName } })
+
+export const moveFile = (workspace: string, oldPath: string, newPath: string) =>
+  request<Success>("/move-file", { method: "POST", workspace, body: { oldPath, newPath } })
+
+export const renameFolder = (workspace: string, oldName: string, newName: string) =>
+  request<Success>("/rename-folder", { method: "POST", workspace, body: { oldName, newName } })
+
+export const deleteFile = (workspace: string, filePath: string) =>
+  request<{ success: true; trashPath: string }>("/delete-file", { method: "POST", workspace, body: { filePath } })
+
+export const deleteFolder = (workspace: string, folderName: string) =>
+  request<{ success: true; trashPath: string }>("/delete-folder", { method: "POST", workspace, body: { folderName } })
+
+export function uploadMaterialFile(workspace: string, file: File, meta: { projectName: string; type: string }) {
+  const form = new FormData()
+  form.append("file", file)
+  form.append("projectName", meta.projectName)
+  form.append("type", meta.type)
+  return request<{ link: string }>("/upload", { method: "POST", workspace, body: form, timeoutMs: UPLOAD_TIMEOUT_MS })
+}
+
+// ---- Gmail and Drive
+
+export const sendEmail = (workspace: string, message: EmailMessage) =>
+  request<{ success: true; messageId: string; threadId: string }>("/send-email", {
+    method: "POST",
+    body: message,
+    workspace,
+    timeoutMs: GOOGLE_TIMEOUT_MS,
+  })
+
+// Sent by the server's scheduler once sendAt has passed; pending and failed
+// entries can be edited (which queues a failed one again) or cancelled.
+export const listScheduledEmails = (workspace: string) => request<ScheduledEmail[]>("/outbox", { workspace })
+
+export const scheduleEmail = (workspace: string, entry: ScheduleRequest) =>
+  request<ScheduledEmail>("/outbox", { method: "POST", body: entry, workspace })
+
+export const updateScheduledEmail = (
+  workspace: string,
+  id: string,
+  patch: { sendAt?: string; timeZone?: string | null; message?: Partial<EmailMessage> }
+) => request<ScheduledEmail>(`/outbox/${seg(id)}`, { method: "PATCH", body: patch, workspace })
+
+export const cancelScheduledEmail = (workspace: string, id: string) =>
+  request<Success>(`/outbox/${seg(id)}`, { method: "DELETE", workspace })
+
+export const checkReplies = (threadId: string) =>
+  request<{ replies: { id: string; snippet: string; date: string }[] }>(`/check-replies/${seg(threadId)}`, { timeoutMs: GOOGLE_TIMEOUT_MS })
+
+export const checkFollowups = <O>(outreachList: O[]) =>
+  request<{ results: FollowupReminder[] }>("/check-followups", { method: "POST", body: { outreachList }, timeoutMs: GOOGLE_TIMEOUT_MS })
+
+export function uploadToDrive(file: File) {
+  const form = new FormData()
+  form.append("file", file)
+  return request<{ link: string }>("/upload-drive", { method: "POST", body: form, timeoutMs: GOOGLE_TIMEOUT_MS })
+}
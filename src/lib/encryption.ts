@@ -0,0 +1,105 @@
+// Passphrase-encrypted JSON (PBKDF2-SHA256 -> AES-256-GCM) via WebCrypto.
+// Same envelope as the server's encrypted backups (server/encryption.js), so an
+// exported file and a backup can be opened by either side.
+
+export const ENCRYPTED_FORMAT = "summer-research-tracker/encrypted"
+
+export const KDF_ITERATIONS = 310000
+
+export type EncryptedEnvelope = {
+  format: typeof ENCRYPTED_FORMAT
+  version: 1
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string }
+  cipher: { name: "AES-GCM"; iv: string }
+  data: string // ciphertext with the GCM tag appended
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return Boolean(value && typeof value === "object" && (value as { format?: unknown }).format === ENCRYPTED_FORMAT)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(s: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(s)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+export async function encryptJson(value: unknown, passphrase: string): Promise<EncryptedEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt, KDF_ITERATIONS)
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: KDF_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  }
+}
+
+// Rejects with "Wrong passphrase or damaged file" when authentication fails.
+export async function decryptJson(envelope: EncryptedEnvelope, passphrase: string): Promise<unknown> {
+  if (envelope.version !== 1 || envelope.kdf?.name !== "PBKDF2" || envelope.cipher?.name !== "AES-GCM") {
+    throw new Error("Unsupported encrypted file")
+  }
+  const iterations = envelope.kdf.iterations
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > 10000000) {
+    throw new Error("Unsupported key derivation settings")
+  }
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), iterations)
+  let plain: ArrayBuffer
+  try {
+    plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data))
+  } catch {
+    throw new Error("Wrong passphrase or damaged file")
+  }
+  return JSON.parse(new TextDecoder().decode(plain))
+}
+
+// Lower-level helpers for values encrypted under one long-lived key (the app lock):
+// the key is derived once per unlock and each value is "<iv>.<ciphertext>" in base64.
+
+export function randomSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)))
+}
+
+export function derivePasscodeKey(passcode: string, salt: string, iterations = KDF_ITERATIONS): Promise<CryptoKey> {
+  return deriveKey(passcode, fromBase64(salt), iterations)
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text))
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`
+}
+
+export async function decryptText(key: CryptoKey, payload: string): Promise<string> {
+  const [iv, data] = payload.split(".")
+  try {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(data || ""))
+    return new TextDecoder().decode(plain)
+  } catch {
+    throw new Error("Wrong passcode or damaged data")
+  }
+}
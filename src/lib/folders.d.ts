@@ -0,0 +1 @@
+export function projectFolderName(name: string): string
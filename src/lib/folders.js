@@ -0,0 +1,19 @@
+// Maps a project name to the name of its folder under the workspace folder. The app
+// builds file paths and links from it and the server creates, renames, deletes and
+// opens folders with it, so the two always agree on where a project's files live.
+//
+// Anything but letters, digits, "_", "-", CJK and spaces becomes "_", as in the
+// folders earlier versions made, so a folder name never holds a separator, a dot
+// segment or a character Windows rejects. Surrounding spaces and trailing dots are
+// trimmed, and names the server keeps for itself or Windows reserves for devices
+// get a "_" in front.
+
+const RESERVED_FOLDERS = /^(data|backups|workspaces|con|prn|aux|nul|com\d|lpt\d)$/i
+
+export function projectFolderName(name) {
+  const folder = String(name ?? "")
+    .replace(/[^a-zA-Z0-9_\-\u4e00-\u9fa5\s]/g, "_")
+    .replace(/[^\S ]/g, "_")
+    .replace(/^ +|[ .]+$/g, "")
+  return RESERVED_FOLDERS.test(folder) ? `_${folder}` : folder
+}
@@ -0,0 +1,151 @@
+import { strToU8, zipSync } from "fflate"
+
+// Minimal Office Open XML writer: one worksheet per sheet, inline strings,
+// real date cells (serial numbers with a date format) and a frozen header row.
+
+export type CellValue = string | number | Date | null | undefined
+
+export type Sheet = {
+  name: string
+  columns: string[]
+  rows: CellValue[][]
+}
+
+const DATE_STYLE = 1
+const HEADER_STYLE = 2
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function columnRef(index: number): string {
+  let n = index + 1
+  let ref = ""
+  while (n > 0) {
+    const r = (n - 1) % 26
+    ref = String.fromCharCode(65 + r) + ref
+    n = Math.floor((n - 1) / 26)
+  }
+  return ref
+}
+
+function excelSerial(d: Date): number {
+  return (Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) - Date.UTC(1899, 11, 30)) / 86400000
+}
+
+function cellXml(value: CellValue, ref: string, style?: number): string {
+  const s = style ? ` s="${style}"` : ""
+  if (value === null || value === undefined || value === "") return ""
+  if (value instanceof Date) return `<c r="${ref}" s="${DATE_STYLE}"><v>${excelSerial(value)}</v></c>`
+  if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value))}</t></is></c>`
+}
+
+function sheetXml(sheet: Sheet): string {
+  const rows = [sheet.columns, ...sheet.rows].map((row, r) => {
+    const cells = row.map((v, c) => cellXml(v, `${columnRef(c)}${r + 1}`, r === 0 ? HEADER_STYLE : undefined)).join("")
+    return `<row r="${r + 1}">${cells}</row>`
+  })
+  const widths = sheet.columns
+    .map((col, c) => {
+      const longest = Math.max(
+        col.length,
+        ...sheet.rows.map((row) => (row[c] instanceof Date ? 10 : String(row[c] ?? "").split("\n")[0].length))
+      )
+      return `<col min="${c + 1}" max="${c + 1}" width="${Math.min(60, Math.max(10, longest + 2))}" customWidth="1"/>`
+    })
+    .join("")
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    (widths ? `<cols>${widths}</cols>` : "") +
+    `<sheetData>${rows.join("")}</sheetData>` +
+    `</worksheet>`
+  )
+}
+
+function safeSheetName(name: string, used: Set<string>): string {
+  let base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet"
+  let candidate = base
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    base = base.slice(0, 28)
+    candidate = `${base} ${i}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export function buildXlsx(sheets: Sheet[]): Uint8Array<ArrayBuffer> {
+  const used = new Set<string>()
+  const names = sheets.map((s) => safeSheetName(s.name, used))
+
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        `</Types>`
+    ),
+    "_rels/.rels": strToU8(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`
+    ),
+    "xl/workbook.xml": strToU8(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets>${names.map((n, i) => `<sheet name="${xmlEscape(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>` +
+        `</workbook>`
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        `</Relationships>`
+    ),
+    "xl/styles.xml": strToU8(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>` +
+        `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+        `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+        `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+        `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+        `<cellXfs count="3">` +
+        `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+        `<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+        `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>` +
+        `</cellXfs>` +
+        `</styleSheet>`
+    ),
+  }
+
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet))
+  })
+
+  // zipSync always allocates a plain ArrayBuffer, so the result is a valid BlobPart.
+  return zipSync(files, { level: 6 }) as Uint8Array<ArrayBuffer>
+}